@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getArticle } from "@/lib/scraping/articles";
+
+/**
+ * Returns a scraped article with its plain text and markdown rendition
+ *
+ * @param _request - Incoming request
+ * @param context - Route context
+ * @param context.params - Route parameters containing the article ID
+ * @returns JSON article, or a 400/404 error
+ * @example
+ * // GET /api/articles/42
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const articleId = parseInt(id, 10);
+
+  if (Number.isNaN(articleId)) {
+    return NextResponse.json({ error: "Invalid article ID" }, { status: 400 });
+  }
+
+  const article = await getArticle(articleId);
+
+  if (article === null) {
+    return NextResponse.json({ error: "Article not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(article);
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { listArticles } from "@/lib/scraping/articles";
+
+/**
+ * Parses an optional ISO date query parameter
+ *
+ * @param value - Raw query parameter value
+ * @returns Parsed date, undefined if absent, or null if invalid
+ */
+function parseDate(value: string | null): Date | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Lists scraped articles with their metadata, filtered by it
+ *
+ * Query parameters: `site`, `language`, `author` (substring), `keyword`,
+ * `publishedAfter` and `publishedBefore` (ISO dates) and `limit` (1-500).
+ *
+ * @param request - Incoming request
+ * @returns JSON article list, or a 400 error
+ * @example
+ * // GET /api/articles?site=GitHub&language=en&publishedAfter=2024-01-01
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const site = searchParams.get("site");
+  const language = searchParams.get("language");
+  const author = searchParams.get("author");
+  const keyword = searchParams.get("keyword");
+  const publishedAfter = parseDate(searchParams.get("publishedAfter"));
+  const publishedBefore = parseDate(searchParams.get("publishedBefore"));
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam !== null ? parseInt(limitParam, 10) : undefined;
+
+  if (publishedAfter === null || publishedBefore === null) {
+    return NextResponse.json(
+      { error: "publishedAfter and publishedBefore must be ISO dates" },
+      { status: 400 }
+    );
+  }
+
+  if (
+    limit !== undefined &&
+    (Number.isNaN(limit) || limit < 1 || limit > 500)
+  ) {
+    return NextResponse.json(
+      { error: "limit must be an integer from 1 to 500" },
+      { status: 400 }
+    );
+  }
+
+  const articles = await listArticles({
+    ...(site !== null && { siteName: site }),
+    ...(language !== null && { language: language.toLowerCase() }),
+    ...(author !== null && { author }),
+    ...(keyword !== null && { keyword }),
+    ...(publishedAfter !== undefined && { publishedAfter }),
+    ...(publishedBefore !== undefined && { publishedBefore }),
+    ...(limit !== undefined && { limit }),
+  });
+
+  return NextResponse.json(articles);
+}
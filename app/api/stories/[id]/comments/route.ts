@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getCommentTree } from "@/lib/hacker-news/comments";
+
+/**
+ * Parses an optional positive integer query parameter
+ *
+ * @param value - Raw query parameter value
+ * @returns Parsed number, undefined if absent, or null if invalid
+ */
+function parsePositiveInt(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? null : parsed;
+}
+
+/**
+ * Returns a story's comment thread as a nested tree in HN display order
+ *
+ * Query parameters: `maxDepth`, `pageSize` and `page` (all positive integers).
+ *
+ * @param request - Incoming request
+ * @param context - Route context
+ * @param context.params - Route parameters containing the story ID
+ * @returns JSON comment tree, or a 400/404 error
+ * @example
+ * // GET /api/stories/42/comments?maxDepth=3&pageSize=20&page=2
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const storyId = parseInt(id, 10);
+
+  if (Number.isNaN(storyId)) {
+    return NextResponse.json({ error: "Invalid story ID" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const maxDepth = parsePositiveInt(searchParams.get("maxDepth"));
+  const pageSize = parsePositiveInt(searchParams.get("pageSize"));
+  const page = parsePositiveInt(searchParams.get("page"));
+
+  if (maxDepth === null || pageSize === null || page === null) {
+    return NextResponse.json(
+      { error: "maxDepth, pageSize and page must be positive integers" },
+      { status: 400 }
+    );
+  }
+
+  const tree = await getCommentTree(storyId, {
+    ...(maxDepth !== undefined && { maxDepth }),
+    ...(pageSize !== undefined && { pageSize }),
+    ...(page !== undefined && { page }),
+  });
+
+  if (tree === null) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(tree);
+}
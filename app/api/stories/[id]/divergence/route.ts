@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getStoryDivergence } from "@/lib/embeddings/divergence";
+
+/**
+ * Returns how far each embedded comment on a story is from its article
+ *
+ * @param _request - Incoming request
+ * @param context - Route context
+ * @param context.params - Route parameters containing the story ID
+ * @returns JSON divergence, or a 400/404 error
+ * @example
+ * // GET /api/stories/42/divergence
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const storyId = parseInt(id, 10);
+
+  if (Number.isNaN(storyId)) {
+    return NextResponse.json({ error: "Invalid story ID" }, { status: 400 });
+  }
+
+  const divergence = await getStoryDivergence(storyId);
+
+  if (divergence === null) {
+    return NextResponse.json(
+      { error: "Story has no embedded article" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(divergence);
+}
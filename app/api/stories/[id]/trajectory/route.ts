@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getStoryTrajectory } from "@/lib/hacker-news/snapshots";
+
+/**
+ * Returns the score and comment-count trajectory of a story
+ *
+ * @param _request - Incoming request
+ * @param context - Route context
+ * @param context.params - Route parameters containing the story ID
+ * @returns JSON trajectory, or a 400/404 error
+ * @example
+ * // GET /api/stories/42/trajectory
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const storyId = parseInt(id, 10);
+
+  if (Number.isNaN(storyId)) {
+    return NextResponse.json({ error: "Invalid story ID" }, { status: 400 });
+  }
+
+  const trajectory = await getStoryTrajectory(storyId);
+
+  if (trajectory === null) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(trajectory);
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { isStoryListSource } from "@/lib/hacker-news/api";
+import { getRankHistory } from "@/lib/hacker-news/rankings";
+
+/**
+ * Parses an optional ISO date query parameter
+ *
+ * @param value - Raw query parameter value
+ * @returns Parsed date, undefined if absent, or null if invalid
+ */
+function parseDate(value: string | null): Date | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parses an optional positive integer query parameter
+ *
+ * @param value - Raw query parameter value
+ * @returns Parsed number, undefined if absent, or null if invalid
+ */
+function parsePositiveInt(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? null : parsed;
+}
+
+/**
+ * Returns the stories that reached a rank on a story list, and for how long
+ *
+ * Query parameters: `list` (default `top`), `maxRank` (default 1), `since`
+ * and `until` (ISO dates; default the last 7 days) and `maxPollGapMinutes`
+ * (default 60).
+ *
+ * @param request - Incoming request
+ * @returns JSON stints ordered by duration, or a 400 error
+ * @example
+ * // GET /api/stories/rankings?list=top&maxRank=1&since=2025-01-01
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const list = searchParams.get("list") ?? "top";
+  const maxRank = parsePositiveInt(searchParams.get("maxRank"));
+  const since = parseDate(searchParams.get("since"));
+  const until = parseDate(searchParams.get("until"));
+  const maxPollGapMinutes = parsePositiveInt(
+    searchParams.get("maxPollGapMinutes")
+  );
+
+  if (!isStoryListSource(list)) {
+    return NextResponse.json(
+      { error: "list must be new, top, best, ask, show or job" },
+      { status: 400 }
+    );
+  }
+
+  if (maxRank === null || maxPollGapMinutes === null) {
+    return NextResponse.json(
+      { error: "maxRank and maxPollGapMinutes must be positive integers" },
+      { status: 400 }
+    );
+  }
+
+  if (since === null || until === null) {
+    return NextResponse.json(
+      { error: "since and until must be ISO dates" },
+      { status: 400 }
+    );
+  }
+
+  const stints = await getRankHistory({
+    list,
+    maxRank: maxRank ?? 1,
+    since: since ?? new Date(Date.now() - 7 * 24 * 3600 * 1000),
+    ...(until !== undefined && { until }),
+    ...(maxPollGapMinutes !== undefined && { maxPollGapMinutes }),
+  });
+
+  return NextResponse.json(stints);
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getUserSummary } from "@/lib/hacker-news/users";
+
+/**
+ * Returns a user's profile and submission summary
+ *
+ * @param _request - Incoming request
+ * @param context - Route context
+ * @param context.params - Route parameters containing the HN username
+ * @returns JSON summary, or a 404 error
+ * @example
+ * // GET /api/users/pg
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const summary = await getUserSummary(id);
+
+  if (summary === null) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(summary);
+}
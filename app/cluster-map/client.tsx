@@ -8,6 +8,7 @@ import {
   getClusterStats,
   type ClusterResult,
 } from "@/lib/visualization/clustering";
+import type { FacetCount } from "@/lib/visualization/data-fetcher";
 import type { ScatterDataPoint } from "@/components/embeddings/chart-3d";
 import {
   FilterPanel,
@@ -31,11 +32,16 @@ interface ClusterMapClientProps {
   initialPoints: ProcessedPoint[];
   clusterResult: ClusterResult;
   colorMap: Array<[number, string]>;
+  labelNames: Array<[number, string]>;
   initialChunkType: string;
   initialEpsilon: number;
   initialMinPoints: number;
-  initialColorBy: "cluster" | "article";
+  initialColorBy: "cluster" | "article" | "growth" | "site";
   initialClusteringMethod: "high-dim" | "3d";
+  initialSite: string | null;
+  initialLanguage: string | null;
+  siteOptions: FacetCount[];
+  languageOptions: FacetCount[];
 }
 
 /**
@@ -46,22 +52,32 @@ interface ClusterMapClientProps {
  * @param props.initialPoints - Pre-processed points from server
  * @param props.clusterResult - Clustering result from server
  * @param props.colorMap - Color map for clusters from server
+ * @param props.labelNames - Display names for non-cluster labels from server
  * @param props.initialChunkType - Initial chunk type filter
  * @param props.initialEpsilon - Initial epsilon value for DBSCAN
  * @param props.initialMinPoints - Initial minimum points for DBSCAN
  * @param props.initialColorBy - Initial color by mode
  * @param props.initialClusteringMethod - Initial clustering method
+ * @param props.initialSite - Initial article site filter
+ * @param props.initialLanguage - Initial article language filter
+ * @param props.siteOptions - Most common article sites, for the site filter
+ * @param props.languageOptions - Most common article languages, for the language filter
  * @returns JSX element containing the cluster map visualization
  */
 export function ClusterMapClient({
   initialPoints,
   clusterResult,
   colorMap: colorMapArray,
+  labelNames: labelNamesArray,
   initialChunkType,
   initialEpsilon,
   initialMinPoints,
   initialColorBy,
   initialClusteringMethod,
+  initialSite,
+  initialLanguage,
+  siteOptions,
+  languageOptions,
 }: ClusterMapClientProps): React.JSX.Element {
   console.log(
     "[Client] Initializing with",
@@ -76,6 +92,7 @@ export function ClusterMapClient({
 
   // Convert serialized color map array back to Map
   const colorMap = useMemo(() => new Map(colorMapArray), [colorMapArray]);
+  const labelNames = useMemo(() => new Map(labelNamesArray), [labelNamesArray]);
 
   // Initialize filter state from server-provided initial values
   const [filters, setFilters] = useState<FilterState>({
@@ -85,6 +102,8 @@ export function ClusterMapClient({
     hiddenClusters: new Set(),
     colorBy: initialColorBy,
     clusteringMethod: initialClusteringMethod,
+    site: initialSite,
+    language: initialLanguage,
   });
 
   // Mark initial mount as complete
@@ -103,7 +122,10 @@ export function ClusterMapClient({
     const currentChunkType = searchParams.get("chunkType") ?? "full";
     const rawColorBy = searchParams.get("colorBy");
     const currentColorBy =
-      rawColorBy === "cluster" || rawColorBy === "article"
+      rawColorBy === "cluster" ||
+      rawColorBy === "article" ||
+      rawColorBy === "growth" ||
+      rawColorBy === "site"
         ? rawColorBy
         : "cluster";
     const rawClusteringMethod = searchParams.get("clusteringMethod");
@@ -111,19 +133,36 @@ export function ClusterMapClient({
       rawClusteringMethod === "high-dim" || rawClusteringMethod === "3d"
         ? rawClusteringMethod
         : "high-dim";
+    const rawSite = searchParams.get("site");
+    const currentSite = rawSite !== null && rawSite !== "" ? rawSite : null;
+    const rawLanguage = searchParams.get("language");
+    const currentLanguage =
+      rawLanguage !== null && rawLanguage !== "" ? rawLanguage : null;
 
     if (
       filters.epsilon !== currentEpsilon ||
       filters.minPoints !== currentMinPoints ||
       filters.chunkType !== currentChunkType ||
       filters.colorBy !== currentColorBy ||
-      filters.clusteringMethod !== currentClusteringMethod
+      filters.clusteringMethod !== currentClusteringMethod ||
+      filters.site !== currentSite ||
+      filters.language !== currentLanguage
     ) {
       params.set("epsilon", filters.epsilon.toString());
       params.set("minPoints", filters.minPoints.toString());
       params.set("chunkType", filters.chunkType);
       params.set("colorBy", filters.colorBy);
       params.set("clusteringMethod", filters.clusteringMethod);
+      if (filters.site !== null) {
+        params.set("site", filters.site);
+      } else {
+        params.delete("site");
+      }
+      if (filters.language !== null) {
+        params.set("language", filters.language);
+      } else {
+        params.delete("language");
+      }
 
       console.log("Updating URL with new parameters");
       setIsNavigating(true);
@@ -137,6 +176,8 @@ export function ClusterMapClient({
     filters.chunkType,
     filters.colorBy,
     filters.clusteringMethod,
+    filters.site,
+    filters.language,
     router,
     searchParams,
   ]);
@@ -209,6 +250,9 @@ export function ClusterMapClient({
           onFiltersChange={setFilters}
           clusterIds={clusterIds}
           clusterColors={colorMap}
+          clusterLabels={labelNames}
+          siteOptions={siteOptions}
+          languageOptions={languageOptions}
           stats={stats}
           disabled={isNavigating}
         />
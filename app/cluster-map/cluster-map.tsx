@@ -1,5 +1,9 @@
 import React from "react";
-import { fetchEmbeddings } from "@/lib/visualization/data-fetcher";
+import { getStoryGrowthRates } from "@/lib/hacker-news/snapshots";
+import {
+  fetchEmbeddings,
+  getArticleFacets,
+} from "@/lib/visualization/data-fetcher";
 import { processEmbeddings } from "@/lib/visualization/server-processor";
 import { ClusterMapClient } from "./client";
 
@@ -18,8 +22,10 @@ export async function ClusterMap({
     chunkType?: string;
     epsilon?: string;
     minPoints?: string;
-    colorBy?: "cluster" | "article";
+    colorBy?: "cluster" | "article" | "growth" | "site";
     clusteringMethod?: string;
+    site?: string;
+    language?: string;
   }>;
 }): Promise<React.JSX.Element> {
   const params = await searchParams;
@@ -33,6 +39,12 @@ export async function ClusterMap({
     rawClusteringMethod === "high-dim" || rawClusteringMethod === "3d"
       ? rawClusteringMethod
       : "high-dim";
+  const site =
+    params.site !== undefined && params.site !== "" ? params.site : null;
+  const language =
+    params.language !== undefined && params.language !== ""
+      ? params.language
+      : null;
 
   console.log("[ClusterMap] Configuration:", {
     chunkType,
@@ -40,17 +52,46 @@ export async function ClusterMap({
     minPoints,
     colorBy,
     clusteringMethod,
+    site,
+    language,
   });
   console.log("[ClusterMap] Fetching embeddings from database...");
 
-  // Fetch embeddings filtered by chunk type (pass as array for SQL IN clause)
-  const embeddings = await fetchEmbeddings({
-    chunkTypes: [chunkType],
-    limit: 50000,
-  });
+  // Fetch embeddings filtered by chunk type (pass as array for SQL IN clause).
+  // The discussion view puts articles, story text and comments in one space.
+  const [embeddings, facets] = await Promise.all([
+    fetchEmbeddings({
+      chunkTypes:
+        chunkType === "discussion" ? ["full", "story", "comment"] : [chunkType],
+      limit: 50000,
+      ...(site !== null && { siteNames: [site] }),
+      ...(language !== null && { languages: [language] }),
+    }),
+    getArticleFacets(),
+  ]);
 
   console.log("[ClusterMap] Fetched", embeddings.length, "embeddings");
 
+  // Story growth rates are only needed when coloring by growth
+  const growthRates = new Map<number, number>();
+
+  if (colorBy === "growth") {
+    const storyIds = [
+      ...new Set(
+        embeddings
+          .map((emb) => emb.storyId)
+          .filter((storyId): storyId is number => storyId !== null)
+      ),
+    ];
+    const growth = await getStoryGrowthRates(storyIds);
+
+    for (const [storyId, storyGrowth] of growth) {
+      if (storyGrowth.earlyScorePerHour !== null) {
+        growthRates.set(storyId, storyGrowth.earlyScorePerHour);
+      }
+    }
+  }
+
   // Process embeddings on the server (UMAP + DBSCAN)
   // UMAP will use sensible defaults: nNeighbors=15, minDist=0.1
   console.log("[ClusterMap] Processing embeddings on server...");
@@ -61,6 +102,7 @@ export async function ClusterMap({
     minDist: 0.1, // Default UMAP parameter
     colorBy,
     clusteringMethod,
+    growthRates,
   });
 
   console.log("[ClusterMap] Server processing complete");
@@ -70,11 +112,16 @@ export async function ClusterMap({
       initialPoints={processingResult.points}
       clusterResult={processingResult.clusterResult}
       colorMap={Array.from(processingResult.colorMap.entries())}
+      labelNames={Array.from(processingResult.labelNames.entries())}
       initialChunkType={chunkType}
       initialEpsilon={epsilon}
       initialMinPoints={minPoints}
       initialColorBy={colorBy}
       initialClusteringMethod={clusteringMethod}
+      initialSite={site}
+      initialLanguage={language}
+      siteOptions={facets.siteNames}
+      languageOptions={facets.languages}
     />
   );
 }
@@ -16,6 +16,8 @@ import { ClusterMap } from "./cluster-map";
  * @param props.searchParams.nNeighbors - UMAP nNeighbors value
  * @param props.searchParams.minDist - UMAP minDist value
  * @param props.searchParams.colorBy - The property to color points by
+ * @param props.searchParams.site - Only show points whose article is from this site
+ * @param props.searchParams.language - Only show points whose article is in this language
  * @returns JSX element containing the cluster map page
  */
 export default async function ClusterMapPage({
@@ -27,7 +29,9 @@ export default async function ClusterMapPage({
     minPoints?: string;
     nNeighbors?: string;
     minDist?: string;
-    colorBy?: "cluster" | "article";
+    colorBy?: "cluster" | "article" | "growth" | "site";
+    site?: string;
+    language?: string;
   };
 }): Promise<React.JSX.Element> {
   // Get statistics
@@ -45,7 +49,7 @@ export default async function ClusterMapPage({
         </p>
       </div>
 
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-3 xl:grid-cols-6">
         <div className="rounded-lg border bg-card p-4">
           <div className="text-sm text-muted-foreground">Total Embeddings</div>
           <div className="text-2xl font-bold">
@@ -70,6 +74,18 @@ export default async function ClusterMapPage({
             {stats.sentence.toLocaleString()}
           </div>
         </div>
+        <div className="rounded-lg border bg-card p-4">
+          <div className="text-sm text-muted-foreground">Story Text</div>
+          <div className="text-2xl font-bold">
+            {stats.story.toLocaleString()}
+          </div>
+        </div>
+        <div className="rounded-lg border bg-card p-4">
+          <div className="text-sm text-muted-foreground">Comments</div>
+          <div className="text-2xl font-bold">
+            {stats.comment.toLocaleString()}
+          </div>
+        </div>
       </div>
 
       <Suspense fallback={<ChartLoadingSkeleton />}>
@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   Drawer,
   DrawerContent,
@@ -8,8 +8,24 @@ import {
   DrawerTitle,
   DrawerDescription,
 } from "@/components/ui/drawer";
+import type { ArticleDetail } from "@/lib/scraping/articles";
+import { ArticleMarkdown } from "./article-markdown";
 import type { ScatterDataPoint } from "./chart-3d";
 
+/**
+ * Article fields the drawer displays
+ */
+type ArticleBody = Pick<
+  ArticleDetail,
+  | "id"
+  | "content"
+  | "contentMarkdown"
+  | "author"
+  | "siteName"
+  | "publishedAt"
+  | "wordCount"
+>;
+
 /**
  * Props for ArticleDrawer component
  */
@@ -22,6 +38,10 @@ export interface ArticleDrawerProps {
 /**
  * Drawer component to display article details
  *
+ * For points taken from an article, the full article is loaded from
+ * `/api/articles/[id]` and rendered from its markdown; until then (and for
+ * story text and comments) the selected chunk is shown.
+ *
  * @param props - Component props
  * @param props.open - Whether the drawer is open
  * @param props.onClose - Callback to close the drawer
@@ -33,6 +53,48 @@ export function ArticleDrawer({
   onClose,
   selectedPoint,
 }: ArticleDrawerProps): React.JSX.Element {
+  const [article, setArticle] = useState<ArticleBody | null>(null);
+  const articleId = selectedPoint?.articleId ?? null;
+
+  useEffect(() => {
+    if (!open || articleId === null) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    fetch(`/api/articles/${articleId}`, { signal: controller.signal })
+      .then(async (response) =>
+        response.ok ? ((await response.json()) as ArticleBody) : null
+      )
+      .then(setArticle)
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          console.error(`Failed to load article ${articleId}:`, error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [open, articleId]);
+
+  // Ignore an article still held from a previous selection
+  const current = article !== null && article.id === articleId ? article : null;
+  const markdown = current?.contentMarkdown ?? null;
+  // Dates arrive from the API as ISO strings
+  const byline =
+    current !== null
+      ? [
+          current.siteName,
+          current.author,
+          current.publishedAt !== null
+            ? new Date(current.publishedAt).toLocaleDateString()
+            : null,
+          current.wordCount !== null
+            ? `${current.wordCount.toLocaleString()} words`
+            : null,
+        ].filter((part): part is string => part !== null)
+      : [];
+
   return (
     <Drawer open={open} onClose={onClose}>
       <DrawerContent>
@@ -47,12 +109,19 @@ export function ArticleDrawer({
             >
               {selectedPoint?.articleUrl}
             </a>
+            {byline.length > 0 && (
+              <span className="mt-1 block text-xs">{byline.join(" · ")}</span>
+            )}
           </DrawerDescription>
         </DrawerHeader>
-        <div className="p-4">
-          <p className="text-sm text-muted-foreground">
-            {selectedPoint?.content}
-          </p>
+        <div className="max-h-[60vh] overflow-y-auto p-4">
+          {markdown !== null ? (
+            <ArticleMarkdown markdown={markdown} />
+          ) : (
+            <p className="whitespace-pre-line text-sm text-muted-foreground">
+              {current?.content ?? selectedPoint?.content}
+            </p>
+          )}
         </div>
       </DrawerContent>
     </Drawer>
@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import Markdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+/**
+ * Tailwind styling for the elements produced by the article markdown
+ */
+const COMPONENTS: Components = {
+  h1: ({ children }) => (
+    <h1 className="mt-6 mb-3 text-2xl font-semibold">{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="mt-6 mb-3 text-xl font-semibold">{children}</h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className="mt-5 mb-2 text-lg font-semibold">{children}</h3>
+  ),
+  h4: ({ children }) => <h4 className="mt-4 mb-2 font-semibold">{children}</h4>,
+  h5: ({ children }) => <h5 className="mt-4 mb-2 font-semibold">{children}</h5>,
+  h6: ({ children }) => <h6 className="mt-4 mb-2 font-semibold">{children}</h6>,
+  p: ({ children }) => <p className="my-3 leading-7">{children}</p>,
+  a: ({ children, href }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-500 hover:underline"
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="my-3 ml-6 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="my-3 ml-6 list-decimal">{children}</ol>,
+  li: ({ children }) => <li className="my-1">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-3 border-l-2 pl-4 italic text-muted-foreground">
+      {children}
+    </blockquote>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-3 overflow-x-auto rounded-md bg-muted p-3 text-xs [&>code]:bg-transparent [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  code: ({ children }) => (
+    <code className="rounded bg-muted px-1 font-mono text-xs">{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => (
+    <th className="border px-2 py-1 text-left font-semibold">{children}</th>
+  ),
+  td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+  hr: () => <hr className="my-6" />,
+};
+
+/**
+ * Props for ArticleMarkdown component
+ */
+export interface ArticleMarkdownProps {
+  /**
+   * Markdown rendition of a scraped article
+   */
+  markdown: string;
+}
+
+/**
+ * Render a scraped article's markdown (including GFM tables)
+ *
+ * Raw HTML in the markdown is not rendered.
+ *
+ * @param props - Component props
+ * @param props.markdown - Markdown to render
+ * @returns JSX element
+ */
+export function ArticleMarkdown({
+  markdown,
+}: ArticleMarkdownProps): React.JSX.Element {
+  return (
+    <div className="text-sm">
+      <Markdown remarkPlugins={[remarkGfm]} components={COMPONENTS}>
+        {markdown}
+      </Markdown>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ export interface ScatterDataPoint {
   position: [number, number, number];
   color: string;
   label: number;
-  articleId: number;
+  articleId: number | null;
   articleTitle: string | null;
   content: string;
   articleUrl: string;
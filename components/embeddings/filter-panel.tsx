@@ -6,6 +6,26 @@ import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
+import type { FacetCount } from "@/lib/visualization/data-fetcher";
+
+/**
+ * Chunk type options; "discussion" shows full articles together with story
+ * text and comments so the discussion can be compared with its article
+ */
+const CHUNK_TYPE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "full", label: "Full" },
+  { value: "paragraph", label: "Paragraph" },
+  { value: "sentence", label: "Sentence" },
+  { value: "story", label: "Story text" },
+  { value: "comment", label: "Comment" },
+  { value: "discussion", label: "Discussion (articles + comments)" },
+];
+
+/**
+ * Chunk types with at most one point per article, where coloring by article
+ * is meaningless
+ */
+const SINGLE_POINT_CHUNK_TYPES = new Set(["full", "story"]);
 
 /**
  * Filter state for embedding visualization
@@ -15,8 +35,18 @@ export interface FilterState {
   epsilon: number;
   minPoints: number;
   hiddenClusters: Set<number>;
-  colorBy: "cluster" | "article";
+  colorBy: "cluster" | "article" | "growth" | "site";
   clusteringMethod: "high-dim" | "3d";
+
+  /**
+   * Only show points whose article is from this site (null for all)
+   */
+  site: string | null;
+
+  /**
+   * Only show points whose article is in this language (null for all)
+   */
+  language: string | null;
 }
 
 /**
@@ -43,6 +73,21 @@ export interface FilterPanelProps {
    */
   clusterColors: Map<number, string>;
 
+  /**
+   * Display names for labels that are not plain clusters (e.g. growth buckets)
+   */
+  clusterLabels?: Map<number, string>;
+
+  /**
+   * Article sites to offer in the site filter, with article counts
+   */
+  siteOptions?: FacetCount[];
+
+  /**
+   * Article languages to offer in the language filter, with article counts
+   */
+  languageOptions?: FacetCount[];
+
   /**
    * Statistics about the current visualization
    */
@@ -69,6 +114,9 @@ export interface FilterPanelProps {
  * @param props.onFiltersChange - Callback when filters change
  * @param props.clusterIds - Available cluster IDs for filtering
  * @param props.clusterColors - Cluster color map for legend
+ * @param props.clusterLabels - Display names for non-cluster labels
+ * @param props.siteOptions - Article sites to offer in the site filter
+ * @param props.languageOptions - Article languages to offer in the language filter
  * @param props.stats - Statistics about the current visualization
  * @param props.disabled - Whether controls should be disabled during loading
  * @returns JSX element containing the filter panel
@@ -85,6 +133,9 @@ export function FilterPanel({
   onFiltersChange,
   clusterIds,
   clusterColors,
+  clusterLabels,
+  siteOptions = [],
+  languageOptions = [],
   stats,
   disabled = false,
 }: FilterPanelProps): React.JSX.Element {
@@ -94,21 +145,44 @@ export function FilterPanel({
       chunkType,
     };
 
-    // If "full" is selected, force color by cluster
-    if (chunkType === "full") {
+    // With one chunk per article, coloring by article is meaningless
+    if (
+      SINGLE_POINT_CHUNK_TYPES.has(chunkType) &&
+      filters.colorBy === "article"
+    ) {
       newFilters.colorBy = "cluster";
     }
 
     onFiltersChange(newFilters);
   };
 
-  const handleColorByChange = (value: "cluster" | "article"): void => {
+  const handleColorByChange = (
+    value: "cluster" | "article" | "growth" | "site"
+  ): void => {
     onFiltersChange({
       ...filters,
       colorBy: value,
     });
   };
 
+  const handleSiteChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ): void => {
+    onFiltersChange({
+      ...filters,
+      site: event.target.value !== "" ? event.target.value : null,
+    });
+  };
+
+  const handleLanguageChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ): void => {
+    onFiltersChange({
+      ...filters,
+      language: event.target.value !== "" ? event.target.value : null,
+    });
+  };
+
   const handleClusteringMethodChange = (value: "high-dim" | "3d"): void => {
     onFiltersChange({
       ...filters,
@@ -152,6 +226,8 @@ export function FilterPanel({
       hiddenClusters: new Set(),
       colorBy: "cluster",
       clusteringMethod: "high-dim",
+      site: null,
+      language: null,
     });
   };
 
@@ -203,20 +279,82 @@ export function FilterPanel({
             className="space-y-2"
             disabled={disabled}
           >
-            {["full", "paragraph", "sentence"].map((type) => (
-              <div key={type} className="flex items-center space-x-2">
-                <RadioGroupItem value={type} id={`chunk-${type}`} />
+            {CHUNK_TYPE_OPTIONS.map(({ value, label }) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`chunk-${value}`} />
                 <label
-                  htmlFor={`chunk-${type}`}
-                  className="cursor-pointer text-sm capitalize leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  htmlFor={`chunk-${value}`}
+                  className="cursor-pointer text-sm leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                 >
-                  {type}
+                  {label}
                 </label>
               </div>
             ))}
           </RadioGroup>
         </div>
 
+        {/* Article Metadata Filters */}
+        <div className="mb-6 space-y-3">
+          <div>
+            <Label
+              htmlFor="filter-site"
+              className="mb-2 block text-sm font-medium"
+            >
+              Site
+            </Label>
+            <select
+              id="filter-site"
+              value={filters.site ?? ""}
+              onChange={handleSiteChange}
+              disabled={disabled}
+              className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            >
+              <option value="">All sites</option>
+              {filters.site !== null &&
+                !siteOptions.some(({ value }) => value === filters.site) && (
+                  <option value={filters.site}>{filters.site}</option>
+                )}
+              {siteOptions.map(({ value, count }) => (
+                <option key={value} value={value}>
+                  {value} ({count})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label
+              htmlFor="filter-language"
+              className="mb-2 block text-sm font-medium"
+            >
+              Language
+            </Label>
+            <select
+              id="filter-language"
+              value={filters.language ?? ""}
+              onChange={handleLanguageChange}
+              disabled={disabled}
+              className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            >
+              <option value="">All languages</option>
+              {filters.language !== null &&
+                !languageOptions.some(
+                  ({ value }) => value === filters.language
+                ) && (
+                  <option value={filters.language}>{filters.language}</option>
+                )}
+              {languageOptions.map(({ value, count }) => (
+                <option key={value} value={value}>
+                  {value} ({count})
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Site and language come from the article&apos;s metadata; points
+            without an article are hidden while a filter is set.
+          </p>
+        </div>
+
         {/* Color By Filter */}
         <div className="mb-6">
           <Label className="mb-3 block text-sm font-medium">Color By</Label>
@@ -236,12 +374,26 @@ export function FilterPanel({
               <RadioGroupItem
                 value="article"
                 id="color-article"
-                disabled={disabled || filters.chunkType === "full"}
+                disabled={
+                  disabled || SINGLE_POINT_CHUNK_TYPES.has(filters.chunkType)
+                }
               />
               <label htmlFor="color-article" className="cursor-pointer text-sm">
                 Article
               </label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="growth" id="color-growth" />
+              <label htmlFor="color-growth" className="cursor-pointer text-sm">
+                Story growth (early points/hour)
+              </label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="site" id="color-site" />
+              <label htmlFor="color-site" className="cursor-pointer text-sm">
+                Site
+              </label>
+            </div>
           </RadioGroup>
         </div>
 
@@ -254,7 +406,7 @@ export function FilterPanel({
             value={filters.clusteringMethod}
             onValueChange={handleClusteringMethodChange}
             className="space-y-2"
-            disabled={disabled || filters.colorBy === "article"}
+            disabled={disabled || filters.colorBy !== "cluster"}
           >
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="high-dim" id="cluster-high-dim" />
@@ -281,11 +433,11 @@ export function FilterPanel({
         {/* DBSCAN Parameters */}
         <fieldset
           className="mb-6"
-          disabled={disabled || filters.colorBy === "article"}
+          disabled={disabled || filters.colorBy !== "cluster"}
         >
           <Label
             className="mb-3 block text-sm font-medium"
-            aria-disabled={disabled || filters.colorBy === "article"}
+            aria-disabled={disabled || filters.colorBy !== "cluster"}
           >
             Clustering Parameters
           </Label>
@@ -340,7 +492,8 @@ export function FilterPanel({
                 const isVisible = !filters.hiddenClusters.has(clusterId);
                 const color = clusterColors.get(clusterId) ?? "#999";
                 const label =
-                  clusterId === -1 ? "Noise" : `Cluster ${clusterId}`;
+                  clusterLabels?.get(clusterId) ??
+                  (clusterId === -1 ? "Noise" : `Cluster ${clusterId}`);
 
                 return (
                   <div key={clusterId} className="flex items-center space-x-2">
@@ -6,8 +6,11 @@ import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 
 /**
  * Chunk types
+ *
+ * Articles are chunked at full/paragraph/sentence granularity; story text
+ * (self posts) and comments are embedded whole as `story` and `comment`.
  */
-export type ChunkType = "full" | "paragraph" | "sentence";
+export type ChunkType = "full" | "paragraph" | "sentence" | "story" | "comment";
 
 /**
  * Text chunk with metadata
@@ -19,24 +22,135 @@ export interface TextChunk {
   totalChunks: number;
 }
 
+/**
+ * Maximum size of a paragraph chunk, in characters
+ */
+const PARAGRAPH_CHUNK_SIZE = 1000;
+
+/**
+ * Characters shared between consecutive paragraph chunks of one section
+ */
+const PARAGRAPH_CHUNK_OVERLAP = 200;
+
+/**
+ * A markdown section: a heading line (absent before the first heading) and
+ * the text up to the next heading
+ */
+interface MarkdownSection {
+  heading: string | null;
+  body: string;
+}
+
+/**
+ * Split markdown into sections at its ATX headings, ignoring `#` lines
+ * inside fenced code blocks
+ *
+ * A heading directly followed by another heading (e.g. a chapter title over
+ * its first subsection) is carried into the next section instead of forming
+ * an empty one.
+ *
+ * @param markdown - Markdown text
+ * @returns Sections in document order
+ */
+function splitSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let heading: string | null = null;
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = (): void => {
+    const body = lines.join("\n").trim();
+
+    if (body.length > 0) {
+      sections.push({ heading, body });
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+
+    if (fenceMatch !== undefined) {
+      if (fence === null) {
+        fence = fenceMatch;
+      } else if (fenceMatch.startsWith(fence)) {
+        fence = null;
+      }
+    }
+
+    if (fence === null && /^#{1,6} /.test(line)) {
+      flush();
+      heading =
+        lines.join("").trim().length === 0 && heading !== null
+          ? `${heading}\n${line}`
+          : line;
+      lines = [];
+      continue;
+    }
+
+    lines.push(line);
+  }
+
+  flush();
+
+  if (sections.length === 0 && heading !== null) {
+    sections.push({ heading: null, body: heading });
+  }
+
+  return sections;
+}
+
+/**
+ * Split markdown into paragraph chunks that never cross a section boundary
+ *
+ * Each section is split on its own, and every piece carries the section's
+ * heading so it can be understood out of context.
+ *
+ * @param markdown - Markdown text
+ * @returns Paragraph chunk contents in document order
+ */
+async function splitMarkdownParagraphs(markdown: string): Promise<string[]> {
+  const splitter = RecursiveCharacterTextSplitter.fromLanguage("markdown", {
+    chunkSize: PARAGRAPH_CHUNK_SIZE,
+    chunkOverlap: PARAGRAPH_CHUNK_OVERLAP,
+  });
+
+  const pieces: string[] = [];
+
+  for (const { heading, body } of splitSections(markdown)) {
+    const parts = await splitter.splitText(body);
+
+    for (const part of parts) {
+      pieces.push(heading !== null ? `${heading}\n\n${part}` : part);
+    }
+  }
+
+  return pieces;
+}
+
 /**
  * Chunk text at multiple granularities
  *
  * Creates chunks at three levels:
  * 1. Full text (single chunk)
- * 2. Paragraphs (using RecursiveCharacterTextSplitter)
+ * 2. Paragraphs (using RecursiveCharacterTextSplitter); with a markdown
+ *    rendition, split within each heading's section and prefixed with the
+ *    heading
  * 3. Sentences (smaller chunks for fine-grained search)
  *
  * @param text - Text to chunk
+ * @param markdown - Markdown rendition of the text, if available
  * @returns Array of text chunks with metadata
  *
  * @example
- * const chunks = await chunkText(article.content);
+ * const chunks = await chunkText(article.content, article.contentMarkdown);
  * for (const chunk of chunks) {
  *   console.log(chunk.chunkType, chunk.content.slice(0, 50));
  * }
  */
-export async function chunkText(text: string): Promise<TextChunk[]> {
+export async function chunkText(
+  text: string,
+  markdown?: string | null
+): Promise<TextChunk[]> {
   const chunks: TextChunk[] = [];
 
   // 1. Full text chunk
@@ -49,12 +163,15 @@ export async function chunkText(text: string): Promise<TextChunk[]> {
 
   // 2. Paragraph-level chunks
   const paragraphSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 1000,
-    chunkOverlap: 200,
+    chunkSize: PARAGRAPH_CHUNK_SIZE,
+    chunkOverlap: PARAGRAPH_CHUNK_OVERLAP,
     separators: ["\n\n", "\n", ". ", " ", ""],
   });
 
-  const paragraphChunks = await paragraphSplitter.splitText(text);
+  const paragraphChunks =
+    markdown !== undefined && markdown !== null && markdown.length > 0
+      ? await splitMarkdownParagraphs(markdown)
+      : await paragraphSplitter.splitText(text);
 
   for (let i = 0; i < paragraphChunks.length; i++) {
     const chunk = paragraphChunks[i];
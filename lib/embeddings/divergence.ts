@@ -0,0 +1,149 @@
+/**
+ * Compare discussion embeddings with the article they discuss
+ *
+ * Distances are pgvector cosine distances (`<=>`) between each comment's
+ * embedding and the full-text embedding of the story's article: 0 means the
+ * comment is about exactly what the article is about, larger values mean the
+ * discussion has drifted.
+ */
+
+import { prisma } from "../database";
+
+/**
+ * A comment and how far it is from the article
+ */
+export interface CommentDivergence {
+  commentId: number;
+  by: string | null;
+  content: string;
+  distance: number;
+}
+
+/**
+ * How far a story's discussion is from its article
+ */
+export interface StoryDivergence {
+  storyId: number;
+  articleId: number;
+  meanDistance: number | null;
+
+  /**
+   * Comments ordered from most to least divergent
+   */
+  comments: CommentDivergence[];
+}
+
+/**
+ * Summary of a discussion's divergence, for ranking stories
+ */
+export interface DiscussionDivergence {
+  storyId: number;
+  title: string | null;
+  commentCount: number;
+  meanDistance: number;
+}
+
+/**
+ * Options for ranking discussions by divergence
+ */
+export interface DivergenceOptions {
+  /**
+   * Maximum number of stories to return
+   * @default 20
+   */
+  limit?: number;
+
+  /**
+   * Ignore stories with fewer embedded comments than this
+   * @default 5
+   */
+  minComments?: number;
+}
+
+/**
+ * Measure how far each embedded comment on a story is from its article
+ *
+ * @param storyId - Story ID
+ * @returns Divergence per comment, or null if the story has no embedded
+ * article
+ *
+ * @example
+ * const divergence = await getStoryDivergence(42);
+ * console.log(divergence?.comments[0]?.content); // most off-topic comment
+ */
+export async function getStoryDivergence(
+  storyId: number
+): Promise<StoryDivergence | null> {
+  const articles = await prisma.$queryRaw<Array<{ articleId: number }>>`
+    SELECT sa."articleId"
+    FROM "StoryArticle" sa
+    JOIN "Embedding" e ON e."articleId" = sa."articleId" AND e."chunkType" = 'full'
+    WHERE sa."storyId" = ${storyId}
+    LIMIT 1
+  `;
+  const article = articles[0];
+
+  if (article === undefined) {
+    return null;
+  }
+
+  const comments = await prisma.$queryRaw<CommentDivergence[]>`
+    SELECT
+      c.id as "commentId",
+      c.by,
+      ce.content,
+      ce.embedding <=> ae.embedding as distance
+    FROM "Embedding" ce
+    JOIN "HnComment" c ON c.id = ce."commentId"
+    JOIN "Embedding" ae
+      ON ae."articleId" = ${article.articleId} AND ae."chunkType" = 'full'
+    WHERE c."storyId" = ${storyId} AND ce."chunkType" = 'comment'
+    ORDER BY distance DESC
+  `;
+
+  const meanDistance =
+    comments.length > 0
+      ? comments.reduce((sum, comment) => sum + comment.distance, 0) /
+        comments.length
+      : null;
+
+  return {
+    storyId,
+    articleId: article.articleId,
+    meanDistance,
+    comments,
+  };
+}
+
+/**
+ * Rank stories by how far their discussion is from the linked article
+ *
+ * @param options - Ranking options
+ * @returns Stories ordered from most to least divergent discussion
+ *
+ * @example
+ * const offTopic = await getMostDivergentDiscussions({ minComments: 20 });
+ */
+export async function getMostDivergentDiscussions(
+  options: DivergenceOptions = {}
+): Promise<DiscussionDivergence[]> {
+  const { limit = 20, minComments = 5 } = options;
+
+  return prisma.$queryRaw<DiscussionDivergence[]>`
+    SELECT
+      s.id as "storyId",
+      s.title,
+      COUNT(*)::int as "commentCount",
+      AVG(ce.embedding <=> ae.embedding) as "meanDistance"
+    FROM "Embedding" ce
+    JOIN "HnComment" c ON c.id = ce."commentId"
+    JOIN "HnStory" s ON s.id = c."storyId"
+    JOIN "StoryArticle" sa ON sa."storyId" = s.id
+    JOIN "Embedding" ae ON ae."articleId" = sa."articleId" AND ae."chunkType" = 'full'
+    WHERE ce."chunkType" = 'comment'
+    GROUP BY s.id, s.title
+    HAVING COUNT(*) >= ${minComments}
+    ORDER BY "meanDistance" DESC
+    LIMIT ${limit}
+  `;
+}
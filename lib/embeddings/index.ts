@@ -5,3 +5,4 @@
 export * from "./chunker";
 export * from "./generator";
 export * from "./processor";
+export * from "./divergence";
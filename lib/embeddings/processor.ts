@@ -1,11 +1,93 @@
 /**
- * Process articles and generate embeddings
+ * Process articles, story text and comments and generate embeddings
  */
 
 import { prisma } from "../database";
-import { chunkText } from "./chunker";
+import { htmlToText } from "../hacker-news/html";
+import { chunkText, type TextChunk } from "./chunker";
 import { generateEmbedding } from "./generator";
 
+/**
+ * Kinds of content that can be embedded
+ */
+export type EmbeddingSourceType = "article" | "story" | "comment";
+
+const EMBEDDING_SOURCE_TYPES: EmbeddingSourceType[] = [
+  "article",
+  "story",
+  "comment",
+];
+
+/**
+ * Check whether a string names an embedding source
+ *
+ * @param value - Value to check
+ * @returns True if the value is an EmbeddingSourceType
+ */
+export function isEmbeddingSourceType(
+  value: string
+): value is EmbeddingSourceType {
+  return EMBEDDING_SOURCE_TYPES.some((source) => source === value);
+}
+
+/**
+ * Reference to the row an embedding was generated from
+ */
+type EmbeddingSource =
+  | { sourceType: "article"; articleId: number }
+  | { sourceType: "story"; storyId: number }
+  | { sourceType: "comment"; commentId: number };
+
+/**
+ * Statistics about an embedding run
+ */
+export interface ProcessingStats {
+  processed: number;
+  embeddings: number;
+  errors: number;
+}
+
+/**
+ * Generate an embedding for a chunk and store it
+ *
+ * @param chunk - Chunk to embed
+ * @param source - Row the chunk was taken from
+ */
+async function storeEmbedding(
+  chunk: TextChunk,
+  source: EmbeddingSource
+): Promise<void> {
+  // Generate embedding vector
+  const embeddingVector = await generateEmbedding(chunk.content);
+
+  // Convert array to PostgreSQL vector format: '[1,2,3,...]'
+  const vectorString = `[${embeddingVector.join(",")}]`;
+
+  const articleId = source.sourceType === "article" ? source.articleId : null;
+  const storyId = source.sourceType === "story" ? source.storyId : null;
+  const commentId = source.sourceType === "comment" ? source.commentId : null;
+
+  // Store in database using raw SQL to insert the vector
+  // We use raw SQL because Prisma doesn't support the vector type natively
+  await prisma.$executeRaw`
+    INSERT INTO "Embedding" (content, embedding, "chunkType", "sourceType", metadata, "articleId", "storyId", "commentId", "createdAt")
+    VALUES (
+      ${chunk.content},
+      ${vectorString}::vector,
+      ${chunk.chunkType},
+      ${source.sourceType},
+      ${JSON.stringify({
+        index: chunk.index,
+        totalChunks: chunk.totalChunks,
+      })}::jsonb,
+      ${articleId},
+      ${storyId},
+      ${commentId},
+      NOW()
+    )
+  `;
+}
+
 /**
  * Process and generate embeddings for a single article
  *
@@ -44,7 +126,7 @@ export async function processArticle(articleId: number): Promise<number> {
 
   // Chunk the text
   console.log(`Chunking text for article ${articleId}...`);
-  const chunks = await chunkText(article.content);
+  const chunks = await chunkText(article.content, article.contentMarkdown);
   console.log(`Created ${chunks.length} chunks`);
 
   let embeddingsCreated = 0;
@@ -55,28 +137,7 @@ export async function processArticle(articleId: number): Promise<number> {
       `Generating embedding for ${chunk.chunkType} chunk ${chunk.index + 1}/${chunk.totalChunks}...`
     );
 
-    // Generate embedding vector
-    const embeddingVector = await generateEmbedding(chunk.content);
-
-    // Convert array to PostgreSQL vector format: '[1,2,3,...]'
-    const vectorString = `[${embeddingVector.join(",")}]`;
-
-    // Store in database using raw SQL to insert the vector
-    // We use raw SQL because Prisma doesn't support the vector type natively
-    await prisma.$executeRaw`
-      INSERT INTO "Embedding" (content, embedding, "chunkType", metadata, "articleId", "createdAt")
-      VALUES (
-        ${chunk.content},
-        ${vectorString}::vector,
-        ${chunk.chunkType},
-        ${JSON.stringify({
-          index: chunk.index,
-          totalChunks: chunk.totalChunks,
-        })}::jsonb,
-        ${articleId},
-        NOW()
-      )
-    `;
+    await storeEmbedding(chunk, { sourceType: "article", articleId });
 
     embeddingsCreated++;
   }
@@ -88,6 +149,130 @@ export async function processArticle(articleId: number): Promise<number> {
   return embeddingsCreated;
 }
 
+/**
+ * Generate an embedding for a story's own text (Ask HN, Show HN, job posts)
+ *
+ * The title and text are embedded together as a single `story` chunk.
+ *
+ * @param storyId - ID of the HnStory to process
+ * @returns Number of embeddings created (0 if it already has one)
+ */
+export async function processStoryText(storyId: number): Promise<number> {
+  const story = await prisma.hnStory.findUnique({
+    where: { id: storyId },
+    select: {
+      title: true,
+      text: true,
+      textPlain: true,
+      _count: { select: { embeddings: true } },
+    },
+  });
+
+  if (story === null) {
+    throw new Error(`Story ${storyId} not found`);
+  }
+
+  if (story.text === null) {
+    throw new Error(`Story ${storyId} has no text`);
+  }
+
+  if (story._count.embeddings > 0) {
+    return 0;
+  }
+
+  // Rows stored before text normalisation have no textPlain yet
+  const content = [story.title, story.textPlain ?? htmlToText(story.text)]
+    .filter((part): part is string => part !== null && part !== "")
+    .join("\n\n");
+
+  await storeEmbedding(
+    { content, chunkType: "story", index: 0, totalChunks: 1 },
+    { sourceType: "story", storyId }
+  );
+
+  return 1;
+}
+
+/**
+ * Generate an embedding for a single comment
+ *
+ * @param commentId - ID of the HnComment to process
+ * @returns Number of embeddings created (0 if it already has one)
+ */
+export async function processComment(commentId: number): Promise<number> {
+  const comment = await prisma.hnComment.findUnique({
+    where: { id: commentId },
+    select: {
+      text: true,
+      textPlain: true,
+      _count: { select: { embeddings: true } },
+    },
+  });
+
+  if (comment === null) {
+    throw new Error(`Comment ${commentId} not found`);
+  }
+
+  if (comment.text === null) {
+    throw new Error(`Comment ${commentId} has no text`);
+  }
+
+  if (comment._count.embeddings > 0) {
+    return 0;
+  }
+
+  await storeEmbedding(
+    {
+      content: comment.textPlain ?? htmlToText(comment.text),
+      chunkType: "comment",
+      index: 0,
+      totalChunks: 1,
+    },
+    { sourceType: "comment", commentId }
+  );
+
+  return 1;
+}
+
+/**
+ * Run a processing function over a list of IDs, collecting statistics
+ *
+ * @param label - Source label used in log messages
+ * @param ids - IDs to process
+ * @param processOne - Function that embeds one row and returns the count
+ * created
+ * @returns Statistics about the processing operation
+ */
+async function processEach(
+  label: string,
+  ids: number[],
+  processOne: (id: number) => Promise<number>
+): Promise<ProcessingStats> {
+  console.log(`Found ${ids.length} ${label} items to process`);
+
+  const stats = {
+    processed: 0,
+    embeddings: 0,
+    errors: 0,
+  };
+
+  for (const id of ids) {
+    try {
+      const embeddingsCreated = await processOne(id);
+      stats.processed++;
+      stats.embeddings += embeddingsCreated;
+    } catch (error) {
+      console.error(
+        `Error processing ${label} ${id}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      stats.errors++;
+    }
+  }
+
+  return stats;
+}
+
 /**
  * Process all articles without embeddings
  *
@@ -100,7 +285,7 @@ export async function processArticle(articleId: number): Promise<number> {
  */
 export async function processAllArticles(
   limit?: number
-): Promise<{ processed: number; embeddings: number; errors: number }> {
+): Promise<ProcessingStats> {
   // Find articles without embeddings
   const articles = await prisma.scrapedArticle.findMany({
     where: {
@@ -112,32 +297,110 @@ export async function processAllArticles(
         none: {},
       },
     },
+    select: { id: true },
     ...(limit !== undefined && { take: limit }),
     orderBy: {
       createdAt: "asc",
     },
   });
 
-  console.log(`Found ${articles.length} articles to process`);
+  return processEach(
+    "article",
+    articles.map((article) => article.id),
+    processArticle
+  );
+}
 
-  const stats = {
-    processed: 0,
-    embeddings: 0,
-    errors: 0,
+/**
+ * Process all stories with their own text and no embedding yet
+ *
+ * @param limit - Maximum number of stories to process (default: no limit)
+ * @returns Statistics about the processing operation
+ */
+export async function processAllStoryText(
+  limit?: number
+): Promise<ProcessingStats> {
+  const stories = await prisma.hnStory.findMany({
+    where: {
+      text: { not: null },
+      deleted: false,
+      embeddings: { none: {} },
+    },
+    select: { id: true },
+    ...(limit !== undefined && { take: limit }),
+    orderBy: { createdAt: "asc" },
+  });
+
+  return processEach(
+    "story",
+    stories.map((story) => story.id),
+    processStoryText
+  );
+}
+
+/**
+ * Process all live comments with no embedding yet
+ *
+ * @param limit - Maximum number of comments to process (default: no limit)
+ * @returns Statistics about the processing operation
+ */
+export async function processAllComments(
+  limit?: number
+): Promise<ProcessingStats> {
+  const comments = await prisma.hnComment.findMany({
+    where: {
+      text: { not: null },
+      deleted: false,
+      dead: false,
+      embeddings: { none: {} },
+    },
+    select: { id: true },
+    ...(limit !== undefined && { take: limit }),
+    orderBy: { createdAt: "asc" },
+  });
+
+  return processEach(
+    "comment",
+    comments.map((comment) => comment.id),
+    processComment
+  );
+}
+
+/**
+ * Statistics about embedding one source
+ */
+export interface SourceProcessingStats extends ProcessingStats {
+  source: EmbeddingSourceType;
+}
+
+/**
+ * Process every requested embedding source in turn
+ *
+ * @param sources - Sources to embed
+ * @param limit - Maximum number of rows to process per source
+ * @returns Statistics per source, in the order processed
+ *
+ * @example
+ * const stats = await processEmbeddingSources(["article", "comment"], 100);
+ * console.log(stats.map((s) => `${s.source}: ${s.embeddings}`));
+ */
+export async function processEmbeddingSources(
+  sources: EmbeddingSourceType[],
+  limit?: number
+): Promise<SourceProcessingStats[]> {
+  const processors: Record<
+    EmbeddingSourceType,
+    (limit?: number) => Promise<ProcessingStats>
+  > = {
+    article: processAllArticles,
+    story: processAllStoryText,
+    comment: processAllComments,
   };
 
-  for (const article of articles) {
-    try {
-      const embeddingsCreated = await processArticle(article.id);
-      stats.processed++;
-      stats.embeddings += embeddingsCreated;
-    } catch (error) {
-      console.error(
-        `Error processing article ${article.id}:`,
-        error instanceof Error ? error.message : String(error)
-      );
-      stats.errors++;
-    }
+  const stats: SourceProcessingStats[] = [];
+
+  for (const source of sources) {
+    stats.push({ source, ...(await processors[source](limit)) });
   }
 
   return stats;
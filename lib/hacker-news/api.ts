@@ -1,11 +1,78 @@
 /**
  * Hacker News API client using Node.js built-in fetch
+ *
+ * All requests share a single limiter, so callers can fan out freely (e.g.
+ * `Promise.all` over a comment thread) without exceeding the configured
+ * concurrency or request rate.
+ *
+ * The `fetch*` functions read from the active `HnSource`: the live API by
+ * default, or recorded fixtures after `setHnSource`.
  */
 
-import type { HnItem } from "./types";
+import { createRequestLimiter, type RequestLimiter } from "./rate-limiter";
+import type {
+  HnItem,
+  HnSource,
+  HnUpdates,
+  HnUserProfile,
+  StoryListSource,
+} from "./types";
 
 const HN_API_BASE = "https://hacker-news.firebaseio.com/v0";
 
+/**
+ * HN client options
+ */
+export interface HnClientOptions {
+  /**
+   * Maximum number of requests in flight at once
+   * @default 10
+   */
+  concurrency?: number;
+
+  /**
+   * Sustained number of requests started per second
+   * @default 20
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Maximum number of requests that may start back to back after an idle
+   * period
+   * @default requestsPerSecond
+   */
+  burst?: number;
+}
+
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_REQUESTS_PER_SECOND = 20;
+
+let limiter: RequestLimiter = createRequestLimiter({
+  concurrency: DEFAULT_CONCURRENCY,
+  requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND,
+});
+
+/**
+ * Configure the request limiter shared by all HN API calls
+ *
+ * Requests already waiting on the previous limiter are not affected.
+ *
+ * @param options - Client options
+ *
+ * @example
+ * configureHnClient({ concurrency: 20, requestsPerSecond: 50 });
+ */
+export function configureHnClient(options: HnClientOptions): void {
+  const requestsPerSecond =
+    options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+
+  limiter = createRequestLimiter({
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    requestsPerSecond,
+    burst: options.burst ?? requestsPerSecond,
+  });
+}
+
 /**
  * Delay execution for a specified number of milliseconds
  *
@@ -19,6 +86,10 @@ function delay(ms: number): Promise<void> {
 /**
  * Retry a function with exponential backoff
  *
+ * Every attempt is scheduled through the shared limiter, so retries count
+ * against the same concurrency and rate budget as first attempts. The backoff
+ * delay is spent outside the limiter and does not hold a concurrency slot.
+ *
  * @param fn - Async function to retry
  * @param maxRetries - Maximum number of retry attempts
  * @param baseDelay - Base delay in milliseconds (doubles on each retry)
@@ -34,7 +105,7 @@ async function retryWithBackoff<T>(
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await fn();
+      return await limiter.schedule(fn);
     } catch (error) {
       lastError = error as Error;
 
@@ -52,27 +123,151 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Fetch an item from the HN API
+ * Fetch a JSON resource from an HN API base URL with retries
  *
- * @param id - HN item ID
- * @returns Item data or null if not found
+ * @param baseUrl - API base URL, without a trailing slash
+ * @param path - Path relative to the API base, e.g. `/maxitem.json`
+ * @param description - What is being fetched, used in error messages
+ * @returns Parsed JSON response
  * @throws Error if the request fails after retries
  */
-export async function fetchItem(id: number): Promise<HnItem | null> {
+async function fetchJson<T>(
+  baseUrl: string,
+  path: string,
+  description: string
+): Promise<T> {
   return retryWithBackoff(async () => {
-    const response = await fetch(`${HN_API_BASE}/item/${id}.json`);
+    const response = await fetch(`${baseUrl}${path}`);
 
     if (!response.ok) {
       throw new Error(
-        `Failed to fetch item ${id}: ${response.status} ${response.statusText}`
+        `Failed to fetch ${description}: ${response.status} ${response.statusText}`
       );
     }
 
-    const data = (await response.json()) as HnItem | null;
-    return data;
+    return (await response.json()) as T;
   });
 }
 
+/**
+ * Create a source that reads from an HN API over HTTP
+ *
+ * Requests go through the shared limiter and are retried with backoff. The
+ * base URL defaults to the `HN_API_BASE` environment variable, falling back
+ * to the live Firebase API, so a local stand-in serving the same paths (for
+ * example a static file server over a fixture directory) can be used instead.
+ *
+ * @param baseUrl - API base URL
+ * @returns HTTP-backed source
+ *
+ * @example
+ * setHnSource(createHttpSource("http://localhost:8080/v0"));
+ */
+export function createHttpSource(
+  baseUrl: string = process.env["HN_API_BASE"] ?? HN_API_BASE
+): HnSource {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: base,
+    getItem: (id) =>
+      fetchJson<HnItem | null>(base, `/item/${id}.json`, `item ${id}`),
+    getUser: (id) =>
+      fetchJson<HnUserProfile | null>(
+        base,
+        `/user/${encodeURIComponent(id)}.json`,
+        `user ${id}`
+      ),
+    getStoryList: (source) =>
+      fetchJson<number[]>(base, `/${source}stories.json`, `${source} stories`),
+    getMaxItem: () => fetchJson<number>(base, "/maxitem.json", "max item"),
+    getUpdates: () => fetchJson<HnUpdates>(base, "/updates.json", "updates"),
+  };
+}
+
+let activeSource: HnSource = createHttpSource();
+
+/**
+ * Replace the source all HN API calls read from
+ *
+ * @param source - Source to use from now on
+ *
+ * @example
+ * setHnSource(await loadFixtureSource("fixtures/hn"));
+ */
+export function setHnSource(source: HnSource): void {
+  activeSource = source;
+}
+
+/**
+ * Get the source HN API calls currently read from
+ *
+ * @returns Active source
+ */
+export function getHnSource(): HnSource {
+  return activeSource;
+}
+
+/**
+ * Fetch an item from the HN API
+ *
+ * @param id - HN item ID
+ * @returns Item data or null if not found
+ * @throws Error if the request fails after retries
+ */
+export async function fetchItem(id: number): Promise<HnItem | null> {
+  return activeSource.getItem(id);
+}
+
+/**
+ * Fetch a user profile from the HN API
+ *
+ * @param id - HN username (case-sensitive)
+ * @returns User profile or null if not found
+ * @throws Error if the request fails after retries
+ */
+export async function fetchUser(id: string): Promise<HnUserProfile | null> {
+  return activeSource.getUser(id);
+}
+
+/**
+ * All HN story lists, in the order the API documents them
+ */
+export const STORY_LIST_SOURCES: StoryListSource[] = [
+  "new",
+  "top",
+  "best",
+  "ask",
+  "show",
+  "job",
+];
+
+/**
+ * Check whether a string names an HN story list
+ *
+ * @param value - Value to check
+ * @returns True if the value is a StoryListSource
+ */
+export function isStoryListSource(value: string): value is StoryListSource {
+  return STORY_LIST_SOURCES.some((source) => source === value);
+}
+
+/**
+ * Fetch the story IDs of an HN list, in list (rank) order
+ *
+ * @param source - Story list to fetch
+ * @returns Array of story IDs (up to 500 for new/top/best, 200 otherwise)
+ * @throws Error if the request fails after retries
+ *
+ * @example
+ * const frontPage = (await fetchStoryList("top")).slice(0, 30);
+ */
+export async function fetchStoryList(
+  source: StoryListSource
+): Promise<number[]> {
+  return activeSource.getStoryList(source);
+}
+
 /**
  * Fetch the list of new story IDs
  *
@@ -80,18 +275,7 @@ export async function fetchItem(id: number): Promise<HnItem | null> {
  * @throws Error if the request fails after retries
  */
 export async function fetchNewStories(): Promise<number[]> {
-  return retryWithBackoff(async () => {
-    const response = await fetch(`${HN_API_BASE}/newstories.json`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch new stories: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = (await response.json()) as number[];
-    return data;
-  });
+  return fetchStoryList("new");
 }
 
 /**
@@ -101,18 +285,7 @@ export async function fetchNewStories(): Promise<number[]> {
  * @throws Error if the request fails after retries
  */
 export async function fetchTopStories(): Promise<number[]> {
-  return retryWithBackoff(async () => {
-    const response = await fetch(`${HN_API_BASE}/topstories.json`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch top stories: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = (await response.json()) as number[];
-    return data;
-  });
+  return fetchStoryList("top");
 }
 
 /**
@@ -122,18 +295,7 @@ export async function fetchTopStories(): Promise<number[]> {
  * @throws Error if the request fails after retries
  */
 export async function fetchBestStories(): Promise<number[]> {
-  return retryWithBackoff(async () => {
-    const response = await fetch(`${HN_API_BASE}/beststories.json`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch best stories: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = (await response.json()) as number[];
-    return data;
-  });
+  return fetchStoryList("best");
 }
 
 /**
@@ -143,16 +305,15 @@ export async function fetchBestStories(): Promise<number[]> {
  * @throws Error if the request fails after retries
  */
 export async function fetchMaxItem(): Promise<number> {
-  return retryWithBackoff(async () => {
-    const response = await fetch(`${HN_API_BASE}/maxitem.json`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch max item: ${response.status} ${response.statusText}`
-      );
-    }
+  return activeSource.getMaxItem();
+}
 
-    const data = (await response.json()) as number;
-    return data;
-  });
+/**
+ * Fetch recently changed item IDs and user profiles
+ *
+ * @returns Changed items and profiles
+ * @throws Error if the request fails after retries
+ */
+export async function fetchUpdates(): Promise<HnUpdates> {
+  return activeSource.getUpdates();
 }
@@ -0,0 +1,358 @@
+/**
+ * Historical backfill that walks HN item IDs downwards from the max item
+ */
+
+import { fetchItem, fetchMaxItem } from "./api";
+import { ingestStory, storyExists } from "./fetcher";
+import { isStoryItem } from "./selection";
+import type { HnItem } from "./types";
+
+/**
+ * Resumable position and running totals of a backfill
+ *
+ * Stored as task metadata after every batch so an interrupted run can pick
+ * up at `nextId` instead of starting again from the max item.
+ */
+export interface BackfillCheckpoint {
+  /**
+   * Max item ID when the backfill started
+   */
+  startId: number;
+
+  /**
+   * Next (highest unvisited) item ID to examine
+   */
+  nextId: number;
+
+  /**
+   * Unix timestamp (seconds) when the backfill started
+   */
+  startTime: number;
+
+  /**
+   * Unix timestamp (seconds) to walk back to
+   */
+  cutoffTime: number;
+
+  /**
+   * Timestamp of the oldest item seen so far
+   */
+  oldestTime: number | null;
+
+  itemsScanned: number;
+  storiesFetched: number;
+  commentsFetched: number;
+  skipped: number;
+  errors: number;
+
+  /**
+   * Items that could not be fetched or persisted; they are retried with the
+   * next batch, and once more when the walk ends
+   */
+  failedIds: number[];
+}
+
+/**
+ * Options for a backfill run
+ */
+export interface BackfillOptions {
+  /**
+   * Maximum number of stories to fetch in this run
+   */
+  limit?: number;
+
+  /**
+   * Number of item IDs to check per batch
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Delay in milliseconds between batches
+   * @default 1000
+   */
+  delayMs?: number;
+
+  /**
+   * Maximum depth for comment fetching
+   * @default Infinity (fetch all comments)
+   */
+  maxCommentDepth?: number;
+
+  /**
+   * Called after every batch with the updated checkpoint
+   */
+  onBatchComplete?: (checkpoint: BackfillCheckpoint) => Promise<void>;
+
+  /**
+   * Called for every item that could not be fetched or persisted
+   */
+  onError?: (id: number, error: string) => void;
+}
+
+/**
+ * Result of a backfill run
+ */
+export interface BackfillResult {
+  checkpoint: BackfillCheckpoint;
+
+  /**
+   * True once the walk has reached the cutoff time or item ID 1
+   */
+  completed: boolean;
+}
+
+/**
+ * Delay execution for a specified number of milliseconds
+ *
+ * @param ms - Milliseconds to delay
+ * @returns Promise that resolves after the delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a fresh checkpoint starting at the current max item
+ *
+ * @param days - Number of days to walk back
+ * @returns Checkpoint positioned at the current max item
+ *
+ * @example
+ * const checkpoint = await createBackfillCheckpoint(90);
+ */
+export async function createBackfillCheckpoint(
+  days: number
+): Promise<BackfillCheckpoint> {
+  const maxItem = await fetchMaxItem();
+  const startTime = Math.floor(Date.now() / 1000);
+
+  return {
+    startId: maxItem,
+    nextId: maxItem,
+    startTime,
+    cutoffTime: startTime - days * 24 * 3600,
+    oldestTime: null,
+    itemsScanned: 0,
+    storiesFetched: 0,
+    commentsFetched: 0,
+    skipped: 0,
+    errors: 0,
+    failedIds: [],
+  };
+}
+
+/**
+ * Check whether an unknown value (e.g. task metadata) is a backfill checkpoint
+ *
+ * @param value - Value to check
+ * @returns True if the value has the shape of a BackfillCheckpoint
+ */
+export function isBackfillCheckpoint(
+  value: unknown
+): value is BackfillCheckpoint {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const numericKeys = [
+    "startId",
+    "nextId",
+    "startTime",
+    "cutoffTime",
+    "itemsScanned",
+    "storiesFetched",
+    "commentsFetched",
+    "skipped",
+    "errors",
+  ];
+
+  const record = value as Record<string, unknown>;
+  const oldestTime = record["oldestTime"];
+  const failedIds = record["failedIds"];
+
+  return (
+    numericKeys.every((key) => typeof record[key] === "number") &&
+    (oldestTime === null || typeof oldestTime === "number") &&
+    Array.isArray(failedIds) &&
+    failedIds.every((id) => typeof id === "number")
+  );
+}
+
+/**
+ * Fetch a range of items in parallel
+ *
+ * Concurrency and request rate are bounded by the shared API limiter (see
+ * `configureHnClient`).
+ *
+ * @param ids - Item IDs to fetch
+ * @param onError - Error callback for items that failed to fetch
+ * @returns Fetched items (missing and failed items are omitted)
+ */
+async function fetchItems(
+  ids: number[],
+  onError: (id: number, error: string) => void
+): Promise<HnItem[]> {
+  const results = await Promise.all(
+    ids.map(async (id) => {
+      try {
+        return await fetchItem(id);
+      } catch (error) {
+        onError(id, error instanceof Error ? error.message : String(error));
+        return null;
+      }
+    })
+  );
+
+  return results.filter((item): item is HnItem => item !== null);
+}
+
+/**
+ * Walk item IDs downwards from a checkpoint, persisting every story found
+ *
+ * Items are fetched in parallel, but stories are persisted one at a time so
+ * the run never holds more than one database connection. The walk stops once
+ * a batch contains an item older than the checkpoint's cutoff time.
+ *
+ * Items that fail to fetch or persist are kept in the checkpoint's
+ * `failedIds` and retried with the next batch; those still failing when the
+ * walk ends get one last attempt and are left in the final checkpoint.
+ *
+ * @param checkpoint - Position to start from (fresh or resumed)
+ * @param options - Backfill options
+ * @returns Final checkpoint and whether the backfill is complete
+ *
+ * @example
+ * const checkpoint = await createBackfillCheckpoint(7);
+ * const { completed } = await backfillStories(checkpoint, { limit: 1000 });
+ */
+export async function backfillStories(
+  checkpoint: BackfillCheckpoint,
+  options: BackfillOptions = {}
+): Promise<BackfillResult> {
+  const {
+    limit,
+    batchSize = 100,
+    delayMs = 1000,
+    maxCommentDepth,
+    onBatchComplete,
+  } = options;
+
+  const current: BackfillCheckpoint = {
+    ...checkpoint,
+    failedIds: [...checkpoint.failedIds],
+  };
+  let fetchedThisRun = 0;
+  let failed = new Set<number>();
+
+  const onError = (id: number, error: string): void => {
+    current.errors++;
+    failed.add(id);
+    options.onError?.(id, error);
+  };
+
+  const isLimitReached = (): boolean =>
+    limit !== undefined && fetchedThisRun >= limit;
+
+  /**
+   * Fetch a batch of IDs, together with the IDs that failed before, and
+   * persist the stories among them
+   *
+   * @param ids - Item IDs to scan, highest first
+   * @returns Whether the batch contained an item older than the cutoff
+   */
+  const processBatch = async (ids: number[]): Promise<boolean> => {
+    const retryIds = current.failedIds;
+    failed = new Set();
+
+    const items = await fetchItems([...retryIds, ...ids], onError);
+    let reachedCutoff = false;
+
+    for (const item of items) {
+      if (item.time < current.cutoffTime) {
+        reachedCutoff = true;
+        continue;
+      }
+
+      if (current.oldestTime === null || item.time < current.oldestTime) {
+        current.oldestTime = item.time;
+      }
+
+      if (!isStoryItem(item) || item.deleted === true) {
+        continue;
+      }
+
+      if (isLimitReached()) {
+        break;
+      }
+
+      try {
+        if (await storyExists(item.id)) {
+          current.skipped++;
+          continue;
+        }
+
+        const { comments } = await ingestStory(item, maxCommentDepth);
+        current.storiesFetched++;
+        current.commentsFetched += comments.length;
+        fetchedThisRun++;
+      } catch (error) {
+        onError(
+          item.id,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    // Retries the limit cut off were not attempted; keep them
+    current.failedIds = isLimitReached()
+      ? [...new Set([...retryIds, ...failed])]
+      : [...failed];
+
+    return reachedCutoff;
+  };
+
+  while (current.nextId > 0) {
+    const lowestId = Math.max(1, current.nextId - batchSize + 1);
+    const ids: number[] = [];
+
+    for (let id = current.nextId; id >= lowestId; id--) {
+      ids.push(id);
+    }
+
+    const reachedCutoff = await processBatch(ids);
+    const limitReached = isLimitReached();
+
+    // When the limit cuts a batch short, re-scan it on the next run; stories
+    // already stored are skipped cheaply.
+    if (!limitReached) {
+      current.itemsScanned += ids.length;
+      current.nextId = lowestId - 1;
+    }
+
+    await onBatchComplete?.({ ...current });
+
+    if (limitReached) {
+      return { checkpoint: current, completed: false };
+    }
+
+    if (reachedCutoff) {
+      break;
+    }
+
+    await delay(delayMs);
+  }
+
+  // Last attempt for items that failed in the final batches
+  if (current.failedIds.length > 0) {
+    await delay(delayMs);
+    await processBatch([]);
+    await onBatchComplete?.({ ...current });
+
+    if (isLimitReached()) {
+      return { checkpoint: current, completed: false };
+    }
+  }
+
+  return { checkpoint: current, completed: true };
+}
@@ -0,0 +1,192 @@
+/**
+ * Bulk writes for HN items inside a transaction
+ *
+ * Rows are sent as one JSON parameter and expanded server-side with
+ * `jsonb_to_recordset`, so a batch costs a single round trip regardless of
+ * its size. Conflicts on the primary key are resolved in the same statement.
+ */
+
+import type { Prisma } from "@prisma/client";
+import type { PersistBatchTiming } from "./types";
+
+/**
+ * Default number of rows per bulk statement
+ */
+export const DEFAULT_PERSIST_BATCH_SIZE = 1000;
+
+/**
+ * Split rows into batches
+ *
+ * @param rows - Rows to split
+ * @param batchSize - Maximum rows per batch
+ * @returns Batches in input order
+ */
+function toBatches<T>(rows: T[], batchSize: number): T[][] {
+  const size = Math.max(1, batchSize);
+  const batches: T[][] = [];
+
+  for (let i = 0; i < rows.length; i += size) {
+    batches.push(rows.slice(i, i + size));
+  }
+
+  return batches;
+}
+
+/**
+ * Run one bulk statement per batch and time each one
+ *
+ * @param table - Table being written, for the timing report
+ * @param rows - Rows to write
+ * @param batchSize - Maximum rows per statement
+ * @param write - Writes one batch and returns the number of rows written
+ * @returns Timing of each batch
+ */
+async function writeBatches<T>(
+  table: PersistBatchTiming["table"],
+  rows: T[],
+  batchSize: number,
+  write: (json: string) => Promise<number>
+): Promise<PersistBatchTiming[]> {
+  const timings: PersistBatchTiming[] = [];
+
+  for (const batch of toBatches(rows, batchSize)) {
+    const startedAt = performance.now();
+    const written = await write(JSON.stringify(batch));
+
+    timings.push({
+      table,
+      rows: batch.length,
+      written,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  }
+
+  return timings;
+}
+
+/**
+ * Insert comments, skipping any that are already stored
+ *
+ * Rows must be ordered parents first (e.g. thread pre-order): the parent
+ * link is checked at the end of each statement, so a reply may share a
+ * batch with its parent or come in a later one, but not an earlier one.
+ *
+ * @param tx - Transaction client
+ * @param rows - Comment rows, as built by `toCommentData`
+ * @param batchSize - Maximum rows per statement
+ * @returns Timing of each batch; `written` counts newly inserted comments
+ */
+export async function insertComments(
+  tx: Prisma.TransactionClient,
+  rows: Prisma.HnCommentCreateManyInput[],
+  batchSize: number = DEFAULT_PERSIST_BATCH_SIZE
+): Promise<PersistBatchTiming[]> {
+  return writeBatches("HnComment", rows, batchSize, async (json) => {
+    return tx.$executeRaw`
+      INSERT INTO "HnComment" (
+        id, text, "textPlain", "textMarkdown", "by", time, parent,
+        "storyId", deleted, dead, depth, rank, "parentCommentId", "updatedAt"
+      )
+      SELECT
+        r.id, r.text, r."textPlain", r."textMarkdown", r."by", r.time,
+        r.parent, r."storyId",
+        COALESCE(r.deleted, false), COALESCE(r.dead, false),
+        r.depth, r.rank, r."parentCommentId", NOW()
+      FROM jsonb_to_recordset(${json}::jsonb) AS r(
+        id int, text text, "textPlain" text, "textMarkdown" text,
+        "by" text, time int, parent int, "storyId" int, deleted boolean,
+        dead boolean, depth int, rank int, "parentCommentId" int
+      )
+      ON CONFLICT (id) DO NOTHING
+    `;
+  });
+}
+
+/**
+ * Insert comments, updating the content of those already stored
+ *
+ * Row order follows `insertComments`. Depth, rank and parent link are only
+ * overwritten by non-null values, so a row built without a thread position
+ * keeps the stored one, as `persistComment` does.
+ *
+ * @param tx - Transaction client
+ * @param rows - Comment rows, as built by `toCommentData`
+ * @param batchSize - Maximum rows per statement
+ * @returns Timing of each batch; `written` counts inserted and updated comments
+ */
+export async function upsertComments(
+  tx: Prisma.TransactionClient,
+  rows: Prisma.HnCommentCreateManyInput[],
+  batchSize: number = DEFAULT_PERSIST_BATCH_SIZE
+): Promise<PersistBatchTiming[]> {
+  return writeBatches("HnComment", rows, batchSize, async (json) => {
+    return tx.$executeRaw`
+      INSERT INTO "HnComment" (
+        id, text, "textPlain", "textMarkdown", "by", time, parent,
+        "storyId", deleted, dead, depth, rank, "parentCommentId", "updatedAt"
+      )
+      SELECT
+        r.id, r.text, r."textPlain", r."textMarkdown", r."by", r.time,
+        r.parent, r."storyId",
+        COALESCE(r.deleted, false), COALESCE(r.dead, false),
+        r.depth, r.rank, r."parentCommentId", NOW()
+      FROM jsonb_to_recordset(${json}::jsonb) AS r(
+        id int, text text, "textPlain" text, "textMarkdown" text,
+        "by" text, time int, parent int, "storyId" int, deleted boolean,
+        dead boolean, depth int, rank int, "parentCommentId" int
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        text = EXCLUDED.text,
+        "textPlain" = EXCLUDED."textPlain",
+        "textMarkdown" = EXCLUDED."textMarkdown",
+        "by" = EXCLUDED."by",
+        "storyId" = EXCLUDED."storyId",
+        deleted = EXCLUDED.deleted,
+        dead = EXCLUDED.dead,
+        depth = COALESCE(EXCLUDED.depth, "HnComment".depth),
+        rank = COALESCE(EXCLUDED.rank, "HnComment".rank),
+        "parentCommentId" = COALESCE(
+          EXCLUDED."parentCommentId",
+          "HnComment"."parentCommentId"
+        ),
+        "updatedAt" = NOW()
+    `;
+  });
+}
+
+/**
+ * Insert poll options, updating vote counts of those already stored
+ *
+ * @param tx - Transaction client
+ * @param rows - Poll option rows
+ * @param batchSize - Maximum rows per statement
+ * @returns Timing of each batch; `written` counts inserted and updated options
+ */
+export async function upsertPollOptions(
+  tx: Prisma.TransactionClient,
+  rows: Prisma.HnPollOptionCreateManyInput[],
+  batchSize: number = DEFAULT_PERSIST_BATCH_SIZE
+): Promise<PersistBatchTiming[]> {
+  return writeBatches("HnPollOption", rows, batchSize, async (json) => {
+    return tx.$executeRaw`
+      INSERT INTO "HnPollOption" (
+        id, text, score, "by", time, position, "pollId", deleted, dead,
+        "updatedAt"
+      )
+      SELECT
+        r.id, r.text, r.score, r."by", r.time, r.position, r."pollId",
+        COALESCE(r.deleted, false), COALESCE(r.dead, false), NOW()
+      FROM jsonb_to_recordset(${json}::jsonb) AS r(
+        id int, text text, score int, "by" text, time int, position int,
+        "pollId" int, deleted boolean, dead boolean
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        text = EXCLUDED.text,
+        score = EXCLUDED.score,
+        position = EXCLUDED.position,
+        deleted = EXCLUDED.deleted,
+        dead = EXCLUDED.dead,
+        "updatedAt" = NOW()
+    `;
+  });
+}
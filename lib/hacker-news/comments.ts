@@ -0,0 +1,204 @@
+/**
+ * Threaded comment trees rebuilt from stored comments
+ */
+
+import { prisma } from "../database";
+
+/**
+ * Options for building a comment tree
+ */
+export interface CommentTreeOptions {
+  /**
+   * Maximum depth to include (1 = top-level comments only)
+   * @default Infinity
+   */
+  maxDepth?: number;
+
+  /**
+   * Number of top-level comments per page
+   * @default 50
+   */
+  pageSize?: number;
+
+  /**
+   * 1-based page of top-level comments
+   * @default 1
+   */
+  page?: number;
+}
+
+/**
+ * A comment with its replies, in HN display order
+ */
+export interface CommentNode {
+  id: number;
+  by: string | null;
+
+  /**
+   * HTML as returned by the HN API
+   */
+  text: string | null;
+
+  /**
+   * `text` converted to markdown, for rendering
+   */
+  textMarkdown: string | null;
+  time: number;
+  deleted: boolean;
+  dead: boolean;
+  depth: number;
+  rank: number | null;
+
+  /**
+   * Number of stored direct replies, including any cut off by `maxDepth`
+   */
+  replyCount: number;
+  replies: CommentNode[];
+}
+
+/**
+ * A page of a story's comment thread
+ */
+export interface CommentTree {
+  storyId: number;
+  page: number;
+  pageSize: number;
+  totalTopLevel: number;
+  totalComments: number;
+  comments: CommentNode[];
+}
+
+/**
+ * Stored comment fields needed to build the tree
+ */
+interface CommentRow {
+  id: number;
+  by: string | null;
+  text: string | null;
+  textMarkdown: string | null;
+  time: number;
+  deleted: boolean;
+  dead: boolean;
+  rank: number | null;
+  parentCommentId: number | null;
+}
+
+/**
+ * Order siblings by HN rank; comments with an unknown rank go last, oldest
+ * first
+ *
+ * @param a - First comment
+ * @param b - Second comment
+ * @returns Sort order
+ */
+function compareSiblings(a: CommentRow, b: CommentRow): number {
+  if (a.rank !== null && b.rank !== null) {
+    return a.rank - b.rank;
+  }
+
+  if (a.rank !== null) {
+    return -1;
+  }
+
+  if (b.rank !== null) {
+    return 1;
+  }
+
+  return a.id - b.id;
+}
+
+/**
+ * Get a story's comment thread as a nested tree in HN display order
+ *
+ * Top-level comments are paginated; each page includes the full reply tree
+ * of its comments down to `maxDepth`.
+ *
+ * @param storyId - Story ID
+ * @param options - Depth and pagination options
+ * @returns Comment tree page, or null if the story is not stored
+ *
+ * @example
+ * const tree = await getCommentTree(42, { maxDepth: 3, pageSize: 20 });
+ * console.log(tree?.comments[0]?.replies.length);
+ */
+export async function getCommentTree(
+  storyId: number,
+  options: CommentTreeOptions = {}
+): Promise<CommentTree | null> {
+  const { maxDepth = Infinity, pageSize = 50, page = 1 } = options;
+
+  const story = await prisma.hnStory.findUnique({
+    where: { id: storyId },
+    select: {
+      id: true,
+      comments: {
+        select: {
+          id: true,
+          by: true,
+          text: true,
+          textMarkdown: true,
+          time: true,
+          deleted: true,
+          dead: true,
+          rank: true,
+          parentCommentId: true,
+        },
+      },
+    },
+  });
+
+  if (story === null) {
+    return null;
+  }
+
+  // Comments without a parent comment hang directly off the story
+  const childrenOf = new Map<number | null, CommentRow[]>();
+
+  for (const comment of story.comments) {
+    const siblings = childrenOf.get(comment.parentCommentId) ?? [];
+    siblings.push(comment);
+    childrenOf.set(comment.parentCommentId, siblings);
+  }
+
+  for (const siblings of childrenOf.values()) {
+    siblings.sort(compareSiblings);
+  }
+
+  const buildNode = (comment: CommentRow, depth: number): CommentNode => {
+    const children = childrenOf.get(comment.id) ?? [];
+
+    return {
+      id: comment.id,
+      by: comment.by,
+      text: comment.text,
+      textMarkdown: comment.textMarkdown,
+      time: comment.time,
+      deleted: comment.deleted,
+      dead: comment.dead,
+      depth,
+      rank: comment.rank,
+      replyCount: children.length,
+      replies:
+        depth + 1 < maxDepth
+          ? children.map((child) => buildNode(child, depth + 1))
+          : [],
+    };
+  };
+
+  const topLevel = childrenOf.get(null) ?? [];
+  const start = (page - 1) * pageSize;
+
+  return {
+    storyId: story.id,
+    page,
+    pageSize,
+    totalTopLevel: topLevel.length,
+    totalComments: story.comments.length,
+    comments:
+      maxDepth > 0
+        ? topLevel
+            .slice(start, start + pageSize)
+            .map((comment) => buildNode(comment, 0))
+        : [],
+  };
+}
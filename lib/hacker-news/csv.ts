@@ -0,0 +1,64 @@
+/**
+ * CSV parsing for dump imports
+ *
+ * Kept apart from the importer so it can be used without a database client.
+ */
+
+/**
+ * Split a stream of text into CSV records (RFC 4180: quoted fields may
+ * contain commas, newlines and doubled quotes)
+ *
+ * @param chunks - Text chunks
+ * @yields Records as arrays of field values
+ */
+export async function* parseCsvRecords(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quotePending = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+
+          // The previous quote closed the field; handle this character below
+          inQuotes = false;
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n") {
+        record.push(field);
+        yield record;
+        record = [];
+        field = "";
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
@@ -2,112 +2,111 @@
  * Hacker News data fetcher with database persistence
  */
 
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../database";
-import { fetchItem, fetchNewStories } from "./api";
-import type { FetchOptions, FetchResult, HnItem } from "./types";
+import { queueStoryArticles } from "../scraping/story-articles";
+import { fetchItem, fetchStoryList } from "./api";
+import {
+  DEFAULT_PERSIST_BATCH_SIZE,
+  insertComments,
+  upsertPollOptions,
+} from "./bulk";
+import { htmlToMarkdown, htmlToText } from "./html";
+import { recordListRanks } from "./rankings";
+import { selectStories } from "./selection";
+import type {
+  CommentPosition,
+  FetchOptions,
+  FetchResult,
+  HnItem,
+  PersistBatchTiming,
+  ThreadComment,
+} from "./types";
+
+/**
+ * Upper bound for one story's persistence transaction; large threads are
+ * written in several bulk statements inside it
+ */
+export const PERSIST_TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * Result of ingesting one story
+ */
+export interface IngestResult {
+  comments: ThreadComment[];
+
+  /**
+   * Timing of each bulk write made for the story
+   */
+  batches: PersistBatchTiming[];
+}
 
 /**
  * Recursively fetch comments for a story
  *
+ * Siblings are fetched in parallel; the shared API limiter bounds how many
+ * requests are actually in flight. Results keep HN's pre-order (each comment
+ * followed by its replies, siblings in `kids` order), and each comment is
+ * tagged with its depth and sibling rank.
+ *
+ * A comment that fails to fetch is logged and left out together with its
+ * replies; pass `onError` to find out which ones are missing.
+ *
  * @param commentIds - Array of comment IDs to fetch
  * @param depth - Current depth in the comment tree
  * @param maxDepth - Maximum depth to fetch
+ * @param siblings - Full `kids` list of the parent, used for ranks when only
+ * some of the children are fetched (defaults to `commentIds`)
+ * @param onError - Called for every comment that could not be fetched
  * @returns Array of fetched comments
  */
-async function fetchComments(
+export async function fetchComments(
   commentIds: number[],
   depth = 0,
-  maxDepth = Infinity
-): Promise<HnItem[]> {
+  maxDepth = Infinity,
+  siblings: number[] = commentIds,
+  onError?: (commentId: number, error: unknown) => void
+): Promise<ThreadComment[]> {
   if (depth >= maxDepth || commentIds.length === 0) {
     return [];
   }
 
-  const comments: HnItem[] = [];
-
-  for (const commentId of commentIds) {
-    try {
-      const comment = await fetchItem(commentId);
-
-      if (comment !== null && comment.type === "comment") {
-        comments.push(comment);
-
-        // Recursively fetch child comments
-        if (comment.kids !== undefined && comment.kids.length > 0) {
-          const childComments = await fetchComments(
-            comment.kids,
-            depth + 1,
-            maxDepth
-          );
-          comments.push(...childComments);
-        }
-      }
-    } catch (error) {
-      console.error(`Failed to fetch comment ${commentId}:`, error);
-    }
-  }
-
-  return comments;
-}
-
-/**
- * Filter story IDs based on time window or count
- *
- * @param storyIds - Array of story IDs
- * @param options - Fetch options (hours or count)
- * @returns Filtered array of story IDs
- */
-async function filterStoryIds(
-  storyIds: number[],
-  options: FetchOptions
-): Promise<number[]> {
-  // If count is specified, just take the first N stories
-  if (options.count !== undefined) {
-    return storyIds.slice(0, options.count);
-  }
-
-  // If hours is specified, filter by timestamp
-  if (options.hours !== undefined) {
-    const cutoffTime = Math.floor(Date.now() / 1000) - options.hours * 3600;
-    const filtered: number[] = [];
-
-    for (const storyId of storyIds) {
+  const subtrees = await Promise.all(
+    commentIds.map(async (commentId): Promise<ThreadComment[]> => {
       try {
-        const story = await fetchItem(storyId);
+        const comment = await fetchItem(commentId);
 
-        if (story !== null && story.time >= cutoffTime) {
-          filtered.push(storyId);
-        } else if (story !== null && story.time < cutoffTime) {
-          // Stories are ordered by recency, so we can stop here
-          break;
+        if (comment?.type !== "comment") {
+          return [];
         }
-      } catch (error) {
-        console.error(`Failed to check timestamp for story ${storyId}:`, error);
-      }
-    }
 
-    return filtered;
-  }
-
-  // Default: last 24 hours
-  const cutoffTime = Math.floor(Date.now() / 1000) - 24 * 3600;
-  const filtered: number[] = [];
-
-  for (const storyId of storyIds) {
-    try {
-      const story = await fetchItem(storyId);
-
-      if (story !== null && story.time >= cutoffTime) {
-        filtered.push(storyId);
-      } else if (story !== null && story.time < cutoffTime) {
-        break;
+        // Recursively fetch child comments
+        const childComments =
+          comment.kids !== undefined && comment.kids.length > 0
+            ? await fetchComments(
+                comment.kids,
+                depth + 1,
+                maxDepth,
+                comment.kids,
+                onError
+              )
+            : [];
+
+        const rank = siblings.indexOf(commentId);
+
+        return [
+          { ...comment, depth, rank: rank === -1 ? null : rank },
+          ...childComments,
+        ];
+      } catch (error) {
+        console.error(`Failed to fetch comment ${commentId}:`, error);
+        onError?.(commentId, error);
+        return [];
       }
-    } catch (error) {
-      console.error(`Failed to check timestamp for story ${storyId}:`, error);
-    }
-  }
+    })
+  );
 
-  return filtered;
+  return subtrees.flat();
 }
 
 /**
@@ -116,7 +115,7 @@ async function filterStoryIds(
  * @param storyId - Story ID to check
  * @returns True if the story exists
  */
-async function storyExists(storyId: number): Promise<boolean> {
+export async function storyExists(storyId: number): Promise<boolean> {
   const existing = await prisma.hnStory.findUnique({
     where: { id: storyId },
     select: { id: true },
@@ -126,88 +125,423 @@ async function storyExists(storyId: number): Promise<boolean> {
 }
 
 /**
- * Check if a comment already exists in the database
+ * Map a story item to an HnStory row
  *
- * @param commentId - Comment ID to check
- * @returns True if the comment exists
+ * Shared by the live persistence functions and the dump importer so both
+ * write exactly the same columns. The HTML `text` is also stored decoded to
+ * plain text and converted to markdown.
+ *
+ * @param story - Story, job or poll item
+ * @returns HnStory row data
  */
-async function commentExists(commentId: number): Promise<boolean> {
-  const existing = await prisma.hnComment.findUnique({
-    where: { id: commentId },
-    select: { id: true },
-  });
+export function toStoryData(story: HnItem): Prisma.HnStoryCreateManyInput {
+  return {
+    id: story.id,
+    type: story.type ?? "story",
+    title: story.title ?? null,
+    url: story.url ?? null,
+    text: story.text ?? null,
+    textPlain: story.text !== undefined ? htmlToText(story.text) : null,
+    textMarkdown: story.text !== undefined ? htmlToMarkdown(story.text) : null,
+    score: story.score ?? null,
+    by: story.by ?? null,
+    time: story.time,
+    descendants: story.descendants ?? 0,
+    deleted: story.deleted ?? false,
+    dead: story.dead ?? false,
+  };
+}
 
-  return existing !== null;
+/**
+ * Map a comment item to an HnComment row
+ *
+ * When the position is omitted, the depth, rank and parent link columns are
+ * left out so an update keeps the stored values.
+ *
+ * @param comment - Comment item
+ * @param storyId - Story ID the comment belongs to, or null if unknown
+ * @param position - Position of the comment in its thread, if known
+ * @returns HnComment row data
+ */
+export function toCommentData(
+  comment: HnItem,
+  storyId: number | null,
+  position?: CommentPosition
+): Prisma.HnCommentCreateManyInput {
+  // Top-level comments have the story as their parent
+  const thread =
+    position !== undefined
+      ? {
+          depth: position.depth,
+          rank: position.rank,
+          parentCommentId: position.depth > 0 ? (comment.parent ?? null) : null,
+        }
+      : {};
+
+  return {
+    id: comment.id,
+    text: comment.text ?? null,
+    textPlain: comment.text !== undefined ? htmlToText(comment.text) : null,
+    textMarkdown:
+      comment.text !== undefined ? htmlToMarkdown(comment.text) : null,
+    by: comment.by ?? null,
+    time: comment.time,
+    parent: comment.parent ?? null,
+    storyId,
+    deleted: comment.deleted ?? false,
+    dead: comment.dead ?? false,
+    ...thread,
+  };
 }
 
 /**
- * Persist a story to the database
+ * Upsert a story and record a snapshot of its score and comment count
  *
+ * @param tx - Transaction client
  * @param story - Story item to persist
+ * @param rank - Front-page rank of the story, if known
  */
-async function persistStory(story: HnItem): Promise<void> {
-  await prisma.hnStory.upsert({
+async function writeStory(
+  tx: Prisma.TransactionClient,
+  story: HnItem,
+  rank: number | undefined
+): Promise<void> {
+  const data = toStoryData(story);
+
+  await tx.hnStory.upsert({
     where: { id: story.id },
-    create: {
-      id: story.id,
-      title: story.title ?? null,
-      url: story.url ?? null,
-      text: story.text ?? null,
-      score: story.score ?? null,
-      by: story.by ?? null,
-      time: story.time,
-      descendants: story.descendants ?? 0,
-      deleted: story.deleted ?? false,
-      dead: story.dead ?? false,
-    },
-    update: {
-      title: story.title ?? null,
-      url: story.url ?? null,
-      text: story.text ?? null,
+    create: data,
+    update: { ...data, updatedAt: new Date() },
+  });
+
+  await tx.storySnapshot.create({
+    data: {
+      storyId: story.id,
       score: story.score ?? null,
-      by: story.by ?? null,
-      descendants: story.descendants ?? 0,
-      deleted: story.deleted ?? false,
-      dead: story.dead ?? false,
-      updatedAt: new Date(),
+      descendants: story.descendants ?? null,
+      rank: rank ?? null,
     },
   });
 }
 
+/**
+ * Persist a story to the database
+ *
+ * Every call also records a StorySnapshot of the story's current score and
+ * comment count, so repeated ingests and refreshes build up its trajectory.
+ *
+ * @param story - Story item to persist
+ * @param rank - Front-page rank of the story, if known
+ */
+export async function persistStory(
+  story: HnItem,
+  rank?: number
+): Promise<void> {
+  await prisma.$transaction((tx) => writeStory(tx, story, rank));
+}
+
 /**
  * Persist a comment to the database
  *
+ * When the position is omitted (e.g. a refresh of a known comment), the
+ * stored depth, rank and parent link are left as they are.
+ *
  * @param comment - Comment item to persist
  * @param storyId - Story ID this comment belongs to
+ * @param position - Position of the comment in its thread, if known
  */
-async function persistComment(comment: HnItem, storyId: number): Promise<void> {
+export async function persistComment(
+  comment: HnItem,
+  storyId: number,
+  position?: CommentPosition
+): Promise<void> {
+  const data = toCommentData(comment, storyId, position);
+
   await prisma.hnComment.upsert({
     where: { id: comment.id },
-    create: {
-      id: comment.id,
-      text: comment.text ?? null,
-      by: comment.by ?? null,
-      time: comment.time,
-      parent: comment.parent ?? null,
-      storyId: storyId,
-      deleted: comment.deleted ?? false,
-      dead: comment.dead ?? false,
-    },
+    create: data,
+    update: { ...data, updatedAt: new Date() },
+  });
+}
+
+/**
+ * Update the sibling ranks of stored comments to match a `kids` list
+ *
+ * HN reorders replies as they are voted on, so ranks are re-synced whenever
+ * the parent is refreshed. Children that are not stored are ignored.
+ *
+ * @param kids - Child IDs in HN display order
+ */
+export async function updateSiblingRanks(kids: number[]): Promise<void> {
+  if (kids.length === 0) {
+    return;
+  }
+
+  await prisma.$transaction(
+    kids.map((id, rank) =>
+      prisma.hnComment.updateMany({ where: { id }, data: { rank } })
+    )
+  );
+}
+
+/**
+ * Map a poll option item to an HnPollOption row
+ *
+ * @param option - Poll option item
+ * @param pollId - Poll the option belongs to
+ * @param position - Position of the option in the poll's `parts`
+ * @returns HnPollOption row data
+ */
+function toPollOptionData(
+  option: HnItem,
+  pollId: number,
+  position: number
+): Prisma.HnPollOptionCreateManyInput {
+  return {
+    id: option.id,
+    text: option.text ?? null,
+    score: option.score ?? null,
+    by: option.by ?? null,
+    time: option.time,
+    position,
+    pollId,
+    deleted: option.deleted ?? false,
+    dead: option.dead ?? false,
+  };
+}
+
+/**
+ * Persist a poll option to the database
+ *
+ * Re-persisting an option updates its vote count.
+ *
+ * @param option - Poll option item to persist
+ * @param pollId - Poll the option belongs to
+ * @param position - Position of the option in the poll's `parts`
+ */
+export async function persistPollOption(
+  option: HnItem,
+  pollId: number,
+  position: number
+): Promise<void> {
+  const data = toPollOptionData(option, pollId, position);
+
+  await prisma.hnPollOption.upsert({
+    where: { id: option.id },
+    create: data,
     update: {
-      text: comment.text ?? null,
-      by: comment.by ?? null,
-      parent: comment.parent ?? null,
-      deleted: comment.deleted ?? false,
-      dead: comment.dead ?? false,
+      text: data.text ?? null,
+      score: data.score ?? null,
+      position,
+      deleted: data.deleted ?? false,
+      dead: data.dead ?? false,
       updatedAt: new Date(),
     },
   });
 }
 
+/**
+ * Fetch the options of a poll as HnPollOption rows
+ *
+ * Options that fail to fetch are logged and skipped, so one bad option does
+ * not fail the whole poll.
+ *
+ * @param poll - Poll item already fetched from the HN API
+ * @returns Poll option rows, in `parts` order
+ */
+async function fetchPollOptionRows(
+  poll: HnItem
+): Promise<Prisma.HnPollOptionCreateManyInput[]> {
+  const options = await Promise.all(
+    (poll.parts ?? []).map(async (id) => {
+      try {
+        return await fetchItem(id);
+      } catch (error) {
+        console.error(`Failed to fetch poll option ${id}:`, error);
+        return null;
+      }
+    })
+  );
+
+  return options.flatMap((option, position) =>
+    option?.type === "pollopt"
+      ? [toPollOptionData(option, poll.id, position)]
+      : []
+  );
+}
+
+/**
+ * Fetch and persist every option of a poll
+ *
+ * Options are always re-persisted so their vote counts stay current.
+ *
+ * @param poll - Poll item already fetched from the HN API
+ * @returns Number of poll options fetched
+ */
+export async function fetchAndPersistPollOptions(
+  poll: HnItem
+): Promise<number> {
+  const rows = await fetchPollOptionRows(poll);
+
+  if (rows.length > 0) {
+    await prisma.$transaction((tx) => upsertPollOptions(tx, rows));
+  }
+
+  return rows.length;
+}
+
+/**
+ * Fetch comment subtrees and persist the comments not yet stored
+ *
+ * All new comments are written in one transaction with bulk inserts;
+ * comments that are already stored are left untouched.
+ *
+ * @param commentIds - IDs of the subtree roots to fetch
+ * @param storyId - Story ID the comments belong to
+ * @param maxCommentDepth - Maximum depth for comment fetching
+ * @param parent - Thread position of the roots' parent: its depth (-1 for
+ * the story) and full `kids` list. Defaults to the story with `commentIds`
+ * as its kids. Null if the parent's position is unknown: the comments are
+ * then stored without depth, rank or parent link, and `maxCommentDepth`
+ * counts from the roots.
+ * @param parent.depth - Depth of the parent (-1 for the story)
+ * @param parent.kids - Full `kids` list of the parent
+ * @returns All comments fetched (including ones already stored); depths are
+ * relative to the roots if the parent's position is unknown
+ */
+export async function fetchAndPersistComments(
+  commentIds: number[],
+  storyId: number,
+  maxCommentDepth?: number,
+  parent: { depth: number; kids: number[] } | null = {
+    depth: -1,
+    kids: commentIds,
+  }
+): Promise<ThreadComment[]> {
+  const comments = await fetchComments(
+    commentIds,
+    (parent?.depth ?? -1) + 1,
+    maxCommentDepth,
+    parent?.kids ?? commentIds
+  );
+
+  if (comments.length > 0) {
+    // Pre-order puts parents before replies, as the bulk insert requires
+    const rows = comments.map((comment) =>
+      toCommentData(comment, storyId, parent !== null ? comment : undefined)
+    );
+    await prisma.$transaction((tx) => insertComments(tx, rows), {
+      timeout: PERSIST_TRANSACTION_TIMEOUT_MS,
+    });
+  }
+
+  return comments;
+}
+
+/**
+ * Persist a fetched story together with its article stub and comment tree
+ *
+ * This is the per-story step shared by `fetchAndPersistStories` and the
+ * historical backfill, so both write exactly the same rows. Jobs and polls go
+ * through the same path; polls also get their options stored.
+ *
+ * The whole tree is fetched first and then written in a single transaction:
+ * the story and its snapshot, the article stub, and the poll options and
+ * comments as bulk inserts of up to `batchSize` rows. A story is therefore
+ * either stored completely or not at all: if any comment fails to fetch,
+ * nothing is written, so the next fetch or backfill run tries it again.
+ *
+ * @param story - Story, job or poll item already fetched from the HN API
+ * @param maxCommentDepth - Maximum depth for comment fetching
+ * @param rank - Front-page rank of the story, if known
+ * @param batchSize - Maximum rows per bulk insert
+ * @returns Comments fetched for the story and the timing of each bulk write
+ * @throws Error if any comment could not be fetched
+ */
+export async function ingestStory(
+  story: HnItem,
+  maxCommentDepth?: number,
+  rank?: number,
+  batchSize: number = DEFAULT_PERSIST_BATCH_SIZE
+): Promise<IngestResult> {
+  const pollOptions =
+    story.type === "poll" ? await fetchPollOptionRows(story) : [];
+
+  if (story.type === "poll") {
+    console.log(`Fetched ${pollOptions.length} options for poll ${story.id}`);
+  }
+
+  const kids = story.kids ?? [];
+
+  if (kids.length > 0) {
+    console.log(
+      `Fetching ${kids.length} top-level comments for story ${story.id}...`
+    );
+  }
+
+  const failedComments: number[] = [];
+  const comments = await fetchComments(
+    kids,
+    0,
+    maxCommentDepth,
+    kids,
+    (commentId) => failedComments.push(commentId)
+  );
+
+  // A stored story is never ingested again, so its thread must be complete
+  if (failedComments.length > 0) {
+    throw new Error(
+      `Failed to fetch ${failedComments.length} comments (${failedComments.join(", ")}); story not stored`
+    );
+  }
+
+  if (kids.length > 0) {
+    console.log(`Fetched ${comments.length} comments for story ${story.id}`);
+  }
+
+  const batches = await prisma.$transaction(
+    async (tx) => {
+      await writeStory(tx, story, rank);
+
+      // Articles are shared by canonical URL; a repost links to the existing one
+      if (story.url !== undefined) {
+        await queueStoryArticles(tx, [{ storyId: story.id, url: story.url }]);
+      }
+
+      const optionBatches = await upsertPollOptions(tx, pollOptions, batchSize);
+
+      // Comments arrive in pre-order, so parents are inserted before replies
+      const commentBatches = await insertComments(
+        tx,
+        comments.map((comment) => toCommentData(comment, story.id, comment)),
+        batchSize
+      );
+
+      return [...optionBatches, ...commentBatches];
+    },
+    { timeout: PERSIST_TRANSACTION_TIMEOUT_MS }
+  );
+
+  for (const batch of batches) {
+    console.log(
+      `  ${batch.table}: ${batch.written}/${batch.rows} rows in ${batch.durationMs}ms`
+    );
+  }
+
+  return { comments, batches };
+}
+
 /**
  * Fetch and persist HN stories and comments
  *
- * @param options - Fetch options (hours or count)
+ * Every call also records the rank of each stored story in the polled list
+ * (see `StoryListRank`).
+ *
+ * Candidates are chosen in a single pass (see `selectStories`): each list
+ * entry is fetched at most once and the fetched item is ingested directly.
+ *
+ * @param options - Fetch options (list source, hours or count, and
+ * selection criteria)
  * @returns Fetch result with statistics
  * @throws Error if the fetch fails
  *
@@ -222,26 +556,48 @@ async function persistComment(comment: HnItem, storyId: number): Promise<void> {
  * @example
  * // Fetch the latest 50 stories
  * const result = await fetchAndPersistStories({ count: 50 });
+ *
+ * @example
+ * // Fetch the current front page
+ * const result = await fetchAndPersistStories({ source: "top", count: 30 });
+ *
+ * @example
+ * // Fetch well-discussed link posts from the last 48 hours
+ * const result = await fetchAndPersistStories({
+ *   hours: 48,
+ *   minComments: 20,
+ *   urlOnly: true,
+ * });
  */
 export async function fetchAndPersistStories(
   options: FetchOptions = {}
 ): Promise<FetchResult> {
-  console.log("Fetching new story IDs from HN API...");
-  const allStoryIds = await fetchNewStories();
+  const source = options.source ?? "new";
+
+  console.log(`Fetching ${source} story IDs from HN API...`);
+  const allStoryIds = await fetchStoryList(source);
+  const observedAt = new Date();
 
-  console.log(`Found ${allStoryIds.length} story IDs. Filtering...`);
-  const storyIds = await filterStoryIds(allStoryIds, options);
+  console.log(`Found ${allStoryIds.length} story IDs. Selecting...`);
+  const selection = await selectStories(allStoryIds, options);
 
-  console.log(`Processing ${storyIds.length} stories...`);
+  console.log(
+    `Processing ${selection.stories.length} stories ` +
+      `(${selection.scanned} scanned, ${selection.rejected} rejected)...`
+  );
 
   const result: FetchResult = {
     stories: [],
     comments: [],
     skipped: 0,
+    rejected: selection.rejected,
     errors: [],
+    batches: [],
   };
 
-  for (const storyId of storyIds) {
+  for (const story of selection.stories) {
+    const storyId = story.id;
+
     try {
       // Check if story already exists
       if (await storyExists(storyId)) {
@@ -250,64 +606,24 @@ export async function fetchAndPersistStories(
         continue;
       }
 
-      // Fetch story
-      const story = await fetchItem(storyId);
+      console.log(
+        `Fetched ${story.type ?? "story"} ${storyId}: ${story.title ?? "Untitled"}`
+      );
 
-      if (story?.type !== "story") {
-        console.log(`Item ${storyId} is not a story, skipping...`);
-        continue;
-      }
+      // Positions in the top list are front-page ranks
+      const rank =
+        source === "top" ? allStoryIds.indexOf(storyId) + 1 : undefined;
 
-      console.log(`Fetched story ${storyId}: ${story.title ?? "Untitled"}`);
+      const { comments, batches } = await ingestStory(
+        story,
+        options.maxCommentDepth,
+        rank,
+        options.batchSize
+      );
 
-      // Persist story
-      await persistStory(story);
       result.stories.push(story);
-
-      // Create ScrapedArticle record if story has a URL
-      if (story.url !== undefined) {
-        // Check if a ScrapedArticle with this URL already exists
-        const existingArticle = await prisma.scrapedArticle.findUnique({
-          where: { url: story.url },
-        });
-
-        // Only create if it doesn't exist
-        if (existingArticle === null) {
-          await prisma.scrapedArticle.create({
-            data: {
-              url: story.url,
-              storyId: story.id,
-              status: "pending",
-            },
-          });
-        }
-      }
-
-      // Fetch and persist comments
-      if (story.kids !== undefined && story.kids.length > 0) {
-        console.log(
-          `Fetching ${story.kids.length} top-level comments for story ${storyId}...`
-        );
-
-        const comments = await fetchComments(
-          story.kids,
-          0,
-          options.maxCommentDepth
-        );
-
-        console.log(`Fetched ${comments.length} comments for story ${storyId}`);
-
-        for (const comment of comments) {
-          // Skip if comment already exists
-          if (await commentExists(comment.id)) {
-            continue;
-          }
-
-          await persistComment(comment, storyId);
-        }
-
-        result.comments.push(...comments);
-      }
+      result.comments.push(...comments);
+      result.batches.push(...batches);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -316,5 +632,8 @@ export async function fetchAndPersistStories(
     }
   }
 
+  const ranked = await recordListRanks(source, allStoryIds, observedAt);
+  console.log(`Recorded ${source} list ranks for ${ranked} stored stories`);
+
   return result;
 }
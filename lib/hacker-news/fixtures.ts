@@ -0,0 +1,328 @@
+/**
+ * Fixture-backed HN sources for offline development
+ *
+ * A fixture directory mirrors the API's path layout, so the same directory
+ * can be read by `loadFixtureSource` or served by any static file server and
+ * read through `createHttpSource`:
+ *
+ *   item/<id>.json        user/<id>.json
+ *   <list>stories.json    maxitem.json    updates.json
+ *   meta.json             ({ "recordedAt": <unix seconds> })
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { STORY_LIST_SOURCES } from "./api";
+import type {
+  HnItem,
+  HnSource,
+  HnUpdates,
+  HnUserProfile,
+  StoryListSource,
+} from "./types";
+
+/**
+ * Recorded HN API data
+ */
+export interface HnFixtures {
+  items: HnItem[];
+  users?: HnUserProfile[];
+
+  /**
+   * Story lists in rank order; missing lists read as empty
+   */
+  lists?: Partial<Record<StoryListSource, number[]>>;
+
+  /**
+   * @default the highest recorded item ID
+   */
+  maxItem?: number;
+  updates?: HnUpdates;
+
+  /**
+   * Unix time (seconds) the data was recorded at
+   */
+  recordedAt?: number;
+}
+
+/**
+ * Options for fixture sources
+ */
+export interface FixtureSourceOptions {
+  /**
+   * Name used in logs
+   * @default "fixtures"
+   */
+  name?: string;
+
+  /**
+   * Unix time (seconds) to replay the recording at. Item times are shifted by
+   * `replayAt - recordedAt`, so time-window filters such as "the last 24
+   * hours" select the same stories they did when the data was recorded.
+   * Ignored if the fixtures have no `recordedAt`.
+   */
+  replayAt?: number;
+}
+
+/**
+ * A source that records everything it reads from another source
+ */
+export interface RecordingSource {
+  source: HnSource;
+
+  /**
+   * Data read so far, ready to pass to `saveFixtures`
+   */
+  fixtures: HnFixtures;
+}
+
+/**
+ * Create a source that serves recorded data from memory
+ *
+ * Unknown items and users read as null, like the live API.
+ *
+ * @param fixtures - Recorded data
+ * @param options - Source options
+ * @returns Fixture-backed source
+ *
+ * @example
+ * setHnSource(
+ *   createFixtureSource({
+ *     items: [{ id: 1, type: "story", time: 1700000000, kids: [2] }],
+ *     lists: { new: [1] },
+ *   })
+ * );
+ */
+export function createFixtureSource(
+  fixtures: HnFixtures,
+  options: FixtureSourceOptions = {}
+): HnSource {
+  const { name = "fixtures", replayAt } = options;
+  const timeOffset =
+    replayAt !== undefined && fixtures.recordedAt !== undefined
+      ? replayAt - fixtures.recordedAt
+      : 0;
+
+  const items = new Map(
+    fixtures.items.map((item) => [
+      item.id,
+      timeOffset !== 0 ? { ...item, time: item.time + timeOffset } : item,
+    ])
+  );
+  const users = new Map((fixtures.users ?? []).map((user) => [user.id, user]));
+  const maxItem =
+    fixtures.maxItem ??
+    fixtures.items.reduce((max, item) => Math.max(max, item.id), 0);
+
+  return {
+    name,
+    getItem: (id) => Promise.resolve(items.get(id) ?? null),
+    getUser: (id) => Promise.resolve(users.get(id) ?? null),
+    getStoryList: (source) =>
+      Promise.resolve([...(fixtures.lists?.[source] ?? [])]),
+    getMaxItem: () => Promise.resolve(maxItem),
+    getUpdates: () =>
+      Promise.resolve(fixtures.updates ?? { items: [], profiles: [] }),
+  };
+}
+
+/**
+ * Read a JSON file, treating a missing file as undefined
+ *
+ * @param path - File path
+ * @returns Parsed JSON, or undefined if the file does not exist
+ */
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read every JSON file in a fixture subdirectory
+ *
+ * @param dir - Subdirectory path
+ * @returns Parsed files; empty if the directory does not exist
+ */
+async function readJsonDir<T>(dir: string): Promise<T[]> {
+  const files = await readdir(dir).catch((error: unknown) => {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  });
+
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readJson<T | null>(join(dir, file)))
+  );
+
+  return records.flatMap((record) =>
+    record === undefined || record === null ? [] : [record]
+  );
+}
+
+/**
+ * Load recorded data from a fixture directory
+ *
+ * @param dir - Fixture directory
+ * @returns Recorded data
+ */
+export async function loadFixtures(dir: string): Promise<HnFixtures> {
+  const [items, users, maxItem, updates, meta, ...lists] = await Promise.all([
+    readJsonDir<HnItem>(join(dir, "item")),
+    readJsonDir<HnUserProfile>(join(dir, "user")),
+    readJson<number>(join(dir, "maxitem.json")),
+    readJson<HnUpdates>(join(dir, "updates.json")),
+    readJson<{ recordedAt?: number }>(join(dir, "meta.json")),
+    ...STORY_LIST_SOURCES.map((list) =>
+      readJson<number[]>(join(dir, `${list}stories.json`))
+    ),
+  ]);
+
+  const recordedLists: Partial<Record<StoryListSource, number[]>> = {};
+  STORY_LIST_SOURCES.forEach((list, index) => {
+    const ids = lists[index];
+    if (ids !== undefined) {
+      recordedLists[list] = ids;
+    }
+  });
+
+  return {
+    items,
+    users,
+    lists: recordedLists,
+    ...(maxItem !== undefined && { maxItem }),
+    ...(updates !== undefined && { updates }),
+    ...(meta?.recordedAt !== undefined && { recordedAt: meta.recordedAt }),
+  };
+}
+
+/**
+ * Create a source that serves a fixture directory
+ *
+ * @param dir - Fixture directory
+ * @param options - Source options
+ * @returns Fixture-backed source
+ *
+ * @example
+ * setHnSource(
+ *   await loadFixtureSource("fixtures/hn", {
+ *     replayAt: Math.floor(Date.now() / 1000),
+ *   })
+ * );
+ */
+export async function loadFixtureSource(
+  dir: string,
+  options: FixtureSourceOptions = {}
+): Promise<HnSource> {
+  return createFixtureSource(await loadFixtures(dir), {
+    name: dir,
+    ...options,
+  });
+}
+
+/**
+ * Write recorded data to a fixture directory
+ *
+ * Existing files for the same items, users and lists are overwritten; other
+ * files are left in place.
+ *
+ * @param dir - Fixture directory
+ * @param fixtures - Recorded data
+ */
+export async function saveFixtures(
+  dir: string,
+  fixtures: HnFixtures
+): Promise<void> {
+  await mkdir(join(dir, "item"), { recursive: true });
+  await mkdir(join(dir, "user"), { recursive: true });
+
+  const writeJson = (path: string, value: unknown): Promise<void> =>
+    writeFile(join(dir, path), `${JSON.stringify(value, null, 2)}\n`);
+
+  await Promise.all([
+    ...fixtures.items.map((item) => writeJson(`item/${item.id}.json`, item)),
+    ...(fixtures.users ?? []).map((user) =>
+      writeJson(`user/${encodeURIComponent(user.id)}.json`, user)
+    ),
+    ...Object.entries(fixtures.lists ?? {}).map(([list, ids]) =>
+      writeJson(`${list}stories.json`, ids)
+    ),
+    ...(fixtures.maxItem !== undefined
+      ? [writeJson("maxitem.json", fixtures.maxItem)]
+      : []),
+    ...(fixtures.updates !== undefined
+      ? [writeJson("updates.json", fixtures.updates)]
+      : []),
+    writeJson("meta.json", {
+      recordedAt: fixtures.recordedAt ?? Math.floor(Date.now() / 1000),
+    }),
+  ]);
+}
+
+/**
+ * Wrap a source so everything read through it is recorded
+ *
+ * @param inner - Source to read from, usually the live API
+ * @returns The recording source and the data recorded so far
+ *
+ * @example
+ * const recorder = createRecordingSource(createHttpSource());
+ * setHnSource(recorder.source);
+ * // ... fetch stories ...
+ * await saveFixtures("fixtures/hn", recorder.fixtures);
+ */
+export function createRecordingSource(inner: HnSource): RecordingSource {
+  const items = new Map<number, HnItem>();
+  const users = new Map<string, HnUserProfile>();
+  const fixtures: HnFixtures = {
+    items: [],
+    users: [],
+    lists: {},
+    recordedAt: Math.floor(Date.now() / 1000),
+  };
+
+  const source: HnSource = {
+    name: `recording ${inner.name}`,
+    getItem: async (id) => {
+      const item = await inner.getItem(id);
+      if (item !== null && !items.has(id)) {
+        items.set(id, item);
+        fixtures.items.push(item);
+      }
+      return item;
+    },
+    getUser: async (id) => {
+      const user = await inner.getUser(id);
+      if (user !== null && !users.has(id)) {
+        users.set(id, user);
+        fixtures.users?.push(user);
+      }
+      return user;
+    },
+    getStoryList: async (list) => {
+      const ids = await inner.getStoryList(list);
+      fixtures.lists = { ...fixtures.lists, [list]: ids };
+      return ids;
+    },
+    getMaxItem: async () => {
+      const maxItem = await inner.getMaxItem();
+      fixtures.maxItem = maxItem;
+      return maxItem;
+    },
+    getUpdates: async () => {
+      const updates = await inner.getUpdates();
+      fixtures.updates = updates;
+      return updates;
+    },
+  };
+
+  return { source, fixtures };
+}
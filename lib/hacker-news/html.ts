@@ -0,0 +1,190 @@
+/**
+ * Decode the HTML that HN returns in `text` fields
+ *
+ * HN text is a small HTML subset: paragraphs are separated by `<p>` (usually
+ * unclosed), links are `<a href>` whose text is the URL (shortened with
+ * "..." when long), emphasis is `<i>`, and code blocks are `<pre><code>`.
+ * Entities such as `&#x27;` and `&#x2F;` are used throughout.
+ */
+
+import * as cheerio from "cheerio";
+import { escapeText } from "../scraping/markdown";
+
+/**
+ * Output format of the renderer
+ */
+type TextFormat = "text" | "markdown";
+
+/**
+ * A cheerio selection of parsed HTML nodes
+ */
+type NodeSelection = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["contents"]
+>;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * Marks where a code block is spliced back in after whitespace is
+ * normalised, so code keeps its own indentation and blank lines
+ */
+const CODE_PLACEHOLDER = "\u0000";
+
+/**
+ * Resolve the target text shown for a link
+ *
+ * HN shortens long URLs in link text to a prefix followed by "...", so the
+ * full URL is used when the text is such a prefix of it.
+ *
+ * @param text - Link text
+ * @param href - Link target
+ * @returns Link text, or the full URL if the text is a shortened copy of it
+ */
+function linkText(text: string, href: string): string {
+  const shortened = text.endsWith("...") ? text.slice(0, -3) : null;
+
+  return shortened !== null && href.startsWith(shortened) ? href : text;
+}
+
+/**
+ * Render the children of a node
+ *
+ * @param $ - Loaded document
+ * @param parent - Node whose children to render
+ * @param format - Output format
+ * @param codeBlocks - Collected code blocks, referenced by placeholder
+ * @returns Rendered children
+ */
+function renderChildren(
+  $: cheerio.CheerioAPI,
+  parent: NodeSelection,
+  format: TextFormat,
+  codeBlocks: string[]
+): string {
+  return parent
+    .contents()
+    .toArray()
+    .map((node) => {
+      if (node.nodeType === TEXT_NODE) {
+        const text = $(node).text().replace(/\s+/g, " ");
+        return format === "markdown" ? escapeText(text) : text;
+      }
+
+      if (node.nodeType !== ELEMENT_NODE) {
+        return "";
+      }
+
+      const element = $(node);
+      const tag = (element.prop("tagName") ?? "").toLowerCase();
+      const inner = (): string =>
+        renderChildren($, element, format, codeBlocks);
+
+      switch (tag) {
+        case "p":
+          return `\n\n${inner()}`;
+        case "br":
+          return "\n";
+        case "pre": {
+          const code = element.text().replace(/\n+$/, "");
+          codeBlocks.push(
+            format === "markdown" ? `\`\`\`\n${code}\n\`\`\`` : code
+          );
+          return `\n\n${CODE_PLACEHOLDER}${codeBlocks.length - 1}${CODE_PLACEHOLDER}\n\n`;
+        }
+        case "a": {
+          const href = element.attr("href");
+          const text = inner().trim();
+
+          if (href === undefined) {
+            return text;
+          }
+
+          // Compare the unescaped text, which is what HN shortens
+          const resolved = linkText(
+            element.text().replace(/\s+/g, " ").trim(),
+            href
+          );
+
+          if (resolved === href) {
+            return format === "markdown" ? `<${href}>` : href;
+          }
+
+          return format === "markdown" ? `[${text}](${href})` : text;
+        }
+        case "i":
+        case "em":
+          return format === "markdown" ? `*${inner()}*` : inner();
+        case "b":
+        case "strong":
+          return format === "markdown" ? `**${inner()}**` : inner();
+        case "code":
+          // Code spans are literal, so their text is not escaped
+          return format === "markdown"
+            ? `\`${element.text().replace(/\s+/g, " ")}\``
+            : inner();
+        default:
+          return inner();
+      }
+    })
+    .join("");
+}
+
+/**
+ * Render HN HTML in the given format with normalised whitespace
+ *
+ * @param html - HTML from the HN API
+ * @param format - Output format
+ * @returns Rendered text, paragraphs separated by blank lines
+ */
+function render(html: string, format: TextFormat): string {
+  const $ = cheerio.load(html, null, false);
+  const codeBlocks: string[] = [];
+
+  return renderChildren($, $.root(), format, codeBlocks)
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .replace(
+      new RegExp(`${CODE_PLACEHOLDER}(\\d+)${CODE_PLACEHOLDER}`, "g"),
+      (_, index: string) => codeBlocks[Number(index)] ?? ""
+    );
+}
+
+/**
+ * Convert HN HTML to plain text
+ *
+ * Entities are decoded, markup is dropped, links are replaced by their full
+ * URL and code blocks are kept verbatim.
+ *
+ * @param html - HTML from the HN API
+ * @returns Plain text with paragraphs separated by blank lines
+ *
+ * @example
+ * htmlToText("It&#x27;s here:<p><a href=\"https://example.com\">https://example.com</a>");
+ * // "It's here:\n\nhttps://example.com"
+ */
+export function htmlToText(html: string): string {
+  return render(html, "text");
+}
+
+/**
+ * Convert HN HTML to markdown
+ *
+ * Links become markdown links (or autolinks when the text is the URL),
+ * `<i>` becomes emphasis and `<pre><code>` becomes a fenced code block.
+ * Markdown syntax characters in the text are backslash-escaped, so literal
+ * `*`, `_` or brackets in a comment do not turn into formatting.
+ *
+ * @param html - HTML from the HN API
+ * @returns Markdown with paragraphs separated by blank lines
+ *
+ * @example
+ * htmlToMarkdown("Try <i>this</i>:<pre><code>  npm install\n</code></pre>");
+ * // "Try *this*:\n\n```\n  npm install\n```"
+ */
+export function htmlToMarkdown(html: string): string {
+  return render(html, "markdown");
+}
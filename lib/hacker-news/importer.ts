@@ -0,0 +1,543 @@
+/**
+ * Offline bulk import from HN dump files
+ *
+ * Supports JSONL files of `HnItem`-shaped records (one item per line, as
+ * returned by the Firebase API) and the CSV layout of the BigQuery
+ * `bigquery-public-data.hacker_news.full` export.
+ */
+
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { prisma } from "../database";
+import { queueStoryArticles } from "../scraping/story-articles";
+import { parseCsvRecords } from "./csv";
+import { toCommentData, toStoryData } from "./fetcher";
+import { isStoryItem } from "./selection";
+import type { HnItem, HnItemType } from "./types";
+
+/**
+ * Supported dump formats
+ */
+export type DumpFormat = "jsonl" | "csv";
+
+/**
+ * Options for importing a dump
+ */
+export interface ImportOptions {
+  /**
+   * Dump format
+   * @default inferred from the file extension (`.csv` or JSONL otherwise)
+   */
+  format?: DumpFormat;
+
+  /**
+   * Number of rows written per `createMany` batch
+   * @default 5000
+   */
+  batchSize?: number;
+
+  /**
+   * Called after every batch with the running totals
+   */
+  onProgress?: (stats: ImportStats) => void;
+}
+
+/**
+ * Statistics about an import
+ */
+export interface ImportStats {
+  recordsRead: number;
+  storiesInserted: number;
+  commentsInserted: number;
+  pollOptionsInserted: number;
+  articlesQueued: number;
+
+  /**
+   * Comments written by this import whose story could not be resolved
+   * through the parent chain
+   */
+  orphanComments: number;
+
+  /**
+   * Records that could not be parsed or have no usable type or time
+   */
+  invalid: number;
+}
+
+const ITEM_TYPES: ReadonlySet<string> = new Set([
+  "story",
+  "comment",
+  "job",
+  "poll",
+  "pollopt",
+]);
+
+/**
+ * Check whether a value is a known HN item type
+ *
+ * @param value - Value to check
+ * @returns True if the value is an HnItemType
+ */
+function isHnItemType(value: unknown): value is HnItemType {
+  return typeof value === "string" && ITEM_TYPES.has(value);
+}
+
+/**
+ * Parse a JSONL line into an item
+ *
+ * @param line - Line from the dump
+ * @returns Item, or null if the line is not a usable item
+ */
+function parseJsonLine(line: string): HnItem | null {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !("id" in value) ||
+    !("time" in value) ||
+    !("type" in value) ||
+    typeof value.id !== "number" ||
+    typeof value.time !== "number" ||
+    !isHnItemType(value.type)
+  ) {
+    return null;
+  }
+
+  return value as HnItem;
+}
+
+/**
+ * Map a BigQuery CSV record to an item
+ *
+ * @param header - Column names from the header record
+ * @param record - Field values
+ * @returns Item, or null if the record is not a usable item
+ */
+function csvRecordToItem(header: string[], record: string[]): HnItem | null {
+  const row = new Map(header.map((name, index) => [name, record[index]]));
+
+  const get = (name: string): string | undefined => {
+    const value = row.get(name);
+    return value === undefined || value === "" ? undefined : value;
+  };
+  const getInt = (name: string): number | undefined => {
+    const value = get(name);
+    const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+  const getBool = (name: string): boolean | undefined => {
+    const value = get(name)?.toLowerCase();
+    return value !== undefined ? value === "true" || value === "1" : undefined;
+  };
+
+  const id = getInt("id");
+  const type = get("type");
+  const timestamp = get("timestamp");
+  const time =
+    getInt("time") ??
+    (timestamp !== undefined
+      ? Math.floor(Date.parse(timestamp) / 1000)
+      : undefined);
+
+  if (
+    id === undefined ||
+    !isHnItemType(type) ||
+    time === undefined ||
+    Number.isNaN(time)
+  ) {
+    return null;
+  }
+
+  const title = get("title");
+  const url = get("url");
+  const text = get("text");
+  const by = get("by");
+  const score = getInt("score");
+  const parent = getInt("parent");
+  const descendants = getInt("descendants");
+  const deleted = getBool("deleted");
+  const dead = getBool("dead");
+
+  return {
+    id,
+    type,
+    time,
+    ...(title !== undefined && { title }),
+    ...(url !== undefined && { url }),
+    ...(text !== undefined && { text }),
+    ...(by !== undefined && { by }),
+    ...(score !== undefined && { score }),
+    ...(parent !== undefined && { parent }),
+    ...(descendants !== undefined && { descendants }),
+    ...(deleted !== undefined && { deleted }),
+    ...(dead !== undefined && { dead }),
+  };
+}
+
+/**
+ * Read items from a dump file
+ *
+ * @param filePath - Path to the dump
+ * @param format - Dump format
+ * @param counts - Counters for records read and invalid records
+ * @param counts.recordsRead - Number of records read
+ * @param counts.invalid - Number of records that are not usable items
+ * @yields Valid items in file order
+ */
+async function* readItems(
+  filePath: string,
+  format: DumpFormat,
+  counts: { recordsRead: number; invalid: number }
+): AsyncGenerator<HnItem> {
+  const stream = createReadStream(filePath, { encoding: "utf8" });
+
+  if (format === "jsonl") {
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (line.trim() === "") {
+        continue;
+      }
+
+      counts.recordsRead++;
+      const item = parseJsonLine(line);
+
+      if (item === null) {
+        counts.invalid++;
+      } else {
+        yield item;
+      }
+    }
+
+    return;
+  }
+
+  let header: string[] | null = null;
+
+  for await (const record of parseCsvRecords(stream)) {
+    if (header === null) {
+      header = record.map((name) => name.trim().toLowerCase());
+      continue;
+    }
+
+    counts.recordsRead++;
+    const item = csvRecordToItem(header, record);
+
+    if (item === null) {
+      counts.invalid++;
+    } else {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Group items into batches
+ *
+ * @param items - Items to group
+ * @param batchSize - Items per batch
+ * @yields Batches of at most `batchSize` items
+ */
+async function* batches<T>(
+  items: AsyncIterable<T>,
+  batchSize: number
+): AsyncGenerator<T[]> {
+  let batch: T[] = [];
+
+  for await (const item of items) {
+    batch.push(item);
+
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Insert a batch of stories, jobs and polls, and queue their articles
+ *
+ * @param stories - Story items
+ * @param stats - Statistics to update
+ */
+async function insertStories(
+  stories: HnItem[],
+  stats: ImportStats
+): Promise<void> {
+  const { count } = await prisma.hnStory.createMany({
+    data: stories.map(toStoryData),
+    skipDuplicates: true,
+  });
+  stats.storiesInserted += count;
+
+  const storyUrls = stories.flatMap((story) =>
+    story.url !== undefined && story.deleted !== true
+      ? [{ storyId: story.id, url: story.url }]
+      : []
+  );
+
+  stats.articlesQueued += await queueStoryArticles(prisma, storyUrls);
+}
+
+/**
+ * Insert a batch of comments without their thread position
+ *
+ * Story, depth and parent comment are filled in by `resolveCommentThreads`
+ * once every comment is stored, so the dump's order does not matter.
+ *
+ * @param comments - Comment items
+ * @param stats - Statistics to update
+ * @returns IDs of the comments inserted; comments already stored are skipped
+ */
+async function insertComments(
+  comments: HnItem[],
+  stats: ImportStats
+): Promise<number[]> {
+  const inserted = await prisma.hnComment.createManyAndReturn({
+    data: comments.map((comment) => toCommentData(comment, null)),
+    skipDuplicates: true,
+    select: { id: true },
+  });
+  stats.commentsInserted += inserted.length;
+
+  return inserted.map((comment) => comment.id);
+}
+
+/**
+ * Resolve the comments of one batch that hang directly off a stored story
+ * or a stored comment with a known depth
+ *
+ * @param ids - Unresolved comment IDs
+ * @param againstStories - Resolve top-level comments instead of replies
+ * @returns IDs of the comments resolved
+ */
+async function resolveThreadLevel(
+  ids: number[],
+  againstStories: boolean
+): Promise<Set<number>> {
+  const rows = againstStories
+    ? await prisma.$queryRaw<Array<{ id: number }>>`
+        UPDATE "HnComment" AS c
+        SET "storyId" = s.id, depth = 0, "parentCommentId" = NULL
+        FROM "HnStory" AS s
+        WHERE c.id = ANY(${ids}::int[]) AND c.depth IS NULL AND c.parent = s.id
+        RETURNING c.id
+      `
+    : await prisma.$queryRaw<Array<{ id: number }>>`
+        UPDATE "HnComment" AS c
+        SET
+          "storyId" = p."storyId", depth = p.depth + 1, "parentCommentId" = p.id
+        FROM "HnComment" AS p
+        WHERE c.id = ANY(${ids}::int[]) AND c.depth IS NULL AND c.parent = p.id
+          AND p.depth IS NOT NULL
+        RETURNING c.id
+      `;
+
+  return new Set(rows.map((row) => row.id));
+}
+
+/**
+ * Link the comments an import wrote to their story, one thread level at a
+ * time
+ *
+ * Top-level comments are resolved against stored stories first; each
+ * following level resolves the replies of comments resolved so far, until
+ * a level resolves nothing. Only the given comments are scanned, one
+ * statement per insert batch, and resolved ones drop out of later levels.
+ * Sibling rank is not part of the dumps; refreshes and syncs fill it in.
+ *
+ * @param insertedBatches - IDs of the comments inserted, per insert batch
+ * @returns Number of those comments that are still without a story
+ */
+async function resolveCommentThreads(
+  insertedBatches: number[][]
+): Promise<number> {
+  let pending = insertedBatches.filter((ids) => ids.length > 0);
+  let againstStories = true;
+
+  while (pending.length > 0) {
+    let resolvedCount = 0;
+    const remaining: number[][] = [];
+
+    for (const ids of pending) {
+      const resolved = await resolveThreadLevel(ids, againstStories);
+      resolvedCount += resolved.size;
+
+      const unresolved = ids.filter((id) => !resolved.has(id));
+      if (unresolved.length > 0) {
+        remaining.push(unresolved);
+      }
+    }
+
+    pending = remaining;
+
+    // The story level may resolve nothing while replies of stored comments
+    // still can be
+    if (resolvedCount === 0 && !againstStories) {
+      break;
+    }
+    againstStories = false;
+  }
+
+  return pending.reduce((total, ids) => total + ids.length, 0);
+}
+
+/**
+ * Insert poll options for polls that are stored
+ *
+ * Positions come from the poll's `parts` when the dump has them, and
+ * otherwise from the option's ID order within its poll.
+ *
+ * @param optionsByPoll - Poll option items grouped by poll ID
+ * @param pollParts - Option ID to position, from polls with `parts`
+ * @param stats - Statistics to update
+ */
+async function insertPollOptions(
+  optionsByPoll: Map<number, HnItem[]>,
+  pollParts: Map<number, number>,
+  stats: ImportStats
+): Promise<void> {
+  const polls = await prisma.hnStory.findMany({
+    where: { id: { in: [...optionsByPoll.keys()] } },
+    select: { id: true },
+  });
+
+  const data = polls.flatMap(({ id: pollId }) =>
+    (optionsByPoll.get(pollId) ?? [])
+      .sort((a, b) => a.id - b.id)
+      .map((option, index) => ({
+        id: option.id,
+        text: option.text ?? null,
+        score: option.score ?? null,
+        by: option.by ?? null,
+        time: option.time,
+        position: pollParts.get(option.id) ?? index,
+        pollId,
+        deleted: option.deleted ?? false,
+        dead: option.dead ?? false,
+      }))
+  );
+
+  if (data.length > 0) {
+    const { count } = await prisma.hnPollOption.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    stats.pollOptionsInserted += count;
+  }
+}
+
+/**
+ * Import an HN dump file into the database
+ *
+ * The file is read twice: the first pass inserts stories, jobs and polls
+ * (queueing their URLs for scraping), the second inserts comments and poll
+ * options. Comments are then linked to their story through the parent
+ * chain in the database, a thread level at a time, so the dump can be in
+ * any order; comments whose parent never appears stay without a story.
+ * Only comments this import wrote are linked.
+ *
+ * Rows are written with `createMany` and existing rows are left untouched,
+ * so re-running an import, or importing over live-crawled data, is safe.
+ * Imports do not record story snapshots.
+ *
+ * @param filePath - Path to the dump file
+ * @param options - Import options
+ * @returns Import statistics
+ *
+ * @example
+ * const stats = await importDump("data/hn-2023.jsonl", { batchSize: 10000 });
+ * console.log(`${stats.storiesInserted} stories imported`);
+ */
+export async function importDump(
+  filePath: string,
+  options: ImportOptions = {}
+): Promise<ImportStats> {
+  const {
+    format = filePath.toLowerCase().endsWith(".csv") ? "csv" : "jsonl",
+    batchSize = 5000,
+    onProgress,
+  } = options;
+
+  const stats: ImportStats = {
+    recordsRead: 0,
+    storiesInserted: 0,
+    commentsInserted: 0,
+    pollOptionsInserted: 0,
+    articlesQueued: 0,
+    orphanComments: 0,
+    invalid: 0,
+  };
+
+  // Option ID to position, from polls that list their `parts`
+  const pollParts = new Map<number, number>();
+
+  // Pass 1: stories, jobs and polls
+  for await (const batch of batches(
+    readItems(filePath, format, stats),
+    batchSize
+  )) {
+    const stories = batch.filter(isStoryItem);
+
+    for (const poll of stories) {
+      poll.parts?.forEach((optionId, position) => {
+        pollParts.set(optionId, position);
+      });
+    }
+
+    if (stories.length > 0) {
+      await insertStories(stories, stats);
+      onProgress?.({ ...stats });
+    }
+  }
+
+  // Pass 2: comments and poll options (records were counted in pass 1)
+  const optionsByPoll = new Map<number, HnItem[]>();
+  const insertedComments: number[][] = [];
+
+  for await (const batch of batches(
+    readItems(filePath, format, { recordsRead: 0, invalid: 0 }),
+    batchSize
+  )) {
+    for (const option of batch.filter((item) => item.type === "pollopt")) {
+      const pollId = option.poll ?? option.parent;
+
+      if (pollId !== undefined) {
+        optionsByPoll.set(pollId, [
+          ...(optionsByPoll.get(pollId) ?? []),
+          option,
+        ]);
+      }
+    }
+
+    const comments = batch.filter((item) => item.type === "comment");
+
+    if (comments.length > 0) {
+      insertedComments.push(await insertComments(comments, stats));
+      onProgress?.({ ...stats });
+    }
+  }
+
+  if (stats.commentsInserted > 0) {
+    stats.orphanComments = await resolveCommentThreads(insertedComments);
+  }
+
+  if (optionsByPoll.size > 0) {
+    await insertPollOptions(optionsByPoll, pollParts, stats);
+  }
+
+  onProgress?.({ ...stats });
+
+  return stats;
+}
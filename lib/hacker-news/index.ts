@@ -4,4 +4,17 @@
 
 export * from "./types";
 export * from "./api";
+export * from "./fixtures";
 export * from "./fetcher";
+export * from "./selection";
+export * from "./bulk";
+export * from "./comments";
+export * from "./html";
+export * from "./text-backfill";
+export * from "./backfill";
+export * from "./refresher";
+export * from "./sync";
+export * from "./importer";
+export * from "./snapshots";
+export * from "./rankings";
+export * from "./users";
@@ -0,0 +1,178 @@
+/**
+ * Story list membership and rank history
+ */
+
+import { prisma } from "../database";
+import type { StoryListSource } from "./types";
+
+/**
+ * Options for querying rank history
+ */
+export interface RankHistoryOptions {
+  /**
+   * Story list to query
+   */
+  list: StoryListSource;
+
+  /**
+   * Only count observations at or above this rank (1 = top of the list)
+   */
+  maxRank: number;
+
+  /**
+   * Start of the time range
+   */
+  since: Date;
+
+  /**
+   * End of the time range
+   * @default now
+   */
+  until?: Date;
+
+  /**
+   * Longest gap between two polls that still counts as continuous presence.
+   * Longer gaps are capped so a missed poll does not inflate durations.
+   * @default 60
+   */
+  maxPollGapMinutes?: number;
+}
+
+/**
+ * A story's presence at or above a rank during the queried range
+ */
+export interface RankStint {
+  storyId: number;
+  title: string | null;
+  bestRank: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+
+  /**
+   * Number of polls that saw the story at or above the rank
+   */
+  observations: number;
+
+  /**
+   * Estimated time spent at or above the rank, in milliseconds
+   */
+  durationMs: number;
+}
+
+/**
+ * Record the rank of every stored story in a polled list
+ *
+ * Stories that are not in the database (e.g. not selected by the fetch) are
+ * not recorded.
+ *
+ * @param list - Story list that was polled
+ * @param storyIds - Story IDs in list order
+ * @param observedAt - When the list was polled
+ * @returns Number of ranks recorded
+ */
+export async function recordListRanks(
+  list: StoryListSource,
+  storyIds: number[],
+  observedAt: Date
+): Promise<number> {
+  const stored = await prisma.hnStory.findMany({
+    where: { id: { in: storyIds } },
+    select: { id: true },
+  });
+  const storedIds = new Set(stored.map((story) => story.id));
+
+  const data = storyIds.flatMap((storyId, index) =>
+    storedIds.has(storyId)
+      ? [{ list, rank: index + 1, observedAt, storyId }]
+      : []
+  );
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.storyListRank.createMany({ data });
+  return count;
+}
+
+/**
+ * Get the stories that reached a rank in a list, and how long they stayed
+ *
+ * Durations are estimated from consecutive polls: a story seen at or above
+ * the rank in one poll is credited with the time until the next poll.
+ *
+ * @param options - Rank history options
+ * @returns Stints ordered by duration (longest first)
+ *
+ * @example
+ * // Which stories hit #1 on the front page this week, and for how long
+ * const stints = await getRankHistory({
+ *   list: "top",
+ *   maxRank: 1,
+ *   since: new Date(Date.now() - 7 * 24 * 3600 * 1000),
+ * });
+ */
+export async function getRankHistory(
+  options: RankHistoryOptions
+): Promise<RankStint[]> {
+  const { list, maxRank, since, until = new Date() } = options;
+  const maxGapMs = (options.maxPollGapMinutes ?? 60) * 60 * 1000;
+  const range = { gte: since, lte: until };
+
+  const [polls, rows] = await Promise.all([
+    prisma.storyListRank.findMany({
+      where: { list, observedAt: range },
+      distinct: ["observedAt"],
+      select: { observedAt: true },
+      orderBy: { observedAt: "asc" },
+    }),
+    prisma.storyListRank.findMany({
+      where: { list, observedAt: range, rank: { lte: maxRank } },
+      select: {
+        storyId: true,
+        rank: true,
+        observedAt: true,
+        story: { select: { title: true } },
+      },
+      orderBy: { observedAt: "asc" },
+    }),
+  ]);
+
+  // Time credited to an observation made at each poll
+  const creditByPoll = new Map<number, number>();
+
+  polls.forEach((poll, index) => {
+    const next = polls[index + 1];
+    const gap =
+      next !== undefined
+        ? next.observedAt.getTime() - poll.observedAt.getTime()
+        : 0;
+    creditByPoll.set(poll.observedAt.getTime(), Math.min(gap, maxGapMs));
+  });
+
+  const stints = new Map<number, RankStint>();
+
+  for (const row of rows) {
+    const credit = creditByPoll.get(row.observedAt.getTime()) ?? 0;
+    const stint = stints.get(row.storyId);
+
+    if (stint === undefined) {
+      stints.set(row.storyId, {
+        storyId: row.storyId,
+        title: row.story.title,
+        bestRank: row.rank,
+        firstSeenAt: row.observedAt,
+        lastSeenAt: row.observedAt,
+        observations: 1,
+        durationMs: credit,
+      });
+    } else {
+      stint.bestRank = Math.min(stint.bestRank, row.rank);
+      stint.lastSeenAt = row.observedAt;
+      stint.observations++;
+      stint.durationMs += credit;
+    }
+  }
+
+  return [...stints.values()].sort((a, b) => b.durationMs - a.durationMs);
+}
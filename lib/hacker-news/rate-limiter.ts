@@ -0,0 +1,130 @@
+/**
+ * Request limiter combining a concurrency pool with a token-bucket rate limit
+ */
+
+/**
+ * Request limiter options
+ */
+export interface RequestLimiterOptions {
+  /**
+   * Maximum number of requests in flight at once
+   */
+  concurrency: number;
+
+  /**
+   * Sustained number of requests started per second
+   */
+  requestsPerSecond: number;
+
+  /**
+   * Maximum number of requests that may start back to back after an idle
+   * period
+   * @default requestsPerSecond
+   */
+  burst?: number;
+}
+
+/**
+ * Shared limiter that every request is scheduled through
+ */
+export interface RequestLimiter {
+  /**
+   * Run a request once both a concurrency slot and a rate token are free
+   */
+  schedule<TResult>(fn: () => Promise<TResult>): Promise<TResult>;
+}
+
+/**
+ * Delay execution for a specified number of milliseconds
+ *
+ * @param ms - Milliseconds to delay
+ * @returns Promise that resolves after the delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a request limiter
+ *
+ * Requests wait for a free concurrency slot first and then for a token from
+ * the bucket, which refills continuously at `requestsPerSecond`. Waiting
+ * requests are served in FIFO order.
+ *
+ * @param options - Limiter options
+ * @returns Request limiter
+ *
+ * @example
+ * const limiter = createRequestLimiter({ concurrency: 10, requestsPerSecond: 20 });
+ * const data = await limiter.schedule(() => fetch(url).then((r) => r.json()));
+ */
+export function createRequestLimiter(
+  options: RequestLimiterOptions
+): RequestLimiter {
+  const concurrency = Math.max(1, options.concurrency);
+  const rate = Math.max(options.requestsPerSecond, Number.MIN_VALUE);
+  const capacity = Math.max(1, options.burst ?? options.requestsPerSecond);
+
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Serialises token acquisition so waiters are served in order
+  let tokenQueue: Promise<void> = Promise.resolve();
+
+  const refill = (): void => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * rate);
+    lastRefill = now;
+  };
+
+  const takeToken = (): Promise<void> => {
+    const next = tokenQueue.then(async () => {
+      refill();
+
+      if (tokens < 1) {
+        await delay(Math.ceil(((1 - tokens) / rate) * 1000));
+        refill();
+      }
+
+      tokens -= 1;
+    });
+
+    tokenQueue = next;
+    return next;
+  };
+
+  const acquireSlot = async (): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+
+    // The releasing request hands its slot over directly
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const releaseSlot = (): void => {
+    const next = waiting.shift();
+
+    if (next !== undefined) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    async schedule<TResult>(fn: () => Promise<TResult>): Promise<TResult> {
+      await acquireSlot();
+
+      try {
+        await takeToken();
+        return await fn();
+      } finally {
+        releaseSlot();
+      }
+    },
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * Live refresh of stored stories and comments via the HN updates feed
+ */
+
+import { prisma } from "../database";
+import { fetchItem, fetchUpdates } from "./api";
+import {
+  fetchAndPersistComments,
+  fetchAndPersistPollOptions,
+  persistComment,
+  persistPollOption,
+  persistStory,
+  updateSiblingRanks,
+} from "./fetcher";
+import type { HnItem } from "./types";
+
+/**
+ * Result of a single refresh pass
+ */
+export interface RefreshResult {
+  /**
+   * Number of item IDs reported by the updates feed
+   */
+  updatedItems: number;
+  storiesUpdated: number;
+  commentsUpdated: number;
+  commentsAdded: number;
+
+  /**
+   * Poll options re-persisted with their current vote counts
+   */
+  pollOptionsUpdated: number;
+
+  /**
+   * Changed items that do not belong to any tracked story
+   */
+  ignored: number;
+  errors: Array<{ id: number; error: string }>;
+}
+
+/**
+ * Options for refreshing updated items
+ */
+export interface RefreshOptions {
+  /**
+   * Maximum thread depth for fetching newly discovered comment subtrees
+   * @default Infinity (fetch all comments)
+   */
+  maxCommentDepth?: number;
+}
+
+/**
+ * Fetch items by ID in parallel, recording failures
+ *
+ * @param ids - Item IDs to fetch
+ * @param errors - Error list to append failures to
+ * @returns Map of item ID to item (missing and failed items are omitted)
+ */
+async function fetchItemMap(
+  ids: number[],
+  errors: RefreshResult["errors"]
+): Promise<Map<number, HnItem>> {
+  const items = new Map<number, HnItem>();
+
+  await Promise.all(
+    ids.map(async (id) => {
+      try {
+        const item = await fetchItem(id);
+
+        if (item !== null) {
+          items.set(id, item);
+        }
+      } catch (error) {
+        errors.push({
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })
+  );
+
+  return items;
+}
+
+/**
+ * Find the IDs among `kids` that are not stored as comments yet
+ *
+ * @param kids - Child item IDs reported by the API
+ * @returns IDs of children that are not in the database
+ */
+async function findNewKids(kids: number[] | undefined): Promise<number[]> {
+  if (kids === undefined || kids.length === 0) {
+    return [];
+  }
+
+  const existing = await prisma.hnComment.findMany({
+    where: { id: { in: kids } },
+    select: { id: true },
+  });
+  const existingIds = new Set(existing.map((comment) => comment.id));
+
+  return kids.filter((id) => !existingIds.has(id));
+}
+
+/**
+ * Refresh every tracked item reported by the HN updates feed
+ *
+ * Stories and comments already in the database are re-persisted with their
+ * current score, text and deleted/dead state. New replies on tracked threads
+ * (including changed comments we have not stored yet whose parent is
+ * tracked) are fetched with their subtrees and attached to the story.
+ * Changed polls have all their options re-fetched, and changed options of
+ * tracked polls are updated, so vote counts stay current. Sibling ranks of
+ * stored replies are re-synced with each changed parent's `kids` order.
+ *
+ * @param options - Refresh options
+ * @returns Statistics about the refresh pass
+ *
+ * @example
+ * const result = await refreshUpdatedItems();
+ * console.log(`Updated ${result.storiesUpdated} stories`);
+ */
+export async function refreshUpdatedItems(
+  options: RefreshOptions = {}
+): Promise<RefreshResult> {
+  const { maxCommentDepth } = options;
+  const updates = await fetchUpdates();
+  const ids = updates.items;
+
+  const result: RefreshResult = {
+    updatedItems: ids.length,
+    storiesUpdated: 0,
+    commentsUpdated: 0,
+    commentsAdded: 0,
+    pollOptionsUpdated: 0,
+    ignored: 0,
+    errors: [],
+  };
+
+  if (ids.length === 0) {
+    return result;
+  }
+
+  const items = await fetchItemMap(ids, result.errors);
+
+  // Resolve which story each changed item belongs to. Untracked comments are
+  // resolved through their parent, which may itself be a tracked comment.
+  const parentIds = [...items.values()]
+    .map((item) => item.parent)
+    .filter((parent): parent is number => parent !== undefined);
+  const candidateIds = [...new Set([...ids, ...parentIds])];
+
+  const [trackedStories, trackedComments, trackedOptions] = await Promise.all([
+    prisma.hnStory.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true },
+    }),
+    prisma.hnComment.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true, storyId: true, depth: true },
+    }),
+    prisma.hnPollOption.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, pollId: true, position: true },
+    }),
+  ]);
+
+  const storyIds = new Set(trackedStories.map((story) => story.id));
+  const commentStoryIds = new Map(
+    trackedComments.map((comment) => [comment.id, comment.storyId])
+  );
+  const commentDepths = new Map(
+    trackedComments.map((comment) => [comment.id, comment.depth])
+  );
+  const pollOptions = new Map(
+    trackedOptions.map((option) => [option.id, option])
+  );
+
+  const resolveStoryId = (id: number): number | null => {
+    if (storyIds.has(id)) {
+      return id;
+    }
+
+    return commentStoryIds.get(id) ?? null;
+  };
+
+  const findStoryId = (item: HnItem): number | null => {
+    if (storyIds.has(item.id)) {
+      return item.id;
+    }
+
+    if (item.type !== "comment") {
+      return null;
+    }
+
+    return (
+      commentStoryIds.get(item.id) ??
+      (item.parent !== undefined ? resolveStoryId(item.parent) : null)
+    );
+  };
+
+  // Thread depth of a tracked item: -1 for a story, null if unknown
+  const findDepth = (id: number): number | null =>
+    storyIds.has(id) ? -1 : (commentDepths.get(id) ?? null);
+
+  // Kids lists of refreshed parents, re-ranked once every item is stored
+  const kidLists: number[][] = [];
+
+  for (const item of items.values()) {
+    const pollOption = pollOptions.get(item.id);
+
+    if (pollOption !== undefined) {
+      try {
+        await persistPollOption(item, pollOption.pollId, pollOption.position);
+        result.pollOptionsUpdated++;
+      } catch (error) {
+        result.errors.push({
+          id: item.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      continue;
+    }
+
+    const storyId = findStoryId(item);
+
+    if (storyId === null) {
+      result.ignored++;
+      continue;
+    }
+
+    try {
+      let depth: number | null;
+
+      if (storyId === item.id) {
+        await persistStory(item);
+        result.storiesUpdated++;
+        depth = -1;
+
+        if (item.type === "poll") {
+          result.pollOptionsUpdated += await fetchAndPersistPollOptions(item);
+        }
+      } else if (commentStoryIds.has(item.id)) {
+        await persistComment(item, storyId);
+        result.commentsUpdated++;
+        depth = findDepth(item.id);
+      } else {
+        const parentDepth =
+          item.parent !== undefined ? findDepth(item.parent) : null;
+        depth = parentDepth !== null ? parentDepth + 1 : null;
+
+        await persistComment(
+          item,
+          storyId,
+          depth !== null ? { depth, rank: null } : undefined
+        );
+        result.commentsAdded++;
+      }
+
+      const kids = item.kids ?? [];
+      kidLists.push(kids);
+
+      // Pick up replies posted since the thread was last fetched
+      const newKids = await findNewKids(kids);
+
+      if (newKids.length > 0) {
+        // Without the item's depth the replies' positions are unknown too;
+        // they are stored without one rather than as top-level comments
+        const added = await fetchAndPersistComments(
+          newKids,
+          storyId,
+          maxCommentDepth,
+          depth !== null ? { depth, kids } : null
+        );
+        result.commentsAdded += added.length;
+      }
+    } catch (error) {
+      result.errors.push({
+        id: item.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const kids of kidLists) {
+    try {
+      await updateSiblingRanks(kids);
+    } catch (error) {
+      console.error("Failed to update sibling ranks:", error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,210 @@
+/**
+ * Story selection: decide which IDs from an HN list to ingest
+ *
+ * Each candidate is fetched once, through a request-scoped cache, and the
+ * fetched item is handed on to ingestion instead of being fetched again.
+ */
+
+import { fetchItem } from "./api";
+import type { FetchOptions, HnItem, HnItemType } from "./types";
+
+/**
+ * Item types stored as HnStory rows (told apart by `HnStory.type`)
+ */
+const STORY_ITEM_TYPES: ReadonlySet<HnItemType | undefined> = new Set([
+  "story",
+  "job",
+  "poll",
+]);
+
+/**
+ * Number of candidates fetched in parallel while scanning a list. On the
+ * "new" list the scan may stop inside a chunk, so at most this many items
+ * are fetched past the cutoff.
+ */
+const SELECTION_CHUNK_SIZE = 10;
+
+/**
+ * Items fetched during one request, keyed by ID
+ */
+export interface ItemCache {
+  /**
+   * Fetch an item, or return the copy fetched earlier in this request
+   *
+   * @param id - HN item ID
+   * @returns Item data or null if not found
+   */
+  get(id: number): Promise<HnItem | null>;
+
+  /**
+   * Number of distinct items requested so far
+   */
+  readonly size: number;
+}
+
+/**
+ * Result of selecting stories from a list
+ */
+export interface StorySelection {
+  /**
+   * Selected stories, in list order
+   */
+  stories: HnItem[];
+
+  /**
+   * Candidates fetched and checked
+   */
+  scanned: number;
+
+  /**
+   * Candidates that were not stories or did not meet the criteria
+   */
+  rejected: number;
+}
+
+/**
+ * Check whether an item is a top-level post (story, job or poll)
+ *
+ * @param item - Item from the HN API
+ * @returns True if the item should be stored as an HnStory
+ */
+export function isStoryItem(item: HnItem): boolean {
+  return STORY_ITEM_TYPES.has(item.type);
+}
+
+/**
+ * Create a cache for the items fetched during one request
+ *
+ * Concurrent requests for the same ID share one API call. A failed fetch is
+ * not cached, so it can be retried.
+ *
+ * @returns Empty item cache
+ *
+ * @example
+ * const cache = createItemCache();
+ * const story = await cache.get(8863); // fetched
+ * await cache.get(8863); // served from the cache
+ */
+export function createItemCache(): ItemCache {
+  const items = new Map<number, Promise<HnItem | null>>();
+
+  return {
+    get(id: number): Promise<HnItem | null> {
+      const cached = items.get(id);
+
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const pending = fetchItem(id);
+      items.set(id, pending);
+      pending.catch(() => items.delete(id));
+
+      return pending;
+    },
+    get size(): number {
+      return items.size;
+    },
+  };
+}
+
+/**
+ * Check a story against the score, comment and URL criteria
+ *
+ * @param story - Story item
+ * @param options - Selection criteria
+ * @returns True if the story meets every criterion that is set
+ */
+function meetsCriteria(story: HnItem, options: FetchOptions): boolean {
+  if (options.minScore !== undefined && (story.score ?? 0) < options.minScore) {
+    return false;
+  }
+
+  if (
+    options.minComments !== undefined &&
+    (story.descendants ?? 0) < options.minComments
+  ) {
+    return false;
+  }
+
+  if (options.urlOnly === true && story.url === undefined) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Select the stories to ingest from a list of IDs
+ *
+ * Candidates are scanned in list order. With `count`, the first `count`
+ * stories meeting the criteria are selected. Otherwise stories posted within
+ * the last `hours` (default 24) are selected; on the "new" list, which is
+ * ordered by recency, the scan stops at the first story older than that.
+ * Candidates that fail to fetch are logged and skipped.
+ *
+ * @param storyIds - Story IDs in list order
+ * @param options - Fetch options: list source, window or count, and criteria
+ * @param cache - Item cache for this request
+ * @returns Selected stories and scan statistics
+ */
+export async function selectStories(
+  storyIds: number[],
+  options: FetchOptions,
+  cache: ItemCache = createItemCache()
+): Promise<StorySelection> {
+  const stopAtCutoff = (options.source ?? "new") === "new";
+  const cutoffTime =
+    options.count === undefined
+      ? Math.floor(Date.now() / 1000) - (options.hours ?? 24) * 3600
+      : null;
+
+  const selection: StorySelection = { stories: [], scanned: 0, rejected: 0 };
+
+  if (options.count !== undefined && options.count <= 0) {
+    return selection;
+  }
+
+  for (let i = 0; i < storyIds.length; i += SELECTION_CHUNK_SIZE) {
+    const chunk = storyIds.slice(i, i + SELECTION_CHUNK_SIZE);
+    const items = await Promise.all(
+      chunk.map(async (storyId) => {
+        try {
+          return await cache.get(storyId);
+        } catch (error) {
+          console.error(`Failed to fetch candidate story ${storyId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    for (const item of items) {
+      selection.scanned++;
+
+      if (item === null || !isStoryItem(item)) {
+        selection.rejected++;
+        continue;
+      }
+
+      if (cutoffTime !== null && item.time < cutoffTime) {
+        if (stopAtCutoff) {
+          return selection;
+        }
+        continue;
+      }
+
+      if (!meetsCriteria(item, options)) {
+        selection.rejected++;
+        continue;
+      }
+
+      selection.stories.push(item);
+
+      if (selection.stories.length === options.count) {
+        return selection;
+      }
+    }
+  }
+
+  return selection;
+}
@@ -0,0 +1,268 @@
+/**
+ * Story score and comment-count trajectories built from StorySnapshot rows
+ */
+
+import { prisma } from "../database";
+
+/**
+ * Window (hours after posting) used to measure early growth
+ */
+export const EARLY_GROWTH_HOURS = 6;
+
+/**
+ * A single observation on a story's trajectory
+ */
+export interface TrajectoryPoint {
+  observedAt: Date;
+
+  /**
+   * Hours between posting and this observation
+   */
+  ageHours: number;
+  score: number | null;
+  descendants: number | null;
+  rank: number | null;
+
+  /**
+   * Points gained per hour since the previous observation
+   */
+  scorePerHour: number | null;
+
+  /**
+   * Comments gained per hour since the previous observation
+   */
+  commentsPerHour: number | null;
+}
+
+/**
+ * Summary of how fast a story grew
+ */
+export interface StoryGrowth {
+  /**
+   * Average points per hour over the first `EARLY_GROWTH_HOURS` hours,
+   * taken from the last observation inside that window (or the first
+   * observation after it if there is none). Fast risers score high here.
+   */
+  earlyScorePerHour: number | null;
+
+  /**
+   * Average comments per hour over the same early window
+   */
+  earlyCommentsPerHour: number | null;
+
+  /**
+   * Average points per hour over the story's whole observed life
+   */
+  lifetimeScorePerHour: number | null;
+
+  /**
+   * Best (lowest) front-page rank observed
+   */
+  peakRank: number | null;
+}
+
+/**
+ * Full trajectory of a story
+ */
+export interface StoryTrajectory {
+  storyId: number;
+  postedAt: Date;
+  points: TrajectoryPoint[];
+  growth: StoryGrowth;
+}
+
+/**
+ * Snapshot fields needed to compute a trajectory
+ */
+interface SnapshotRow {
+  observedAt: Date;
+  score: number | null;
+  descendants: number | null;
+  rank: number | null;
+}
+
+/**
+ * Compute a per-hour rate, guarding against missing values and zero spans
+ *
+ * @param delta - Change in value, or null if unknown
+ * @param hours - Elapsed hours
+ * @returns Rate per hour, or null if it cannot be computed
+ */
+function perHour(delta: number | null, hours: number): number | null {
+  if (delta === null || hours <= 0) {
+    return null;
+  }
+
+  return delta / hours;
+}
+
+/**
+ * Compute the age of an observation in hours since the story was posted
+ *
+ * @param postedTime - Story posting time (Unix seconds)
+ * @param observedAt - Observation time
+ * @returns Age in hours
+ */
+function ageInHours(postedTime: number, observedAt: Date): number {
+  return (observedAt.getTime() / 1000 - postedTime) / 3600;
+}
+
+/**
+ * Summarise growth from a story's snapshots
+ *
+ * @param postedTime - Story posting time (Unix seconds)
+ * @param snapshots - Snapshots ordered by observation time
+ * @returns Growth summary
+ */
+function summariseGrowth(
+  postedTime: number,
+  snapshots: SnapshotRow[]
+): StoryGrowth {
+  const inWindow = snapshots.filter(
+    (snapshot) =>
+      ageInHours(postedTime, snapshot.observedAt) <= EARLY_GROWTH_HOURS
+  );
+  const early = inWindow.at(-1) ?? snapshots[0];
+  const latest = snapshots.at(-1);
+
+  const ranks = snapshots
+    .map((snapshot) => snapshot.rank)
+    .filter((rank): rank is number => rank !== null);
+
+  if (early === undefined || latest === undefined) {
+    return {
+      earlyScorePerHour: null,
+      earlyCommentsPerHour: null,
+      lifetimeScorePerHour: null,
+      peakRank: null,
+    };
+  }
+
+  const earlyAge = ageInHours(postedTime, early.observedAt);
+  const latestAge = ageInHours(postedTime, latest.observedAt);
+
+  return {
+    earlyScorePerHour: perHour(early.score, earlyAge),
+    earlyCommentsPerHour: perHour(early.descendants, earlyAge),
+    lifetimeScorePerHour: perHour(latest.score, latestAge),
+    peakRank: ranks.length > 0 ? Math.min(...ranks) : null,
+  };
+}
+
+/**
+ * Get the score and comment-count trajectory of a story
+ *
+ * @param storyId - Story ID
+ * @returns Trajectory, or null if the story is not stored
+ *
+ * @example
+ * const trajectory = await getStoryTrajectory(42);
+ * console.log(trajectory?.growth.earlyScorePerHour);
+ */
+export async function getStoryTrajectory(
+  storyId: number
+): Promise<StoryTrajectory | null> {
+  const story = await prisma.hnStory.findUnique({
+    where: { id: storyId },
+    select: {
+      id: true,
+      time: true,
+      snapshots: {
+        orderBy: { observedAt: "asc" },
+        select: {
+          observedAt: true,
+          score: true,
+          descendants: true,
+          rank: true,
+        },
+      },
+    },
+  });
+
+  if (story === null) {
+    return null;
+  }
+
+  const points = story.snapshots.map((snapshot, index): TrajectoryPoint => {
+    const previous = story.snapshots[index - 1];
+    const ageHours = ageInHours(story.time, snapshot.observedAt);
+
+    // The first observation is measured against the story's posting (0, 0)
+    const previousAge =
+      previous !== undefined ? ageInHours(story.time, previous.observedAt) : 0;
+    const previousScore = previous !== undefined ? previous.score : 0;
+    const previousComments = previous !== undefined ? previous.descendants : 0;
+
+    return {
+      observedAt: snapshot.observedAt,
+      ageHours,
+      score: snapshot.score,
+      descendants: snapshot.descendants,
+      rank: snapshot.rank,
+      scorePerHour: perHour(
+        snapshot.score !== null && previousScore !== null
+          ? snapshot.score - previousScore
+          : null,
+        ageHours - previousAge
+      ),
+      commentsPerHour: perHour(
+        snapshot.descendants !== null && previousComments !== null
+          ? snapshot.descendants - previousComments
+          : null,
+        ageHours - previousAge
+      ),
+    };
+  });
+
+  return {
+    storyId: story.id,
+    postedAt: new Date(story.time * 1000),
+    points,
+    growth: summariseGrowth(story.time, story.snapshots),
+  };
+}
+
+/**
+ * Get growth summaries for many stories at once
+ *
+ * @param storyIds - Story IDs
+ * @returns Map of story ID to growth summary (stories without snapshots are
+ * omitted)
+ *
+ * @example
+ * const growth = await getStoryGrowthRates([1, 2, 3]);
+ */
+export async function getStoryGrowthRates(
+  storyIds: number[]
+): Promise<Map<number, StoryGrowth>> {
+  const growth = new Map<number, StoryGrowth>();
+
+  if (storyIds.length === 0) {
+    return growth;
+  }
+
+  const stories = await prisma.hnStory.findMany({
+    where: { id: { in: storyIds } },
+    select: {
+      id: true,
+      time: true,
+      snapshots: {
+        orderBy: { observedAt: "asc" },
+        select: {
+          observedAt: true,
+          score: true,
+          descendants: true,
+          rank: true,
+        },
+      },
+    },
+  });
+
+  for (const story of stories) {
+    if (story.snapshots.length > 0) {
+      growth.set(story.id, summariseGrowth(story.time, story.snapshots));
+    }
+  }
+
+  return growth;
+}
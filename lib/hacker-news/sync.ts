@@ -0,0 +1,466 @@
+/**
+ * Incremental comment sync for stories already in the database
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+import { fetchItem, fetchUpdates } from "./api";
+import { upsertComments } from "./bulk";
+import {
+  fetchComments,
+  PERSIST_TRANSACTION_TIMEOUT_MS,
+  persistStory,
+  toCommentData,
+  updateSiblingRanks,
+} from "./fetcher";
+import type { HnItem, ThreadComment } from "./types";
+
+/**
+ * Options for syncing stored stories
+ */
+export interface SyncOptions {
+  /**
+   * Only sync stories posted within this many hours
+   * @default 48
+   */
+  windowHours?: number;
+
+  /**
+   * Maximum depth for comment fetching
+   * @default Infinity (fetch all comments)
+   */
+  maxCommentDepth?: number;
+
+  /**
+   * Re-fetch stored comments posted within this many hours, even where the
+   * thread is otherwise unchanged (HN allows edits for two hours)
+   * @default 2
+   */
+  recheckHours?: number;
+
+  /**
+   * Called after each story is synced, e.g. for progress reporting
+   */
+  onStorySynced?: (storyId: number, result: SyncResult) => void;
+}
+
+/**
+ * Result of a sync pass
+ */
+export interface SyncResult {
+  storiesSynced: number;
+
+  /**
+   * Synced stories whose comment count and top-level comments had not
+   * changed, so their threads were not walked
+   */
+  storiesUnchanged: number;
+  commentsAdded: number;
+
+  /**
+   * Stored comments whose text, deleted/dead state or position changed
+   */
+  commentsUpdated: number;
+  commentsUnchanged: number;
+  errors: Array<{ id: number; error: string }>;
+}
+
+/**
+ * Stored comment fields compared against the API
+ */
+interface StoredComment {
+  time: number;
+  text: string | null;
+  deleted: boolean;
+  dead: boolean;
+  depth: number | null;
+  rank: number | null;
+}
+
+/**
+ * The stored comments of one story, and state shared while walking its
+ * thread
+ */
+interface StoredThread {
+  comments: Map<number, StoredComment>;
+
+  /**
+   * Stored child IDs in rank order, keyed by parent comment (null for
+   * top-level comments)
+   */
+  children: Map<number | null, number[]>;
+
+  /**
+   * New comments the story's `descendants` count implies that the walk has
+   * not found yet
+   */
+  missing: number;
+  maxDepth: number;
+}
+
+/**
+ * Settings shared by every story in a sync pass
+ */
+interface SyncContext {
+  maxCommentDepth: number | undefined;
+
+  /**
+   * Stored comments posted at or after this Unix time are re-fetched
+   */
+  recheckAfter: number;
+
+  /**
+   * Item IDs the HN updates feed reported as changed
+   */
+  updatedIds: Set<number>;
+}
+
+/**
+ * Check whether a fetched comment's text or deleted/dead state differs from
+ * the stored copy
+ *
+ * @param stored - Stored comment
+ * @param comment - Comment fetched from the API
+ * @returns True if the comment's content needs to be re-persisted
+ */
+function hasContentChanged(stored: StoredComment, comment: HnItem): boolean {
+  return (
+    stored.text !== (comment.text ?? null) ||
+    stored.deleted !== (comment.deleted ?? false) ||
+    stored.dead !== (comment.dead ?? false)
+  );
+}
+
+/**
+ * Check whether a fetched comment differs from the stored copy
+ *
+ * @param stored - Stored comment
+ * @param comment - Comment fetched from the API
+ * @returns True if the comment needs to be re-persisted
+ */
+function hasChanged(stored: StoredComment, comment: ThreadComment): boolean {
+  return (
+    hasContentChanged(stored, comment) ||
+    stored.depth !== comment.depth ||
+    stored.rank !== comment.rank
+  );
+}
+
+/**
+ * Check whether two ID lists hold the same IDs, in any order
+ *
+ * @param a - IDs
+ * @param b - IDs
+ * @returns True if both hold the same IDs
+ */
+function sameIds(a: number[], b: number[]): boolean {
+  const ids = new Set(b);
+  return a.length === b.length && a.every((id) => ids.has(id));
+}
+
+/**
+ * Bring the ranks of stored children in line with a parent's `kids` order
+ * when only the order changed
+ *
+ * @param kids - Child IDs in HN display order
+ * @param stored - Stored child IDs in rank order
+ */
+async function syncRanks(kids: number[], stored: number[]): Promise<void> {
+  if (kids.some((id, index) => stored[index] !== id)) {
+    await updateSiblingRanks(kids);
+  }
+}
+
+/**
+ * Fetch the comments under a parent that are new or may have changed
+ *
+ * Unknown kids are new, so their whole subtrees are fetched. Known kids are
+ * fetched one level at a time; a known comment's replies are only walked if
+ * its `kids` differ from the stored replies, or if the story still has new
+ * comments that have not been found.
+ *
+ * @param kids - Child IDs of the parent, in HN display order
+ * @param depth - Depth of the children (0 for top-level comments)
+ * @param thread - Stored thread
+ * @returns New comments and fetched known comments, parents before replies
+ */
+async function fetchThreadChanges(
+  kids: number[],
+  depth: number,
+  thread: StoredThread
+): Promise<ThreadComment[]> {
+  if (depth >= thread.maxDepth || kids.length === 0) {
+    return [];
+  }
+
+  const newIds = kids.filter((id) => !thread.comments.has(id));
+  const knownIds = kids.filter((id) => thread.comments.has(id));
+
+  const [added, ...known] = await Promise.all([
+    fetchComments(newIds, depth, thread.maxDepth, kids).then((comments) => {
+      thread.missing -= comments.length;
+      return comments;
+    }),
+    ...knownIds.map(async (id): Promise<ThreadComment[]> => {
+      try {
+        const comment = await fetchItem(id);
+
+        if (comment?.type !== "comment") {
+          return [];
+        }
+
+        const childKids = comment.kids ?? [];
+        const storedKids = thread.children.get(id) ?? [];
+        let replies: ThreadComment[] = [];
+
+        if (!sameIds(childKids, storedKids) || thread.missing > 0) {
+          replies = await fetchThreadChanges(childKids, depth + 1, thread);
+        } else {
+          await syncRanks(childKids, storedKids);
+        }
+
+        return [{ ...comment, depth, rank: kids.indexOf(id) }, ...replies];
+      } catch (error) {
+        console.error(`Failed to fetch comment ${id}:`, error);
+        return [];
+      }
+    }),
+  ]);
+
+  return [...added, ...known.flat()];
+}
+
+/**
+ * Fetch stored comments the thread walk did not reach but that may have been
+ * edited, deleted or killed since they were stored
+ *
+ * @param ids - Comment IDs
+ * @returns Fetched comments; failures are logged and skipped
+ */
+async function fetchRechecks(ids: number[]): Promise<HnItem[]> {
+  const items = await Promise.all(
+    ids.map(async (id): Promise<HnItem | null> => {
+      try {
+        const item = await fetchItem(id);
+        return item?.type === "comment" ? item : null;
+      } catch (error) {
+        console.error(`Failed to fetch comment ${id}:`, error);
+        return null;
+      }
+    })
+  );
+
+  return items.filter((item): item is HnItem => item !== null);
+}
+
+/**
+ * Sync one stored story: refresh the story and write new or changed comments
+ *
+ * A story whose `descendants` count and top-level `kids` match the stored
+ * ones is not walked. Otherwise only new subtrees and the known comments on
+ * the way to them are fetched (see `fetchThreadChanges`). Stored comments
+ * the walk did not reach are re-fetched if the updates feed lists them or
+ * they are still inside the edit window, so edits and deleted/dead changes
+ * in unchanged subtrees are picked up too. All writes go through one bulk
+ * transaction.
+ *
+ * @param storyId - Story ID
+ * @param context - Settings for the sync pass
+ * @param result - Result to accumulate into
+ */
+async function syncStory(
+  storyId: number,
+  context: SyncContext,
+  result: SyncResult
+): Promise<void> {
+  const [story, storedStory, stored] = await Promise.all([
+    fetchItem(storyId),
+    prisma.hnStory.findUnique({
+      where: { id: storyId },
+      select: { descendants: true },
+    }),
+    prisma.hnComment.findMany({
+      where: { storyId },
+      select: {
+        id: true,
+        time: true,
+        text: true,
+        deleted: true,
+        dead: true,
+        depth: true,
+        rank: true,
+        parentCommentId: true,
+      },
+      orderBy: { rank: "asc" },
+    }),
+  ]);
+
+  if (story === null) {
+    return;
+  }
+
+  await persistStory(story);
+
+  const thread: StoredThread = {
+    comments: new Map(stored.map((comment) => [comment.id, comment])),
+    children: new Map(),
+    missing:
+      (story.descendants ?? 0) -
+      stored.filter((comment) => !comment.deleted && !comment.dead).length,
+    maxDepth: context.maxCommentDepth ?? Infinity,
+  };
+
+  for (const comment of stored) {
+    const parentId = comment.depth === 0 ? null : comment.parentCommentId;
+    thread.children.set(parentId, [
+      ...(thread.children.get(parentId) ?? []),
+      comment.id,
+    ]);
+  }
+
+  const kids = story.kids ?? [];
+  const storedKids = thread.children.get(null) ?? [];
+
+  const unchanged =
+    storedStory?.descendants === (story.descendants ?? 0) &&
+    sameIds(kids, storedKids);
+  let comments: ThreadComment[] = [];
+
+  if (unchanged) {
+    await syncRanks(kids, storedKids);
+  } else {
+    comments = await fetchThreadChanges(kids, 0, thread);
+  }
+
+  const walked = new Set(comments.map((comment) => comment.id));
+  const rechecked = await fetchRechecks(
+    stored
+      .filter(
+        (comment) =>
+          !walked.has(comment.id) &&
+          (context.updatedIds.has(comment.id) ||
+            comment.time >= context.recheckAfter)
+      )
+      .map((comment) => comment.id)
+  );
+
+  // Comments arrive with parents before their replies
+  const rows: Prisma.HnCommentCreateManyInput[] = [];
+
+  for (const comment of comments) {
+    const existing = thread.comments.get(comment.id);
+
+    if (existing === undefined) {
+      rows.push(toCommentData(comment, storyId, comment));
+      result.commentsAdded++;
+    } else if (hasChanged(existing, comment)) {
+      rows.push(toCommentData(comment, storyId, comment));
+      result.commentsUpdated++;
+    } else {
+      result.commentsUnchanged++;
+    }
+  }
+
+  // Rechecked comments keep their stored position
+  for (const comment of rechecked) {
+    const existing = thread.comments.get(comment.id);
+
+    if (existing !== undefined && hasContentChanged(existing, comment)) {
+      rows.push(toCommentData(comment, storyId));
+      result.commentsUpdated++;
+    } else {
+      result.commentsUnchanged++;
+    }
+  }
+
+  if (rows.length > 0) {
+    await prisma.$transaction((tx) => upsertComments(tx, rows), {
+      timeout: PERSIST_TRANSACTION_TIMEOUT_MS,
+    });
+  }
+
+  result.storiesSynced++;
+
+  if (unchanged) {
+    result.storiesUnchanged++;
+  }
+}
+
+/**
+ * Sync comments for stored stories that are still inside the activity window
+ *
+ * Unlike `fetchAndPersistStories`, which skips stories already in the
+ * database, this diffs each story's `kids` against the stored comments and
+ * fetches only new subtrees and the known comments leading to them. Stored
+ * comments listed in the HN updates feed or posted within `recheckHours` are
+ * re-fetched as well. Only new comments and comments whose text,
+ * deleted/dead state or thread position changed are written.
+ *
+ * @param options - Sync options
+ * @returns Statistics about the sync pass
+ *
+ * @example
+ * // Pick up comments posted on stories from the last two days
+ * const result = await syncRecentStories({ windowHours: 48 });
+ * console.log(`${result.commentsAdded} new comments`);
+ */
+export async function syncRecentStories(
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const {
+    windowHours = 48,
+    maxCommentDepth,
+    recheckHours = 2,
+    onStorySynced,
+  } = options;
+  const now = Math.floor(Date.now() / 1000);
+  const cutoffTime = now - windowHours * 3600;
+
+  const stories = await prisma.hnStory.findMany({
+    where: { time: { gte: cutoffTime }, deleted: false },
+    select: { id: true },
+    orderBy: { time: "desc" },
+  });
+
+  console.log(
+    `Syncing ${stories.length} stories from the last ${windowHours} hours...`
+  );
+
+  let updatedIds = new Set<number>();
+
+  try {
+    updatedIds = new Set((await fetchUpdates()).items);
+  } catch (error) {
+    // Comments inside the recheck window are still re-fetched
+    console.error("Failed to fetch the updates feed:", error);
+  }
+
+  const context: SyncContext = {
+    maxCommentDepth,
+    recheckAfter: now - recheckHours * 3600,
+    updatedIds,
+  };
+
+  const result: SyncResult = {
+    storiesSynced: 0,
+    storiesUnchanged: 0,
+    commentsAdded: 0,
+    commentsUpdated: 0,
+    commentsUnchanged: 0,
+    errors: [],
+  };
+
+  for (const { id } of stories) {
+    try {
+      await syncStory(id, context, result);
+      onStorySynced?.(id, result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(`Failed to sync story ${id}:`, errorMessage);
+      result.errors.push({ id, error: errorMessage });
+    }
+  }
+
+  return result;
+}
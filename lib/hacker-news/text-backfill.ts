@@ -0,0 +1,102 @@
+/**
+ * Fill in plain-text and markdown renditions for rows stored before text
+ * normalisation was added
+ */
+
+import { prisma } from "../database";
+import { htmlToMarkdown, htmlToText } from "./html";
+
+/**
+ * Options for normalising stored text
+ */
+export interface NormalizeTextOptions {
+  /**
+   * Rows updated per transaction
+   * @default 500
+   */
+  batchSize?: number;
+}
+
+/**
+ * Rows updated by a normalisation pass
+ */
+export interface NormalizeTextResult {
+  stories: number;
+  comments: number;
+}
+
+/**
+ * Populate `textPlain` and `textMarkdown` for stored stories and comments
+ * that have HTML `text` but no renditions yet
+ *
+ * New rows get both columns on ingest, so this only needs to run once after
+ * upgrading; running it again is a no-op.
+ *
+ * @param options - Normalisation options
+ * @returns Number of stories and comments updated
+ *
+ * @example
+ * const { comments } = await normalizeStoredText({ batchSize: 1000 });
+ */
+export async function normalizeStoredText(
+  options: NormalizeTextOptions = {}
+): Promise<NormalizeTextResult> {
+  const { batchSize = 500 } = options;
+  const result: NormalizeTextResult = { stories: 0, comments: 0 };
+
+  for (;;) {
+    const stories = await prisma.hnStory.findMany({
+      where: { text: { not: null }, textPlain: null },
+      select: { id: true, text: true },
+      take: batchSize,
+    });
+
+    if (stories.length === 0) {
+      break;
+    }
+
+    await prisma.$transaction(
+      stories.map(({ id, text }) =>
+        prisma.hnStory.update({
+          where: { id },
+          data: {
+            textPlain: htmlToText(text ?? ""),
+            textMarkdown: htmlToMarkdown(text ?? ""),
+          },
+        })
+      )
+    );
+
+    result.stories += stories.length;
+    console.log(`Normalized ${result.stories} stories...`);
+  }
+
+  for (;;) {
+    const comments = await prisma.hnComment.findMany({
+      where: { text: { not: null }, textPlain: null },
+      select: { id: true, text: true },
+      take: batchSize,
+    });
+
+    if (comments.length === 0) {
+      break;
+    }
+
+    await prisma.$transaction(
+      comments.map(({ id, text }) =>
+        prisma.hnComment.update({
+          where: { id },
+          data: {
+            textPlain: htmlToText(text ?? ""),
+            textMarkdown: htmlToMarkdown(text ?? ""),
+          },
+        })
+      )
+    );
+
+    result.comments += comments.length;
+    console.log(`Normalized ${result.comments} comments...`);
+  }
+
+  return result;
+}
@@ -7,6 +7,11 @@
  */
 export type HnItemType = "story" | "comment" | "job" | "poll" | "pollopt";
 
+/**
+ * HN story lists that can be polled
+ */
+export type StoryListSource = "new" | "top" | "best" | "ask" | "show" | "job";
+
 /**
  * Raw item from HN API
  */
@@ -28,10 +33,56 @@ export interface HnItem {
   descendants?: number;
 }
 
+/**
+ * Position of a comment in its thread
+ */
+export interface CommentPosition {
+  /**
+   * Depth in the thread (0 for top-level comments)
+   */
+  depth: number;
+
+  /**
+   * Index among its siblings in the parent's `kids` (HN display order), or
+   * null if unknown
+   */
+  rank: number | null;
+}
+
+/**
+ * Comment item fetched together with its position in the thread
+ */
+export interface ThreadComment extends HnItem, CommentPosition {}
+
+/**
+ * Raw user profile from HN API
+ */
+export interface HnUserProfile {
+  id: string;
+  created: number;
+  karma: number;
+  about?: string;
+  submitted?: number[];
+}
+
+/**
+ * Recently changed items and profiles from the HN updates feed
+ */
+export interface HnUpdates {
+  items: number[];
+  profiles: string[];
+}
+
 /**
  * Fetch options for HN stories
  */
 export interface FetchOptions {
+  /**
+   * Story list to read IDs from
+   * @default "new"
+   */
+  source?: StoryListSource;
+
   /**
    * Number of hours to look back (mutually exclusive with count)
    */
@@ -47,6 +98,41 @@ export interface FetchOptions {
    * @default Infinity (fetch all comments)
    */
   maxCommentDepth?: number;
+
+  /**
+   * Only select stories with at least this score
+   */
+  minScore?: number;
+
+  /**
+   * Only select stories with at least this many comments
+   */
+  minComments?: number;
+
+  /**
+   * Only select stories that link to a URL (skips Ask HN and other text posts)
+   */
+  urlOnly?: boolean;
+
+  /**
+   * Maximum rows per bulk insert when persisting a story's items
+   * @default 1000
+   */
+  batchSize?: number;
+}
+
+/**
+ * Timing of one bulk write, for tuning the batch size
+ */
+export interface PersistBatchTiming {
+  table: "HnComment" | "HnPollOption";
+  rows: number;
+
+  /**
+   * Rows actually inserted or updated (conflicting rows may be skipped)
+   */
+  written: number;
+  durationMs: number;
 }
 
 /**
@@ -54,7 +140,68 @@ export interface FetchOptions {
  */
 export interface FetchResult {
   stories: HnItem[];
-  comments: HnItem[];
+  comments: ThreadComment[];
   skipped: number;
+
+  /**
+   * Candidates that were not stories or did not meet the selection criteria
+   */
+  rejected: number;
   errors: Array<{ id: number; error: string }>;
+
+  /**
+   * Timing of every bulk write, in the order they ran
+   */
+  batches: PersistBatchTiming[];
+}
+
+/**
+ * Where HN API data comes from
+ *
+ * The API wrappers in `api.ts` delegate to the active source, so the live
+ * Firebase API can be swapped for recorded fixtures during development.
+ */
+export interface HnSource {
+  /**
+   * Short description used in logs, e.g. the base URL or fixture directory
+   */
+  readonly name: string;
+
+  /**
+   * Read a single item
+   *
+   * @param id - HN item ID
+   * @returns Item data or null if not found
+   */
+  getItem(id: number): Promise<HnItem | null>;
+
+  /**
+   * Read a user profile
+   *
+   * @param id - HN username (case-sensitive)
+   * @returns User profile or null if not found
+   */
+  getUser(id: string): Promise<HnUserProfile | null>;
+
+  /**
+   * Read the story IDs of a list, in list (rank) order
+   *
+   * @param source - Story list to read
+   * @returns Array of story IDs
+   */
+  getStoryList(source: StoryListSource): Promise<number[]>;
+
+  /**
+   * Read the maximum item ID
+   *
+   * @returns Maximum item ID
+   */
+  getMaxItem(): Promise<number>;
+
+  /**
+   * Read recently changed item IDs and user profiles
+   *
+   * @returns Changed items and profiles
+   */
+  getUpdates(): Promise<HnUpdates>;
 }
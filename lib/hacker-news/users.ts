@@ -0,0 +1,325 @@
+/**
+ * HN user profiles and per-user submission summaries
+ */
+
+import type { HnUser } from "@prisma/client";
+import { prisma } from "../database";
+import { fetchUser } from "./api";
+import type { HnUserProfile } from "./types";
+
+/**
+ * Options for syncing user profiles
+ */
+export interface SyncUsersOptions {
+  /**
+   * Maximum number of profiles to fetch
+   * @default 100
+   */
+  limit?: number;
+
+  /**
+   * Re-fetch profiles older than this many days
+   * @default 7
+   */
+  maxAgeDays?: number;
+}
+
+/**
+ * Result of syncing user profiles
+ */
+export interface SyncUsersResult {
+  synced: number;
+
+  /**
+   * Authors whose profile no longer exists on HN
+   */
+  missing: number;
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * A cluster a user posts into, with how many of their articles it holds
+ */
+export interface UserCluster {
+  label: number;
+  clusterSize: number;
+  userArticles: number;
+
+  /**
+   * A few article titles from the cluster, to make the label readable
+   */
+  sampleTitles: string[];
+}
+
+/**
+ * Submission summary for a user
+ */
+export interface UserSummary {
+  id: string;
+  profile: HnUser | null;
+  storiesSubmitted: number;
+  averageScore: number | null;
+  commentsPosted: number;
+
+  /**
+   * Clusters holding the user's articles, most used first
+   */
+  topClusters: UserCluster[];
+}
+
+/**
+ * Options for building a user summary
+ */
+export interface UserSummaryOptions {
+  /**
+   * DBSCAN epsilon used to cluster full-article embeddings
+   * @default 0.3
+   */
+  epsilon?: number;
+
+  /**
+   * DBSCAN minimum points
+   * @default 5
+   */
+  minPoints?: number;
+
+  /**
+   * Maximum number of clusters to return
+   * @default 5
+   */
+  maxClusters?: number;
+}
+
+/**
+ * Persist a user profile to the database
+ *
+ * @param profile - Profile from the HN API
+ * @returns Stored user
+ */
+async function persistUser(profile: HnUserProfile): Promise<HnUser> {
+  const data = {
+    karma: profile.karma,
+    created: profile.created,
+    about: profile.about ?? null,
+    submitted: profile.submitted?.length ?? 0,
+    fetchedAt: new Date(),
+  };
+
+  return prisma.hnUser.upsert({
+    where: { id: profile.id },
+    create: { id: profile.id, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Fetch and store a single user profile
+ *
+ * @param id - HN username
+ * @returns Stored user, or null if the user does not exist on HN
+ * @throws Error if the request fails after retries
+ */
+export async function syncUser(id: string): Promise<HnUser | null> {
+  const profile = await fetchUser(id);
+
+  if (profile === null) {
+    return null;
+  }
+
+  return persistUser(profile);
+}
+
+/**
+ * Fetch profiles for authors of stored stories and comments
+ *
+ * Authors without a stored profile come first, then profiles older than
+ * `maxAgeDays`. Profiles are fetched in parallel through the shared API
+ * limiter and stored one at a time.
+ *
+ * @param options - Sync options
+ * @returns Statistics about the sync
+ *
+ * @example
+ * const result = await syncUsers({ limit: 500 });
+ * console.log(`Synced ${result.synced} users`);
+ */
+export async function syncUsers(
+  options: SyncUsersOptions = {}
+): Promise<SyncUsersResult> {
+  const { limit = 100, maxAgeDays = 7 } = options;
+  const staleBefore = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+
+  const authors = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT a.id
+    FROM (
+      SELECT "by" AS id FROM "HnStory" WHERE "by" IS NOT NULL
+      UNION
+      SELECT "by" AS id FROM "HnComment" WHERE "by" IS NOT NULL
+    ) a
+    LEFT JOIN "HnUser" u ON u.id = a.id
+    WHERE u.id IS NULL OR u."fetchedAt" < ${staleBefore}
+    ORDER BY u."fetchedAt" ASC NULLS FIRST
+    LIMIT ${limit}
+  `;
+
+  const result: SyncUsersResult = { synced: 0, missing: 0, errors: [] };
+
+  const profiles = await Promise.all(
+    authors.map(async ({ id }) => {
+      try {
+        return { id, profile: await fetchUser(id) };
+      } catch (error) {
+        result.errors.push({
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    })
+  );
+
+  for (const entry of profiles) {
+    if (entry === null) {
+      continue;
+    }
+
+    if (entry.profile === null) {
+      result.missing++;
+      continue;
+    }
+
+    try {
+      await persistUser(entry.profile);
+      result.synced++;
+    } catch (error) {
+      result.errors.push({
+        id: entry.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the clusters a user's articles fall into
+ *
+ * Clusters are computed the same way as the cluster map's default view:
+ * DBSCAN over the full-article embeddings. Only the stored labels are read
+ * (see `ensureArticleClusters`, run by generate-embeddings and the full
+ * pipeline); articles embedded since the last clustering are not counted
+ * until the next run.
+ *
+ * @param id - HN username
+ * @param options - Summary options
+ * @returns Clusters holding the user's articles, most used first
+ */
+async function getUserClusters(
+  id: string,
+  options: UserSummaryOptions
+): Promise<UserCluster[]> {
+  const { epsilon = 0.3, minPoints = 5, maxClusters = 5 } = options;
+
+  const userLabels = await prisma.articleCluster.groupBy({
+    by: ["label"],
+    where: {
+      epsilon,
+      minPoints,
+      label: { not: -1 },
+      article: { stories: { some: { story: { by: id } } } },
+    },
+    _count: { _all: true },
+  });
+
+  const top = userLabels
+    .sort((a, b) => b._count._all - a._count._all)
+    .slice(0, maxClusters);
+
+  if (top.length === 0) {
+    return [];
+  }
+
+  const [sizes, samples] = await Promise.all([
+    prisma.articleCluster.groupBy({
+      by: ["label"],
+      where: {
+        epsilon,
+        minPoints,
+        label: { in: top.map(({ label }) => label) },
+      },
+      _count: { _all: true },
+    }),
+    Promise.all(
+      top.map(({ label }) =>
+        prisma.articleCluster.findMany({
+          where: {
+            epsilon,
+            minPoints,
+            label,
+            article: { title: { not: null } },
+          },
+          select: { article: { select: { title: true } } },
+          orderBy: { articleId: "asc" },
+          take: 3,
+        })
+      )
+    ),
+  ]);
+
+  const clusterSizes = new Map(
+    sizes.map(({ label, _count }) => [label, _count._all])
+  );
+
+  return top.map(({ label, _count }, index) => ({
+    label,
+    clusterSize: clusterSizes.get(label) ?? 0,
+    userArticles: _count._all,
+    sampleTitles: (samples[index] ?? []).flatMap(({ article }) =>
+      article.title !== null ? [article.title] : []
+    ),
+  }));
+}
+
+/**
+ * Summarise what a user submits: story count, average score and the clusters
+ * they post into most
+ *
+ * Only stored data is read: profiles are fetched by sync-users, and a user
+ * who has not been synced yet has a null profile.
+ *
+ * @param id - HN username
+ * @param options - Summary options
+ * @returns User summary, or null if nothing is stored for the user
+ *
+ * @example
+ * const summary = await getUserSummary("pg");
+ * console.log(summary?.topClusters[0]?.sampleTitles);
+ */
+export async function getUserSummary(
+  id: string,
+  options: UserSummaryOptions = {}
+): Promise<UserSummary | null> {
+  const [profile, stories, commentsPosted] = await Promise.all([
+    prisma.hnUser.findUnique({ where: { id } }),
+    prisma.hnStory.aggregate({
+      where: { by: id },
+      _count: true,
+      _avg: { score: true },
+    }),
+    prisma.hnComment.count({ where: { by: id } }),
+  ]);
+
+  if (profile === null && stories._count === 0 && commentsPosted === 0) {
+    return null;
+  }
+
+  return {
+    id,
+    profile,
+    storiesSubmitted: stories._count,
+    averageScore: stories._avg.score,
+    commentsPosted,
+    topClusters: await getUserClusters(id, options),
+  };
+}
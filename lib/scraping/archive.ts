@@ -0,0 +1,165 @@
+/**
+ * Local archive of raw scraped responses, for re-extraction without the
+ * network
+ *
+ * The archive is a content-addressed directory: each response is stored
+ * gzipped under the SHA-256 of its final URL and body,
+ *
+ *   <dir>/<first two hex digits>/<sha256>.gz
+ *
+ * and the file holds one line of JSON (URL, status, headers, fetch time)
+ * followed by the raw body. Refetches of a page that did not change share a
+ * file, keeping the first response's headers; the same body served from
+ * different URLs is stored once per URL, since extraction resolves links
+ * against the URL.
+ */
+
+import { createHash } from "node:crypto";
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Archive directory used unless another is given
+ * @default "data/archive", or the ARCHIVE_DIR environment variable
+ */
+export const DEFAULT_ARCHIVE_DIR = process.env["ARCHIVE_DIR"] ?? "data/archive";
+
+/**
+ * A raw HTTP response as stored in the archive
+ */
+export interface ArchivedResponse {
+  /**
+   * URL that was requested
+   */
+  url: string;
+
+  /**
+   * URL the response came from after following redirects
+   */
+  finalUrl: string;
+  status: number;
+
+  /**
+   * Response headers, with lower-case names
+   */
+  headers: Record<string, string>;
+  fetchedAt: Date;
+  body: Uint8Array;
+}
+
+/**
+ * Path of an archived response
+ *
+ * @param dir - Archive directory
+ * @param key - Archive key
+ * @returns File path
+ */
+function archivePath(dir: string, key: string): string {
+  return join(dir, key.slice(0, 2), `${key}.gz`);
+}
+
+/**
+ * Store a raw response in the archive
+ *
+ * A response whose final URL and body are already archived is not written
+ * again.
+ *
+ * @param response - Response to store
+ * @param dir - Archive directory
+ * @returns Archive key (SHA-256 of the final URL and body, hex)
+ *
+ * @example
+ * const key = await archiveResponse({
+ *   url,
+ *   finalUrl: response.url,
+ *   status: response.status,
+ *   headers: Object.fromEntries(response.headers),
+ *   fetchedAt: new Date(),
+ *   body,
+ * });
+ */
+export async function archiveResponse(
+  response: ArchivedResponse,
+  dir: string = DEFAULT_ARCHIVE_DIR
+): Promise<string> {
+  const key = createHash("sha256")
+    .update(`${response.finalUrl}\n`)
+    .update(response.body)
+    .digest("hex");
+  const path = archivePath(dir, key);
+
+  const exists = await access(path).then(
+    () => true,
+    () => false
+  );
+
+  if (exists) {
+    return key;
+  }
+
+  const { body, ...envelope } = response;
+  const compressed = await gzipAsync(
+    Buffer.concat([
+      Buffer.from(
+        `${JSON.stringify({ ...envelope, fetchedAt: envelope.fetchedAt.toISOString() })}\n`
+      ),
+      body,
+    ])
+  );
+
+  // Write under a temporary name so a crash never leaves a partial file
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  await mkdir(join(dir, key.slice(0, 2)), { recursive: true });
+  await writeFile(temporaryPath, compressed);
+  await rename(temporaryPath, path);
+
+  return key;
+}
+
+/**
+ * Read a raw response from the archive
+ *
+ * @param key - Archive key, as returned by `archiveResponse`
+ * @param dir - Archive directory
+ * @returns Archived response, or null if it is not in the archive
+ *
+ * @example
+ * const archived = await readArchivedResponse(article.archiveKey);
+ * const html = new TextDecoder().decode(archived?.body);
+ */
+export async function readArchivedResponse(
+  key: string,
+  dir: string = DEFAULT_ARCHIVE_DIR
+): Promise<ArchivedResponse | null> {
+  let compressed: Buffer;
+
+  try {
+    compressed = await readFile(archivePath(dir, key));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const data = await gunzipAsync(compressed);
+  const newline = data.indexOf(0x0a);
+  const envelope = JSON.parse(data.subarray(0, newline).toString("utf8")) as {
+    url: string;
+    finalUrl: string;
+    status: number;
+    headers: Record<string, string>;
+    fetchedAt: string;
+  };
+
+  return {
+    ...envelope,
+    fetchedAt: new Date(envelope.fetchedAt),
+    body: new Uint8Array(data.subarray(newline + 1)),
+  };
+}
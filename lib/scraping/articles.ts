@@ -0,0 +1,195 @@
+/**
+ * Read access to scraped articles
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+
+/**
+ * A scraped article as shown to readers
+ */
+export interface ArticleDetail {
+  id: number;
+  url: string;
+  title: string | null;
+  content: string | null;
+
+  /**
+   * Markdown rendition of `content`; null for articles scraped before
+   * markdown extraction was added
+   */
+  contentMarkdown: string | null;
+  extractionConfidence: number | null;
+  fetchedAt: Date | null;
+
+  /**
+   * Canonical URL the article is keyed by
+   */
+  canonicalUrl: string;
+
+  /**
+   * Metadata from the page's meta tags, JSON-LD and microdata (or the PDF's
+   * info dictionary); null where the page did not declare it
+   */
+  author: string | null;
+  publishedAt: Date | null;
+  siteName: string | null;
+  description: string | null;
+  language: string | null;
+  imageUrl: string | null;
+  keywords: string[];
+  wordCount: number | null;
+
+  /**
+   * Stories that link to the article (reposts share one article), oldest
+   * first
+   */
+  stories: Array<{ id: number; title: string | null }>;
+}
+
+/**
+ * Get a successfully scraped article with its text and markdown
+ *
+ * @param id - ScrapedArticle ID
+ * @returns Article, or null if it does not exist or has not been scraped
+ *
+ * @example
+ * const article = await getArticle(42);
+ * console.log(article?.contentMarkdown ?? article?.content);
+ */
+export async function getArticle(id: number): Promise<ArticleDetail | null> {
+  const article = await prisma.scrapedArticle.findUnique({
+    where: { id },
+    include: {
+      stories: {
+        select: { story: { select: { id: true, title: true } } },
+        orderBy: { story: { time: "asc" } },
+      },
+    },
+  });
+
+  if (article?.status !== "success") {
+    return null;
+  }
+
+  return {
+    id: article.id,
+    url: article.url,
+    title: article.title,
+    content: article.content,
+    contentMarkdown: article.contentMarkdown,
+    extractionConfidence: article.extractionConfidence,
+    fetchedAt: article.fetchedAt,
+    canonicalUrl: article.canonicalUrl,
+    author: article.author,
+    publishedAt: article.publishedAt,
+    siteName: article.siteName,
+    description: article.description,
+    language: article.language,
+    imageUrl: article.imageUrl,
+    keywords: article.keywords,
+    wordCount: article.wordCount,
+    stories: article.stories.map(({ story }) => story),
+  };
+}
+
+/**
+ * A scraped article in a list, without its text
+ */
+export type ArticleSummary = Omit<
+  ArticleDetail,
+  "content" | "contentMarkdown" | "stories"
+>;
+
+/**
+ * Filters for `listArticles`; all are optional and combined with AND
+ */
+export interface ArticleFilter {
+  /**
+   * Exact site name, as declared by the page
+   */
+  siteName?: string;
+
+  /**
+   * Primary language subtag, e.g. "en"
+   */
+  language?: string;
+
+  /**
+   * Substring of the author, case-insensitive
+   */
+  author?: string;
+
+  /**
+   * Keyword the article declares, case-sensitive
+   */
+  keyword?: string;
+  publishedAfter?: Date;
+  publishedBefore?: Date;
+
+  /**
+   * Maximum number of articles (default: 50)
+   */
+  limit?: number;
+}
+
+/**
+ * List successfully scraped articles matching metadata filters, most
+ * recently published first
+ *
+ * Articles without a publish date are listed after those with one.
+ *
+ * @param filter - Metadata filters
+ * @returns Matching articles
+ *
+ * @example
+ * const articles = await listArticles({ siteName: "GitHub", language: "en" });
+ */
+export async function listArticles(
+  filter: ArticleFilter = {}
+): Promise<ArticleSummary[]> {
+  const where: Prisma.ScrapedArticleWhereInput = {
+    status: "success",
+    ...(filter.siteName !== undefined && { siteName: filter.siteName }),
+    ...(filter.language !== undefined && { language: filter.language }),
+    ...(filter.author !== undefined && {
+      author: { contains: filter.author, mode: "insensitive" },
+    }),
+    ...(filter.keyword !== undefined && {
+      keywords: { has: filter.keyword },
+    }),
+    ...((filter.publishedAfter !== undefined ||
+      filter.publishedBefore !== undefined) && {
+      publishedAt: {
+        ...(filter.publishedAfter !== undefined && {
+          gte: filter.publishedAfter,
+        }),
+        ...(filter.publishedBefore !== undefined && {
+          lt: filter.publishedBefore,
+        }),
+      },
+    }),
+  };
+
+  return prisma.scrapedArticle.findMany({
+    where,
+    select: {
+      id: true,
+      url: true,
+      title: true,
+      extractionConfidence: true,
+      fetchedAt: true,
+      canonicalUrl: true,
+      author: true,
+      publishedAt: true,
+      siteName: true,
+      description: true,
+      language: true,
+      imageUrl: true,
+      keywords: true,
+      wordCount: true,
+    },
+    orderBy: [{ publishedAt: { sort: "desc", nulls: "last" } }, { id: "desc" }],
+    take: filter.limit ?? 50,
+  });
+}
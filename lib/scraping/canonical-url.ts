@@ -0,0 +1,133 @@
+/**
+ * URL canonicalization for deduplicating articles
+ *
+ * Submissions of the same page often differ only in tracking parameters,
+ * scheme, `www.` or a trailing slash. The canonical form is a lookup key and
+ * is never fetched, so it may drop parts a server would need.
+ */
+
+/**
+ * Query parameters that only track where a visitor came from
+ *
+ * A bare `ref` is not among them: sites use it for real content too (a
+ * GitHub branch or tag, for one).
+ */
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "igshid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "ref_src",
+  "ref_url",
+]);
+
+/**
+ * Check whether a query parameter is a tracking parameter
+ *
+ * @param name - Parameter name
+ * @returns True for `utm_*` and other known tracking parameters
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Normalize a URL so trivial variants of the same page compare equal
+ *
+ * - `http` becomes `https`
+ * - the host is lower-cased and a leading `www.` is dropped
+ * - default ports, tracking parameters (`utm_*`, `fbclid`, `ref_src`, ...) and
+ *   fragments are removed; fragments that look like client-side routes
+ *   (`#!` or `#/`) are kept
+ * - the remaining query parameters are sorted
+ * - a trailing slash is removed from any path but `/`
+ *
+ * @param url - Absolute URL
+ * @returns Canonical URL, or the trimmed input if it is not an http(s) URL
+ *
+ * @example
+ * canonicalizeUrl("http://www.Example.com/post/?utm_source=hn&b=2&a=1#intro");
+ * // "https://example.com/post?a=1&b=2"
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return url.trim();
+  }
+
+  parsed.protocol = "https:";
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+
+  if (parsed.port === "80" || parsed.port === "443") {
+    parsed.port = "";
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (!parsed.hash.startsWith("#!") && !parsed.hash.startsWith("#/")) {
+    parsed.hash = "";
+  }
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Resolve a page's `rel=canonical` link, ignoring links that are unlikely to
+ * name the page itself
+ *
+ * Some sites point every page's canonical link at their home page; a
+ * canonical root for a page that is not the root is therefore ignored.
+ *
+ * @param href - `href` of the canonical link, possibly relative
+ * @param pageUrl - URL of the page that declares it
+ * @returns Absolute canonical URL, or null if missing or unusable
+ *
+ * @example
+ * resolveCanonicalLink("/post/1", "https://example.com/post/1?utm_source=hn");
+ * // "https://example.com/post/1"
+ */
+export function resolveCanonicalLink(
+  href: string | undefined,
+  pageUrl: string
+): string | null {
+  if (href === undefined || href.trim() === "") {
+    return null;
+  }
+
+  try {
+    const canonical = new URL(href.trim(), pageUrl);
+    const page = new URL(pageUrl);
+
+    if (
+      (canonical.protocol !== "http:" && canonical.protocol !== "https:") ||
+      (canonical.pathname === "/" && page.pathname !== "/")
+    ) {
+      return null;
+    }
+
+    return canonical.toString();
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,10 @@
  */
 
 import * as cheerio from "cheerio";
+import { extractMetadata, type PageMetadata } from "./metadata";
+import { findMainContent } from "./readability";
+import { renderContent } from "./render";
+import { findSiteExtractor } from "./site-extractors";
 
 /**
  * Extracted content from a web page
@@ -10,25 +14,79 @@ import * as cheerio from "cheerio";
 export interface ExtractedContent {
   title: string | null;
   content: string | null;
+
+  /**
+   * Markdown rendition of `content`, keeping headings, lists, tables, code
+   * blocks and links
+   */
+  markdown: string | null;
   url: string;
+
+  /**
+   * Confidence that `content` is the page's main content, from 0 to 1 (see
+   * `findMainContent`); 0 when the whole body had to be used and 1 when a
+   * site extractor handled the page
+   */
+  confidence: number;
+
+  /**
+   * Name of the site extractor that handled the page, or null for generic
+   * extraction
+   */
+  extractor: string | null;
+
+  /**
+   * Author, dates, site, language and other metadata the page declares
+   */
+  metadata: PageMetadata;
 }
 
 /**
  * Extract main content from HTML
  *
+ * Pages of sites with a registered site extractor (GitHub, arXiv, YouTube,
+ * Wikipedia, Substack, ...) are handled by it; if it finds nothing, or for
+ * any other site, generic extraction is used.
+ *
  * This function attempts to extract the primary text content from a web page,
- * filtering out navigation, ads, and other non-content elements.
+ * filtering out navigation, ads, and other non-content elements. Candidate
+ * blocks are ranked by text density, link density and class/id hints (see
+ * `findMainContent`); if nothing scores, the whole body is used. The content
+ * is returned both as plain text and as markdown, along with the page's
+ * metadata (see `extractMetadata`).
  *
  * @param html - Raw HTML string
- * @param url - Original URL (for reference)
- * @returns Extracted content with title and text
+ * @param url - URL the page was served from (after redirects); relative
+ * links are resolved against it
+ * @returns Extracted content with title, text and markdown
  *
  * @example
  * const html = await fetch(url).then(r => r.text());
  * const content = extractContent(html, url);
  */
 export function extractContent(html: string, url: string): ExtractedContent {
+  const site = findSiteExtractor(url);
+
+  if (site !== null) {
+    const $site = cheerio.load(html);
+    // Read before the site extractor prunes the document
+    const metadata = extractMetadata($site, url);
+    const siteContent = site.extract($site, new URL(url));
+
+    if (siteContent !== null && siteContent.content !== null) {
+      return {
+        ...siteContent,
+        url,
+        confidence: 1,
+        extractor: site.name,
+        metadata,
+      };
+    }
+  }
+
   const $ = cheerio.load(html);
+  // JSON-LD is in script elements, which are removed below
+  const metadata = extractMetadata($, url);
 
   // Remove non-content elements
   $(
@@ -53,34 +111,18 @@ export function extractContent(html: string, url: string): ExtractedContent {
     title = title.trim();
   }
 
-  // Try to find the main content area
-  let contentElement = $("article").first();
-
-  if (contentElement.length === 0) {
-    contentElement = $("main").first();
-  }
-
-  if (contentElement.length === 0) {
-    contentElement = $("[role='main']").first();
-  }
-
-  if (contentElement.length === 0) {
-    contentElement = $("body");
-  }
-
-  // Extract text content
-  let content = contentElement.text();
+  const main = findMainContent($);
+  const contentElement = main?.content ?? $("body");
 
-  // Clean up whitespace
-  content = content
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0)
-    .join("\n");
+  const { content, markdown } = renderContent($, contentElement, url);
 
   return {
     title,
-    content: content.length > 0 ? content : null,
+    content,
+    markdown,
     url,
+    confidence: main?.confidence ?? 0,
+    extractor: null,
+    metadata,
   };
 }
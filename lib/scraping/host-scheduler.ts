@@ -0,0 +1,334 @@
+/**
+ * Per-host politeness scheduler for scraping
+ *
+ * Requests to different hosts run in parallel; requests to the same host are
+ * capped and spaced out by the host's robots.txt `Crawl-delay` (or a minimum
+ * delay). Hosts take turns, so a slow or rate-limited host only holds up its
+ * own queue.
+ */
+
+import { getCrawlDelay } from "./robots";
+
+/**
+ * Host scheduler options
+ */
+export interface HostSchedulerOptions {
+  /**
+   * Maximum number of requests in flight across all hosts
+   * @default 8
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of requests in flight per host
+   * @default 1
+   */
+  perHostConcurrency?: number;
+
+  /**
+   * Minimum time between request starts on one host, used when robots.txt
+   * sets no longer `Crawl-delay`
+   * @default 1000
+   */
+  minHostDelayMs?: number;
+
+  /**
+   * Longest wait accepted for a host (from `Crawl-delay` or `Retry-After`).
+   * A host that asks for more is skipped for the rest of the run.
+   * @default 60000
+   */
+  maxHostDelayMs?: number;
+
+  /**
+   * Read `Crawl-delay` from robots.txt
+   * @default true
+   */
+  respectCrawlDelay?: boolean;
+
+  /**
+   * User agent to look up in robots.txt
+   * @default "HNScraperBot"
+   */
+  userAgent?: string;
+}
+
+/**
+ * Outcome of a scheduled task
+ */
+export type HostTaskResult<TResult> =
+  | { status: "done"; value: TResult }
+  | { status: "skipped"; reason: string };
+
+/**
+ * Scheduler that runs tasks against URLs politely per host
+ */
+export interface HostScheduler {
+  /**
+   * Queue a task for the URL's host and run it when the host is free
+   *
+   * @param url - URL the task requests
+   * @param fn - Task to run
+   * @returns The task's value, or "skipped" if the host was given up on
+   */
+  schedule<TResult>(
+    url: string,
+    fn: () => Promise<TResult>
+  ): Promise<HostTaskResult<TResult>>;
+
+  /**
+   * Pause a host, e.g. after a `Retry-After` response. A pause longer than
+   * `maxHostDelayMs` skips the host's queued and future tasks.
+   *
+   * @param url - Any URL on the host
+   * @param ms - Milliseconds to wait before the next request to the host
+   */
+  backOff(url: string, ms: number): void;
+}
+
+/**
+ * A queued task with its settle callback
+ */
+interface QueuedTask {
+  run: () => Promise<void>;
+  skip: (reason: string) => void;
+}
+
+/**
+ * Scheduling state of one host
+ */
+interface HostState {
+  queue: QueuedTask[];
+  active: number;
+
+  /**
+   * Earliest time the next request may start
+   */
+  nextStartAt: number;
+
+  /**
+   * Minimum time between request starts; null until robots.txt is read
+   */
+  delayMs: number | null;
+
+  /**
+   * Why the host is skipped, or null while it is being scraped
+   */
+  skipReason: string | null;
+}
+
+/**
+ * Host part of a URL, used as the scheduling key
+ *
+ * @param url - URL
+ * @returns Lower-case host, or the URL itself if it cannot be parsed
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Create a per-host scheduler
+ *
+ * Each host's `Crawl-delay` is read from robots.txt before its first request.
+ * Free slots go to hosts in round-robin order among those that are ready
+ * (below their concurrency cap and past their delay); tasks for one host run
+ * in the order they were scheduled.
+ *
+ * @param options - Scheduler options
+ * @returns Host scheduler
+ *
+ * @example
+ * const scheduler = createHostScheduler({ concurrency: 10 });
+ * const results = await Promise.all(
+ *   urls.map((url) => scheduler.schedule(url, () => scrapeUrl(url)))
+ * );
+ */
+export function createHostScheduler(
+  options: HostSchedulerOptions = {}
+): HostScheduler {
+  const concurrency = Math.max(1, options.concurrency ?? 8);
+  const perHostConcurrency = Math.max(1, options.perHostConcurrency ?? 1);
+  const minHostDelayMs = options.minHostDelayMs ?? 1000;
+  const maxHostDelayMs = options.maxHostDelayMs ?? 60_000;
+  const respectCrawlDelay = options.respectCrawlDelay ?? true;
+  const userAgent = options.userAgent ?? "HNScraperBot";
+
+  const hosts = new Map<string, HostState>();
+  // Hosts in the order they were first seen; the cursor walks it round-robin
+  const order: string[] = [];
+  let cursor = 0;
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const skipHost = (state: HostState, reason: string): void => {
+    state.skipReason = reason;
+
+    for (const task of state.queue.splice(0)) {
+      task.skip(reason);
+    }
+  };
+
+  const resolveDelay = (host: string, url: string, state: HostState): void => {
+    if (!respectCrawlDelay) {
+      state.delayMs = minHostDelayMs;
+      return;
+    }
+
+    void getCrawlDelay(url, userAgent).then((seconds) => {
+      const crawlDelayMs = seconds !== null ? seconds * 1000 : 0;
+      state.delayMs = Math.max(minHostDelayMs, crawlDelayMs);
+
+      if (state.delayMs > maxHostDelayMs) {
+        skipHost(state, `Crawl-delay of ${seconds}s for ${host} is too long`);
+      }
+
+      pump();
+    });
+  };
+
+  const isReady = (state: HostState, now: number): boolean =>
+    state.skipReason === null &&
+    state.delayMs !== null &&
+    state.queue.length > 0 &&
+    state.active < perHostConcurrency &&
+    state.nextStartAt <= now;
+
+  const start = (state: HostState): void => {
+    const task = state.queue.shift();
+
+    if (task === undefined) {
+      return;
+    }
+
+    active++;
+    state.active++;
+    state.nextStartAt = Math.max(
+      state.nextStartAt,
+      Date.now() + (state.delayMs ?? minHostDelayMs)
+    );
+
+    void task.run().finally(() => {
+      active--;
+      state.active--;
+      pump();
+    });
+  };
+
+  /**
+   * Start as many ready tasks as there are free slots, then wake up again
+   * when the next delayed host becomes ready
+   */
+  function pump(): void {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const now = Date.now();
+
+    while (active < concurrency) {
+      let started = false;
+
+      for (let i = 0; i < order.length; i++) {
+        const index = (cursor + i) % order.length;
+        const state = hosts.get(order[index] ?? "");
+
+        if (state !== undefined && isReady(state, now)) {
+          start(state);
+          cursor = (index + 1) % order.length;
+          started = true;
+          break;
+        }
+      }
+
+      if (!started) {
+        break;
+      }
+    }
+
+    if (active >= concurrency) {
+      return;
+    }
+
+    // Hosts that only wait for their delay to pass
+    const wakeAt = Math.min(
+      ...[...hosts.values()]
+        .filter(
+          (state) =>
+            state.skipReason === null &&
+            state.delayMs !== null &&
+            state.queue.length > 0 &&
+            state.active < perHostConcurrency
+        )
+        .map((state) => state.nextStartAt)
+    );
+
+    if (Number.isFinite(wakeAt)) {
+      timer = setTimeout(pump, Math.max(0, wakeAt - now));
+    }
+  }
+
+  const hostState = (url: string): HostState => {
+    const host = hostOf(url);
+    const existing = hosts.get(host);
+
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const state: HostState = {
+      queue: [],
+      active: 0,
+      nextStartAt: 0,
+      delayMs: null,
+      skipReason: null,
+    };
+
+    hosts.set(host, state);
+    order.push(host);
+    resolveDelay(host, url, state);
+
+    return state;
+  };
+
+  return {
+    schedule<TResult>(
+      url: string,
+      fn: () => Promise<TResult>
+    ): Promise<HostTaskResult<TResult>> {
+      const state = hostState(url);
+
+      if (state.skipReason !== null) {
+        return Promise.resolve({ status: "skipped", reason: state.skipReason });
+      }
+
+      return new Promise<HostTaskResult<TResult>>((resolve, reject) => {
+        state.queue.push({
+          run: () =>
+            fn().then((value) => resolve({ status: "done", value }), reject),
+          skip: (reason) => resolve({ status: "skipped", reason }),
+        });
+        pump();
+      });
+    },
+
+    backOff(url: string, ms: number): void {
+      const state = hostState(url);
+
+      if (ms > maxHostDelayMs) {
+        skipHost(
+          state,
+          `${hostOf(url)} asked to retry after ${Math.round(ms / 1000)}s`
+        );
+        return;
+      }
+
+      state.nextStartAt = Math.max(state.nextStartAt, Date.now() + ms);
+      pump();
+    },
+  };
+}
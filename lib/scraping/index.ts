@@ -2,6 +2,21 @@
  * Scraping module - Extract content from external URLs
  */
 
+export * from "./archive";
+export * from "./articles";
+export * from "./canonical-url";
 export * from "./extractor";
+export * from "./host-scheduler";
+export * from "./markdown";
+export * from "./metadata";
+export * from "./pdf";
+export * from "./re-extract";
+export * from "./readability";
+export * from "./refresh";
+export * from "./render";
+export * from "./retry";
 export * from "./robots";
 export * from "./scraper";
+export * from "./site-extractors";
+export * from "./story-articles";
+export * from "./versions";
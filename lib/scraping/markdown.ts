@@ -0,0 +1,449 @@
+/**
+ * Markdown rendition of extracted page content
+ *
+ * Keeps the structure that plain text loses: headings, lists, tables, code
+ * blocks, block quotes, links and emphasis. Images, forms and embedded media
+ * are dropped.
+ */
+
+import type * as cheerio from "cheerio";
+
+/**
+ * A cheerio selection of parsed HTML nodes
+ */
+type NodeSelection = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["contents"]
+>;
+
+/**
+ * A single parsed node
+ */
+type HtmlNode = NodeSelection[number];
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * Elements rendered as their own block(s) rather than inline text
+ */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+/**
+ * Elements whose content is never part of the rendition
+ */
+const SKIPPED_TAGS = new Set([
+  "audio",
+  "button",
+  "canvas",
+  "form",
+  "img",
+  "input",
+  "picture",
+  "select",
+  "svg",
+  "textarea",
+  "video",
+]);
+
+/**
+ * Lower-case tag name of a node, or an empty string for non-elements
+ *
+ * @param $ - Loaded document
+ * @param node - Node to check
+ * @returns Tag name
+ */
+function tagOf($: cheerio.CheerioAPI, node: HtmlNode): string {
+  return node.nodeType === ELEMENT_NODE
+    ? ($(node).prop("tagName") ?? "").toLowerCase()
+    : "";
+}
+
+/**
+ * Escape characters that would otherwise be read as markdown syntax
+ *
+ * @param text - Plain text
+ * @returns Text safe to place in a markdown paragraph
+ */
+export function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, "\\$1");
+}
+
+/**
+ * Resolve a link target against the page URL
+ *
+ * @param href - Link target as written in the page
+ * @param baseUrl - Page URL
+ * @returns Absolute URL, or null for in-page and script links
+ */
+function resolveHref(href: string, baseUrl: string): string | null {
+  if (href.startsWith("#") || href.startsWith("javascript:")) {
+    return null;
+  }
+
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render inline content (text, links, emphasis, inline code) on one line
+ *
+ * @param $ - Loaded document
+ * @param nodes - Nodes to render
+ * @param baseUrl - Page URL for resolving links
+ * @returns Markdown with whitespace collapsed
+ */
+function renderInline(
+  $: cheerio.CheerioAPI,
+  nodes: HtmlNode[],
+  baseUrl: string
+): string {
+  return nodes
+    .map((node) => {
+      if (node.nodeType === TEXT_NODE) {
+        return escapeText($(node).text().replace(/\s+/g, " "));
+      }
+
+      const tag = tagOf($, node);
+
+      if (tag === "" || SKIPPED_TAGS.has(tag)) {
+        return "";
+      }
+
+      const inner = (): string =>
+        renderInline($, $(node).contents().toArray(), baseUrl);
+
+      switch (tag) {
+        case "br":
+          return " ";
+        case "a": {
+          const text = inner().trim();
+          const href = $(node).attr("href");
+          const target = href !== undefined ? resolveHref(href, baseUrl) : null;
+
+          return target !== null && text.length > 0
+            ? `[${text}](${target})`
+            : text;
+        }
+        case "em":
+        case "i":
+          return wrapInline(inner(), "*");
+        case "strong":
+        case "b":
+          return wrapInline(inner(), "**");
+        case "code":
+        case "kbd":
+        case "samp": {
+          const code = $(node).text().replace(/\s+/g, " ");
+          return code.trim().length > 0 ? `\`${code.replace(/`/g, "'")}\`` : "";
+        }
+        default:
+          return inner();
+      }
+    })
+    .join("");
+}
+
+/**
+ * Wrap inline text in an emphasis marker, keeping surrounding spaces
+ * outside the marker
+ *
+ * @param text - Rendered inline text
+ * @param marker - Markdown marker (`*` or `**`)
+ * @returns Wrapped text, or the text unchanged if it is blank
+ */
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+
+  if (trimmed.length === 0) {
+    return text;
+  }
+
+  const leading = text.startsWith(" ") ? " " : "";
+  const trailing = text.endsWith(" ") ? " " : "";
+
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+/**
+ * Prefix every line of a block, indenting list item continuation lines
+ *
+ * @param block - Rendered block
+ * @param first - Prefix for the first line
+ * @param rest - Prefix for the following lines
+ * @returns Prefixed block
+ */
+function prefixLines(block: string, first: string, rest: string): string {
+  return block
+    .split("\n")
+    .map((line, index) =>
+      index === 0 ? `${first}${line}` : line.length > 0 ? `${rest}${line}` : ""
+    )
+    .join("\n");
+}
+
+/**
+ * Render a list as markdown items, nesting sub-lists under their item
+ *
+ * @param $ - Loaded document
+ * @param list - `ul` or `ol` element
+ * @param baseUrl - Page URL for resolving links
+ * @returns Markdown list
+ */
+function renderList(
+  $: cheerio.CheerioAPI,
+  list: HtmlNode,
+  baseUrl: string
+): string {
+  const ordered = tagOf($, list) === "ol";
+  const start = parseInt($(list).attr("start") ?? "1", 10);
+
+  return $(list)
+    .children("li")
+    .toArray()
+    .map((item, index) => {
+      const marker = ordered
+        ? `${(Number.isNaN(start) ? 1 : start) + index}. `
+        : "- ";
+      const body = renderBlocks($, $(item).contents().toArray(), baseUrl)
+        // Items are tight: no blank lines between an item's paragraphs
+        .replace(/\n\n+/g, "\n");
+
+      return prefixLines(body, marker, " ".repeat(marker.length));
+    })
+    .filter((item) => item.trim().length > 0)
+    .join("\n");
+}
+
+/**
+ * Render a table as a GFM pipe table, using the first row as the header
+ *
+ * Cells are flattened to a single line of inline content.
+ *
+ * @param $ - Loaded document
+ * @param table - `table` element
+ * @param baseUrl - Page URL for resolving links
+ * @returns Markdown table, or an empty string for a table without cells
+ */
+function renderTable(
+  $: cheerio.CheerioAPI,
+  table: HtmlNode,
+  baseUrl: string
+): string {
+  const rows = $(table)
+    .find("tr")
+    .toArray()
+    .filter((row) => $(row).closest("table").get(0) === table)
+    .map((row) =>
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) =>
+          renderInline($, $(cell).contents().toArray(), baseUrl)
+            .trim()
+            .replace(/\|/g, "\\|")
+        )
+    )
+    .filter((cells) => cells.length > 0);
+
+  const [header, ...body] = rows;
+
+  if (header === undefined) {
+    return "";
+  }
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]): string =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+
+  return [
+    line(header),
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+    ...body.map(line),
+  ].join("\n");
+}
+
+/**
+ * Render a code block as a fenced block, keeping its whitespace
+ *
+ * @param $ - Loaded document
+ * @param pre - `pre` element
+ * @returns Fenced code block
+ */
+function renderCode($: cheerio.CheerioAPI, pre: HtmlNode): string {
+  const code = $(pre)
+    .text()
+    .replace(/^\n+|\s+$/g, "");
+  const language = ($(pre).find("code").attr("class") ?? "").match(
+    /(?:lang|language)-(\S+)/
+  )?.[1];
+  // A fence longer than any backtick run in the code
+  const longestRun = Math.max(
+    0,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}${language ?? ""}\n${code}\n${fence}`;
+}
+
+/**
+ * Render a single block element
+ *
+ * @param $ - Loaded document
+ * @param node - Block element
+ * @param tag - Its lower-case tag name
+ * @param baseUrl - Page URL for resolving links
+ * @returns Markdown block(s)
+ */
+function renderBlock(
+  $: cheerio.CheerioAPI,
+  node: HtmlNode,
+  tag: string,
+  baseUrl: string
+): string {
+  const contents = $(node).contents().toArray();
+
+  switch (tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = renderInline($, contents, baseUrl).trim();
+      return text.length > 0 ? `${"#".repeat(Number(tag[1]))} ${text}` : "";
+    }
+    case "p":
+    case "dt":
+    case "figcaption":
+    case "summary":
+      return renderInline($, contents, baseUrl).trim();
+    case "ul":
+    case "ol":
+      return renderList($, node, baseUrl);
+    case "pre":
+      return renderCode($, node);
+    case "table":
+      return renderTable($, node, baseUrl);
+    case "hr":
+      return "---";
+    case "blockquote": {
+      const quote = renderBlocks($, contents, baseUrl);
+      return quote
+        .split("\n")
+        .map((line) => (line.length > 0 ? `> ${line}` : ">"))
+        .join("\n");
+    }
+    default:
+      return renderBlocks($, contents, baseUrl);
+  }
+}
+
+/**
+ * Render a sequence of nodes as markdown blocks
+ *
+ * Runs of inline nodes between block elements become paragraphs.
+ *
+ * @param $ - Loaded document
+ * @param nodes - Nodes to render
+ * @param baseUrl - Page URL for resolving links
+ * @returns Markdown blocks separated by blank lines
+ */
+function renderBlocks(
+  $: cheerio.CheerioAPI,
+  nodes: HtmlNode[],
+  baseUrl: string
+): string {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flush = (): void => {
+    const paragraph = renderInline($, inline, baseUrl).trim();
+
+    if (paragraph.length > 0) {
+      blocks.push(paragraph);
+    }
+
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    const tag = tagOf($, node);
+
+    if (!BLOCK_TAGS.has(tag)) {
+      inline.push(node);
+      continue;
+    }
+
+    flush();
+
+    const block = renderBlock($, node, tag, baseUrl);
+
+    if (block.length > 0) {
+      blocks.push(block);
+    }
+  }
+
+  flush();
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Convert extracted content to markdown
+ *
+ * Headings become ATX headings, lists keep their nesting and numbering,
+ * tables become GFM pipe tables and `<pre>` blocks become fenced code
+ * blocks (with the language from a `language-*` class when present). Links
+ * are resolved against the page URL.
+ *
+ * @param $ - Loaded document
+ * @param content - Content elements, e.g. from `findMainContent`
+ * @param baseUrl - Page URL for resolving relative links
+ * @returns Markdown, or an empty string if the content has no text
+ *
+ * @example
+ * const main = findMainContent($);
+ * const markdown = main !== null ? contentToMarkdown($, main.content, url) : "";
+ */
+export function contentToMarkdown(
+  $: cheerio.CheerioAPI,
+  content: NodeSelection,
+  baseUrl: string
+): string {
+  return renderBlocks($, content.toArray(), baseUrl).trim();
+}
@@ -0,0 +1,490 @@
+/**
+ * Page metadata extraction: author, dates, site, description, language,
+ * image, keywords and canonical URL
+ *
+ * Each field is read from JSON-LD first, then from meta tags (Open Graph,
+ * `article:*`, Dublin Core, citation tags) and finally from schema.org
+ * microdata; the first non-empty value wins.
+ */
+
+import type * as cheerio from "cheerio";
+import { resolveCanonicalLink } from "./canonical-url";
+
+/**
+ * Metadata declared by a page
+ */
+export interface PageMetadata {
+  /**
+   * Author names, comma-separated if there are several
+   */
+  author: string | null;
+  publishedAt: Date | null;
+  siteName: string | null;
+  description: string | null;
+
+  /**
+   * Primary language subtag, lower-case (e.g. "en" for `en-US`)
+   */
+  language: string | null;
+
+  /**
+   * Absolute URL of the page's preview image (`og:image` or equivalent)
+   */
+  imageUrl: string | null;
+  keywords: string[];
+
+  /**
+   * Target of the page's `rel=canonical` link (see `resolveCanonicalLink`)
+   */
+  canonicalUrl: string | null;
+}
+
+/**
+ * Metadata stored with a scraped article
+ */
+export interface ArticleMetadata extends Omit<PageMetadata, "canonicalUrl"> {
+  /**
+   * Words in the extracted text
+   */
+  wordCount: number | null;
+}
+
+/**
+ * JSON-LD types that describe the page's main content
+ */
+const ARTICLE_TYPES = new Set([
+  "Article",
+  "NewsArticle",
+  "BlogPosting",
+  "TechArticle",
+  "ScholarlyArticle",
+  "Report",
+  "SocialMediaPosting",
+  "DiscussionForumPosting",
+  "VideoObject",
+  "WebPage",
+]);
+
+/**
+ * JSON-LD types that describe the site as a whole
+ */
+const WEBSITE_TYPES = new Set(["WebSite", "Organization"]);
+
+/**
+ * Most keywords kept per article
+ */
+const MAX_KEYWORDS = 20;
+
+/**
+ * A JSON-LD node
+ */
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Narrow a JSON value to an object
+ *
+ * @param value - JSON value
+ * @returns The object, or null for anything else
+ */
+function asNode(value: unknown): JsonLdNode | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as JsonLdNode)
+    : null;
+}
+
+/**
+ * Read a JSON-LD value as text
+ *
+ * Objects contribute their `name` (people, organizations) or `url` (images);
+ * arrays their first usable item.
+ *
+ * @param value - JSON-LD value
+ * @returns Trimmed text, or null if empty
+ */
+function jsonLdText(value: unknown): string | null {
+  if (typeof value === "string") {
+    const text = value.trim();
+    return text.length > 0 ? text : null;
+  }
+
+  if (typeof value === "number") {
+    return String(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(jsonLdText).find((text) => text !== null) ?? null;
+  }
+
+  const node = asNode(value);
+
+  return node !== null
+    ? (jsonLdText(node["name"]) ?? jsonLdText(node["url"]))
+    : null;
+}
+
+/**
+ * Check whether a JSON-LD node has one of the given types
+ *
+ * @param node - JSON-LD node
+ * @param types - Accepted `@type` values
+ * @returns True if any of the node's types is accepted
+ */
+function hasType(node: JsonLdNode, types: ReadonlySet<string>): boolean {
+  const type = node["@type"];
+  const values = Array.isArray(type) ? type : [type];
+
+  return values.some((value) => typeof value === "string" && types.has(value));
+}
+
+/**
+ * Parse every JSON-LD block of a page into a flat list of nodes
+ *
+ * Top-level arrays and `@graph` containers are flattened; blocks that are
+ * not valid JSON are skipped.
+ *
+ * @param $ - Loaded document
+ * @returns JSON-LD nodes in document order
+ */
+function readJsonLd($: cheerio.CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+      return;
+    }
+
+    const node = asNode(value);
+
+    if (node === null) {
+      return;
+    }
+
+    nodes.push(node);
+
+    if (Array.isArray(node["@graph"])) {
+      node["@graph"].forEach(collect);
+    }
+  };
+
+  $("script[type='application/ld+json']").each((_, script) => {
+    try {
+      collect(JSON.parse($(script).text()) as unknown);
+    } catch {
+      // Broken JSON-LD is common; the other sources still apply
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * First non-empty `content` of the matching meta tags
+ *
+ * @param $ - Loaded document
+ * @param selectors - Meta tag selectors, in order of preference
+ * @returns Trimmed content, or null
+ */
+function metaContent(
+  $: cheerio.CheerioAPI,
+  selectors: string[]
+): string | null {
+  for (const selector of selectors) {
+    const content = $(selector).first().attr("content")?.trim() ?? "";
+
+    if (content.length > 0) {
+      return content;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Value of the first microdata property with the given name
+ *
+ * Nested items (e.g. an author `Person`) yield their `name`; other elements
+ * their `content`, `datetime`, `src` or `href` attribute, or their text.
+ *
+ * @param $ - Loaded document
+ * @param property - `itemprop` name
+ * @returns Trimmed value, or null
+ */
+function microdata($: cheerio.CheerioAPI, property: string): string | null {
+  const element = $(`[itemprop~='${property}']`).first();
+
+  if (element.length === 0) {
+    return null;
+  }
+
+  const name =
+    element.attr("itemscope") !== undefined
+      ? element.find("[itemprop~='name']").first()
+      : null;
+  const target = name !== null && name.length > 0 ? name : element;
+  const value =
+    target.attr("content") ??
+    target.attr("datetime") ??
+    target.attr("src") ??
+    target.attr("href") ??
+    target.text();
+  const text = value.replace(/\s+/g, " ").trim();
+
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * First value that is neither null nor empty
+ *
+ * @param values - Candidate values, in order of preference
+ * @returns The first usable value, or null
+ */
+function firstOf(...values: Array<string | null | undefined>): string | null {
+  return (
+    values.find(
+      (value): value is string =>
+        value !== null && value !== undefined && value.trim().length > 0
+    ) ?? null
+  );
+}
+
+/**
+ * Parse a publication date
+ *
+ * @param value - Date string (ISO 8601, RFC 2822, `YYYY/MM/DD`, ...)
+ * @returns Date, or null if unparseable
+ */
+function parseDate(value: string | null): Date | null {
+  if (value === null) {
+    return null;
+  }
+
+  const time = Date.parse(value);
+
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Reduce a language tag or locale to its primary language subtag
+ *
+ * @param value - e.g. "en-US", "en_GB" or "de"
+ * @returns Lower-case subtag, or null if it does not look like a language
+ */
+function parseLanguage(value: string | null): string | null {
+  const subtag = value?.split(/[-_]/)[0]?.trim().toLowerCase() ?? "";
+
+  return /^[a-z]{2,3}$/.test(subtag) ? subtag : null;
+}
+
+/**
+ * Resolve an image URL against the page URL
+ *
+ * @param value - Image URL, possibly relative
+ * @param pageUrl - Page URL
+ * @returns Absolute http(s) URL, or null
+ */
+function resolveImageUrl(value: string | null, pageUrl: string): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  try {
+    const image = new URL(value, pageUrl);
+    return image.protocol === "http:" || image.protocol === "https:"
+      ? image.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split keywords into a de-duplicated list
+ *
+ * @param values - Keyword lists, comma-separated strings or arrays
+ * @returns Keywords in order of first appearance, at most `MAX_KEYWORDS`
+ */
+function parseKeywords(values: unknown[]): string[] {
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+
+  const add = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(add);
+      return;
+    }
+
+    if (typeof value !== "string") {
+      return;
+    }
+
+    for (const part of value.split(",")) {
+      const keyword = part.trim();
+
+      if (keyword.length > 0 && !seen.has(keyword.toLowerCase())) {
+        seen.add(keyword.toLowerCase());
+        keywords.push(keyword);
+      }
+    }
+  };
+
+  values.forEach(add);
+
+  return keywords.slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * Read the authors of a JSON-LD node
+ *
+ * @param value - `author` value: a name, a person or a list of either
+ * @returns Comma-separated names, or null
+ */
+function jsonLdAuthors(value: unknown): string | null {
+  const authors = (Array.isArray(value) ? value : [value])
+    .map(jsonLdText)
+    .filter((name): name is string => name !== null && !/^https?:/.test(name));
+
+  return authors.length > 0 ? authors.join(", ") : null;
+}
+
+/**
+ * Count the words of extracted text
+ *
+ * @param text - Plain text
+ * @returns Number of whitespace-separated words, or null without text
+ *
+ * @example
+ * countWords("Hello, brave new world"); // 4
+ */
+export function countWords(text: string | null): number | null {
+  if (text === null) {
+    return null;
+  }
+
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Extract the metadata a page declares about itself
+ *
+ * Call before removing `script` elements: JSON-LD lives in them.
+ *
+ * @param $ - Loaded document
+ * @param url - URL the page was served from; relative URLs are resolved
+ * against it
+ * @returns Page metadata; fields the page does not declare are null
+ *
+ * @example
+ * const metadata = extractMetadata(cheerio.load(html), url);
+ * console.log(metadata.author, metadata.publishedAt?.toISOString());
+ */
+export function extractMetadata(
+  $: cheerio.CheerioAPI,
+  url: string
+): PageMetadata {
+  const nodes = readJsonLd($);
+  const article = nodes.find((node) => hasType(node, ARTICLE_TYPES)) ?? null;
+  const website = nodes.find((node) => hasType(node, WEBSITE_TYPES)) ?? null;
+  const publisher = asNode(article?.["publisher"]);
+
+  // Often a profile URL rather than a name
+  const articleAuthor = metaContent($, ["meta[property='article:author']"]);
+  const author = firstOf(
+    jsonLdAuthors(article?.["author"]),
+    metaContent($, [
+      "meta[name='author']",
+      "meta[name='dc.creator']",
+      "meta[name='citation_author']",
+    ]),
+    articleAuthor !== null && !/^https?:/.test(articleAuthor)
+      ? articleAuthor
+      : null,
+    microdata($, "author"),
+    $("a[rel~='author']").first().text().trim()
+  );
+
+  const publishedAt = parseDate(
+    firstOf(
+      jsonLdText(article?.["datePublished"]),
+      jsonLdText(article?.["dateCreated"]),
+      metaContent($, [
+        "meta[property='article:published_time']",
+        "meta[name='date']",
+        "meta[name='pubdate']",
+        "meta[name='publish-date']",
+        "meta[name='dc.date']",
+        "meta[name='citation_publication_date']",
+      ]),
+      microdata($, "datePublished")
+    )
+  );
+
+  const siteName = firstOf(
+    metaContent($, [
+      "meta[property='og:site_name']",
+      "meta[name='application-name']",
+    ]),
+    jsonLdText(publisher?.["name"]),
+    jsonLdText(website?.["name"])
+  );
+
+  const description = firstOf(
+    metaContent($, [
+      "meta[property='og:description']",
+      "meta[name='description']",
+      "meta[name='twitter:description']",
+    ]),
+    jsonLdText(article?.["description"]),
+    microdata($, "description")
+  );
+
+  const language = parseLanguage(
+    firstOf(
+      $("html").attr("lang"),
+      metaContent($, ["meta[http-equiv='content-language']"]),
+      jsonLdText(article?.["inLanguage"]),
+      metaContent($, ["meta[property='og:locale']"]),
+      microdata($, "inLanguage")
+    )
+  );
+
+  const imageUrl = resolveImageUrl(
+    firstOf(
+      jsonLdText(article?.["image"]),
+      metaContent($, [
+        "meta[property='og:image']",
+        "meta[property='og:image:url']",
+        "meta[name='twitter:image']",
+      ]),
+      microdata($, "image")
+    ),
+    url
+  );
+
+  const keywords = parseKeywords([
+    article?.["keywords"],
+    metaContent($, ["meta[name='keywords']", "meta[name='news_keywords']"]),
+    $("meta[property='article:tag']")
+      .toArray()
+      .map((tag) => $(tag).attr("content")),
+    microdata($, "keywords"),
+  ]);
+
+  // Only rel=canonical: articles are merged on this URL, and `og:url` and
+  // JSON-LD `url` are too often a section or home page
+  const canonicalUrl = resolveCanonicalLink(
+    $("link[rel~='canonical']").attr("href"),
+    url
+  );
+
+  return {
+    author,
+    publishedAt,
+    siteName,
+    description,
+    language,
+    imageUrl,
+    keywords,
+    canonicalUrl,
+  };
+}
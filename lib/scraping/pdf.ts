@@ -0,0 +1,231 @@
+/**
+ * Text extraction from PDF documents (papers, specs, slide decks)
+ */
+
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+
+/**
+ * Default maximum PDF size to download, in bytes (20 MB)
+ */
+export const DEFAULT_MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Text extracted from a PDF
+ */
+export interface ExtractedPdf {
+  title: string | null;
+
+  /**
+   * Text of all pages, pages separated by blank lines; null if the PDF has
+   * no text layer (e.g. a scanned document)
+   */
+  content: string | null;
+  pageCount: number;
+
+  /**
+   * `Author`, `CreationDate`, `Subject` and `Keywords` of the document
+   * information dictionary
+   */
+  author: string | null;
+  publishedAt: Date | null;
+  description: string | null;
+  keywords: string[];
+}
+
+/**
+ * Check whether a response holds a PDF
+ *
+ * Some servers send PDFs as `application/octet-stream`; those are accepted
+ * when the URL path ends in `.pdf`.
+ *
+ * @param contentType - Response `Content-Type` header
+ * @param url - Response URL
+ * @returns True if the body should be parsed as a PDF
+ */
+export function isPdfResponse(contentType: string, url: string): boolean {
+  if (contentType.includes("application/pdf")) {
+    return true;
+  }
+
+  if (!contentType.includes("application/octet-stream")) {
+    return false;
+  }
+
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith(".pdf");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a response body, giving up once it exceeds a size limit
+ *
+ * The `Content-Length` header is checked first so oversized files are
+ * rejected without downloading them; the limit is enforced while streaming
+ * as well, since the header may be missing or wrong.
+ *
+ * @param response - Fetch response
+ * @param maxBytes - Maximum body size in bytes
+ * @returns Body bytes, or null if the body is larger than `maxBytes`
+ */
+export async function readBodyWithLimit(
+  response: Response,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const declared = Number(response.headers.get("content-length"));
+
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (response.body === null) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+
+    parts.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.byteLength;
+  }
+
+  return body;
+}
+
+/**
+ * Join the lines of a page, undoing hyphenation at line ends and dropping
+ * blank runs
+ *
+ * @param text - Page text as extracted, one line per text row
+ * @returns Cleaned page text
+ */
+function cleanPageText(text: string): string {
+  return text
+    .replace(/(\w)-\n(\w)/g, "$1$2")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * Read a text entry of the document information dictionary
+ *
+ * @param info - Information dictionary
+ * @param key - Entry name, e.g. "Author"
+ * @returns Trimmed text, or null if absent or empty
+ */
+function infoText(info: Record<string, unknown>, key: string): string | null {
+  const value = info[key];
+
+  return typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : null;
+}
+
+/**
+ * Parse a PDF date
+ *
+ * @param value - Date in PDF format, e.g. "D:20240131120000+01'00'"
+ * @returns Date, or null if absent or malformed
+ *
+ * @example
+ * parsePdfDate("D:20240131120000Z"); // 2024-01-31T12:00:00.000Z
+ */
+function parsePdfDate(value: string | null): Date | null {
+  const match =
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/.exec(
+      value ?? ""
+    );
+
+  if (match === null) {
+    return null;
+  }
+
+  const [
+    ,
+    year,
+    month = "01",
+    day = "01",
+    hour = "00",
+    minute = "00",
+    second = "00",
+  ] = match;
+  const zone = match[7]?.replace(/'/g, "") ?? "Z";
+  const offset = zone === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  const time = Date.parse(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`
+  );
+
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Extract the text and page count of a PDF
+ *
+ * The title comes from the document metadata, falling back to the first
+ * line of the first page; author, date, subject and keywords come from the
+ * metadata only.
+ *
+ * @param data - PDF bytes
+ * @returns Extracted text, title and page count
+ * @throws If the data is not a readable PDF
+ *
+ * @example
+ * const body = await readBodyWithLimit(response, DEFAULT_MAX_PDF_BYTES);
+ * const pdf = await extractPdf(body);
+ * console.log(pdf.title, pdf.pageCount);
+ */
+export async function extractPdf(data: Uint8Array): Promise<ExtractedPdf> {
+  const document = await getDocumentProxy(data);
+
+  try {
+    const [{ totalPages, text }, { info }] = await Promise.all([
+      extractText(document, { mergePages: false }),
+      getMeta(document),
+    ]);
+
+    const pages = text.map(cleanPageText).filter((page) => page.length > 0);
+    const content = pages.join("\n\n");
+    const title = infoText(info, "Title") ?? pages[0]?.split("\n")[0] ?? null;
+
+    return {
+      title,
+      content: content.length > 0 ? content : null,
+      pageCount: totalPages,
+      author: infoText(info, "Author"),
+      publishedAt: parsePdfDate(infoText(info, "CreationDate")),
+      description: infoText(info, "Subject"),
+      keywords: (infoText(info, "Keywords") ?? "")
+        .split(/[,;]/)
+        .map((keyword) => keyword.trim())
+        .filter((keyword) => keyword.length > 0),
+    };
+  } finally {
+    await document.loadingTask.destroy();
+  }
+}
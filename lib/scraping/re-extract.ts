@@ -0,0 +1,175 @@
+/**
+ * Re-extraction of scraped articles from the response archive
+ *
+ * After the extractor improves, archived responses are run through it again
+ * instead of re-downloading every page. Title, text, markdown and metadata
+ * are replaced; when the text changes, the article's embeddings are dropped
+ * so the next embedding run regenerates them. Versions, validators, fetch
+ * times and canonical URLs are left alone: they describe what was fetched,
+ * not how it was extracted.
+ */
+
+import { prisma } from "../database";
+import { DEFAULT_ARCHIVE_DIR, readArchivedResponse } from "./archive";
+import { extractResponseBody } from "./scraper";
+import { hashContent } from "./versions";
+
+/**
+ * Options for a re-extraction pass
+ */
+export interface ReExtractOptions {
+  /**
+   * Maximum number of articles to re-extract
+   */
+  limit?: number;
+
+  /**
+   * Articles read per query
+   * @default 200
+   */
+  batchSize?: number;
+
+  /**
+   * Archive directory
+   * @default DEFAULT_ARCHIVE_DIR
+   */
+  archiveDir?: string;
+}
+
+/**
+ * Statistics of a re-extraction pass
+ */
+export interface ReExtractStats {
+  /**
+   * Articles whose extracted text changed; their embeddings were dropped
+   */
+  changed: number;
+
+  /**
+   * Articles whose text stayed the same (metadata and markdown are still
+   * updated)
+   */
+  unchanged: number;
+
+  /**
+   * Articles whose archived response is no longer in the archive
+   */
+  missing: number;
+
+  /**
+   * Articles the current extractor gets nothing from; they keep their
+   * previous content
+   */
+  failed: number;
+}
+
+/**
+ * Re-run the current extractor over the archived responses of scraped
+ * articles, without touching the network
+ *
+ * @param options - Re-extraction options
+ * @returns Statistics about the pass
+ *
+ * @example
+ * const stats = await reExtractArticles({ limit: 100 });
+ * console.log(`${stats.changed} articles changed`);
+ */
+export async function reExtractArticles(
+  options: ReExtractOptions = {}
+): Promise<ReExtractStats> {
+  const { limit, batchSize = 200, archiveDir = DEFAULT_ARCHIVE_DIR } = options;
+  const stats: ReExtractStats = {
+    changed: 0,
+    unchanged: 0,
+    missing: 0,
+    failed: 0,
+  };
+  let remaining = limit ?? Infinity;
+  let cursor = 0;
+
+  while (remaining > 0) {
+    const articles = await prisma.scrapedArticle.findMany({
+      where: {
+        id: { gt: cursor },
+        status: "success",
+        archiveKey: { not: null },
+      },
+      select: { id: true, url: true, archiveKey: true, contentHash: true },
+      orderBy: { id: "asc" },
+      take: Math.min(batchSize, remaining),
+    });
+
+    if (articles.length === 0) {
+      break;
+    }
+
+    for (const article of articles) {
+      if (article.archiveKey === null) {
+        continue;
+      }
+
+      const archived = await readArchivedResponse(
+        article.archiveKey,
+        archiveDir
+      );
+
+      if (archived === null) {
+        console.log(`? ${article.url}: not in the archive`);
+        stats.missing++;
+        continue;
+      }
+
+      const contentType =
+        archived.headers["content-type"]?.split(";")[0]?.trim().toLowerCase() ??
+        "";
+      const extracted = await extractResponseBody(
+        archived.body,
+        contentType,
+        archived.finalUrl
+      );
+
+      if ("error" in extracted || extracted.content === null) {
+        console.log(
+          `✗ ${article.url}: ${"error" in extracted ? extracted.error : "No content extracted"}`
+        );
+        stats.failed++;
+        continue;
+      }
+
+      const contentHash = hashContent(extracted.content);
+      const changed = contentHash !== article.contentHash;
+
+      await prisma.$transaction([
+        prisma.scrapedArticle.update({
+          where: { id: article.id },
+          data: {
+            title: extracted.title,
+            content: extracted.content,
+            contentMarkdown: extracted.markdown,
+            extractionConfidence: extracted.confidence,
+            pageCount: extracted.pageCount,
+            ...extracted.metadata,
+            contentHash,
+          },
+        }),
+        // Regenerated from the new text by the next embedding run
+        ...(changed
+          ? [prisma.embedding.deleteMany({ where: { articleId: article.id } })]
+          : []),
+      ]);
+
+      if (changed) {
+        console.log(`✓ Re-extracted ${article.url}, text changed`);
+        stats.changed++;
+      } else {
+        stats.unchanged++;
+      }
+    }
+
+    remaining -= articles.length;
+    cursor = articles[articles.length - 1]?.id ?? cursor;
+    console.log(`Re-extracted articles up to ID ${cursor}...`);
+  }
+
+  return stats;
+}
@@ -0,0 +1,361 @@
+/**
+ * Scoring-based main content detection, modelled on Mozilla Readability
+ *
+ * Every paragraph-like block adds to the score of its parent and (less) its
+ * grandparent and great-grandparent, based on its length and comma count.
+ * Candidates start from a tag weight and a class/id hint, and their final
+ * score is scaled down by their link density. The best candidate is kept,
+ * together with siblings that score close to it (e.g. a lead paragraph that
+ * sits next to the article body).
+ */
+
+import type * as cheerio from "cheerio";
+
+/**
+ * A cheerio selection of elements
+ */
+type ElementSelection = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["find"]
+>;
+
+/**
+ * A single parsed element
+ */
+type HtmlElement = ElementSelection[number];
+
+/**
+ * The main content found in a page
+ */
+export interface MainContent {
+  /**
+   * Elements holding the content, in document order
+   */
+  content: ElementSelection;
+
+  /**
+   * How confident the extractor is that this is the page's main content,
+   * from 0 (a guess) to 1
+   */
+  confidence: number;
+}
+
+/**
+ * Class/id fragments of blocks that are almost never main content
+ */
+const UNLIKELY_CANDIDATE =
+  /-ad-|banner|breadcrumbs|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|menu|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental/i;
+
+/**
+ * Class/id fragments that keep an otherwise unlikely block
+ */
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+/**
+ * Class/id fragments that raise a candidate's score
+ */
+const POSITIVE_HINT =
+  /article|blog|body|content|entry|h-entry|hentry|main|page|post|story|text/i;
+
+/**
+ * Class/id fragments that lower a candidate's score
+ */
+const NEGATIVE_HINT =
+  /-ad-|banner|combx|comment|contact|foot|footer|footnote|gdpr|hidden|masthead|media|meta|newsletter|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|subscribe|tags|tool|widget/i;
+
+/**
+ * Blocks whose text is scored
+ */
+const PARAGRAPH_SELECTOR = "p, pre, td, blockquote";
+
+/**
+ * Block-level children that stop a `div` from counting as a paragraph
+ */
+const BLOCK_CHILD_SELECTOR =
+  "p, div, section, article, ul, ol, table, pre, blockquote, h1, h2, h3, h4, h5, h6";
+
+/**
+ * Tags that are never removed as unlikely candidates
+ */
+const PROTECTED_TAGS = new Set(["html", "body", "article", "main"]);
+
+/**
+ * Minimum text length for a block to be scored
+ */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Text length at which length stops adding to the confidence
+ */
+const CONFIDENT_TEXT_LENGTH = 1500;
+
+/**
+ * Collapse whitespace in extracted text
+ *
+ * @param text - Raw text
+ * @returns Text with single spaces
+ */
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Base score for a candidate, by tag
+ *
+ * @param tag - Lower-case tag name
+ * @returns Tag weight
+ */
+function tagWeight(tag: string): number {
+  switch (tag) {
+    case "article":
+      return 10;
+    case "main":
+    case "div":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+    case "form":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Score adjustment from an element's class and id
+ *
+ * @param $ - Loaded document
+ * @param element - Element to check
+ * @returns +25 per positive hint, -25 per negative hint
+ */
+function classWeight($: cheerio.CheerioAPI, element: HtmlElement): number {
+  let weight = 0;
+
+  for (const hint of [$(element).attr("class"), $(element).attr("id")]) {
+    if (hint === undefined || hint === "") {
+      continue;
+    }
+
+    if (NEGATIVE_HINT.test(hint)) {
+      weight -= 25;
+    }
+
+    if (POSITIVE_HINT.test(hint)) {
+      weight += 25;
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Share of an element's text that sits inside links
+ *
+ * @param $ - Loaded document
+ * @param element - Element to measure
+ * @returns Link density from 0 to 1
+ */
+function linkDensity($: cheerio.CheerioAPI, element: HtmlElement): number {
+  const textLength = normalizeSpace($(element).text()).length;
+
+  if (textLength === 0) {
+    return 0;
+  }
+
+  const linkLength = $(element)
+    .find("a")
+    .toArray()
+    .reduce((sum, link) => sum + normalizeSpace($(link).text()).length, 0);
+
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Remove hidden elements and blocks whose class or id marks them as page
+ * furniture (sidebars, comment sections, related posts, ...)
+ *
+ * @param $ - Loaded document
+ */
+function removeUnlikelyCandidates($: cheerio.CheerioAPI): void {
+  $("[hidden], [aria-hidden='true']").remove();
+
+  $.root()
+    .find("*")
+    .each((_, element) => {
+      if (PROTECTED_TAGS.has(element.tagName.toLowerCase())) {
+        return;
+      }
+
+      const hints = `${$(element).attr("class") ?? ""} ${$(element).attr("id") ?? ""}`;
+
+      if (
+        UNLIKELY_CANDIDATE.test(hints) &&
+        !MAYBE_CANDIDATE.test(hints) &&
+        $(element).closest("table, pre, code").length === 0
+      ) {
+        $(element).remove();
+      }
+    });
+}
+
+/**
+ * Find the elements that are scored as paragraphs: paragraph tags and
+ * divs that only hold inline content
+ *
+ * @param $ - Loaded document
+ * @returns Paragraph elements with their normalised text length
+ */
+function findParagraphs(
+  $: cheerio.CheerioAPI
+): Array<{ element: HtmlElement; length: number }> {
+  const candidates = [
+    ...$(PARAGRAPH_SELECTOR).toArray(),
+    ...$("div")
+      .filter((_, div) => $(div).find(BLOCK_CHILD_SELECTOR).length === 0)
+      .toArray(),
+  ];
+
+  return candidates
+    .map((element) => ({
+      element,
+      length: normalizeSpace($(element).text()).length,
+    }))
+    .filter((paragraph) => paragraph.length >= MIN_PARAGRAPH_LENGTH);
+}
+
+/**
+ * Find the main content of a page
+ *
+ * The document is modified: unlikely candidates are removed. Remove
+ * scripts, styles and other non-content elements before calling.
+ *
+ * Confidence combines how much text was kept (full marks from 1,500
+ * characters), how much of the page's paragraph text the content covers and
+ * how little of it is links.
+ *
+ * @param $ - Loaded document
+ * @returns Main content, or null if the page has no scorable text
+ *
+ * @example
+ * const $ = cheerio.load(html);
+ * const main = findMainContent($);
+ * console.log(main?.content.text(), main?.confidence);
+ */
+export function findMainContent($: cheerio.CheerioAPI): MainContent | null {
+  removeUnlikelyCandidates($);
+
+  const paragraphs = findParagraphs($);
+  const scores = new Map<HtmlElement, number>();
+
+  for (const { element, length } of paragraphs) {
+    const text = $(element).text();
+    const score =
+      1 +
+      (text.match(/,/g)?.length ?? 0) +
+      Math.min(Math.floor(length / 100), 3);
+
+    // Parent gets the full score, grandparent half, great-grandparent a third
+    $(element)
+      .parents()
+      .toArray()
+      .slice(0, 3)
+      .forEach((ancestor, level) => {
+        const current =
+          scores.get(ancestor) ??
+          tagWeight(ancestor.tagName.toLowerCase()) + classWeight($, ancestor);
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+
+        scores.set(ancestor, current + score / divider);
+      });
+  }
+
+  const ranked = [...scores.entries()]
+    .map(([element, score]) => ({
+      element,
+      score: score * (1 - linkDensity($, element)),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const top = ranked[0];
+
+  if (top === undefined) {
+    return null;
+  }
+
+  // Keep siblings that score close to the top candidate, and plain
+  // paragraphs beside it that are long and mostly not links
+  const finalScores = new Map(
+    ranked.map(({ element, score }) => [element, score])
+  );
+  const threshold = Math.max(10, top.score * 0.2);
+  const elements = $(top.element)
+    .parent()
+    .children()
+    .toArray()
+    .filter((sibling) => {
+      if (sibling === top.element) {
+        return true;
+      }
+
+      if ((finalScores.get(sibling) ?? 0) >= threshold) {
+        return true;
+      }
+
+      const length = normalizeSpace($(sibling).text()).length;
+
+      return (
+        sibling.tagName.toLowerCase() === "p" &&
+        length > 80 &&
+        linkDensity($, sibling) < 0.25
+      );
+    });
+
+  const content = $(elements);
+  const keptLength = normalizeSpace(content.text()).length;
+  const totalParagraphLength = paragraphs.reduce(
+    (sum, paragraph) => sum + paragraph.length,
+    0
+  );
+  const keptParagraphLength = paragraphs
+    .filter(
+      ({ element }) =>
+        elements.includes(element) ||
+        $(element)
+          .parents()
+          .toArray()
+          .some((ancestor) => elements.includes(ancestor))
+    )
+    .reduce((sum, paragraph) => sum + paragraph.length, 0);
+
+  const lengthFactor = Math.min(1, keptLength / CONFIDENT_TEXT_LENGTH);
+  const coverage =
+    totalParagraphLength > 0 ? keptParagraphLength / totalParagraphLength : 0;
+  const linkFactor =
+    keptLength > 0
+      ? 1 -
+        Math.min(
+          1,
+          normalizeSpace(content.find("a").text()).length / keptLength
+        )
+      : 0;
+
+  const confidence = 0.4 * lengthFactor + 0.4 * coverage + 0.2 * linkFactor;
+
+  return { content, confidence: Math.round(confidence * 100) / 100 };
+}
@@ -0,0 +1,231 @@
+/**
+ * Re-scraping of already scraped articles to pick up edits and corrections
+ *
+ * Articles are re-fetched with the validators of their last response, so
+ * unchanged pages usually cost a 304. When the page did change, the extracted
+ * text is hashed and compared with the stored hash; only different text
+ * stores a new version and drops the article's embeddings, which the next
+ * embedding run regenerates.
+ */
+
+import { prisma } from "../database";
+import {
+  createScrapeScheduler,
+  scrapeUrl,
+  type ScrapeOptions,
+  type ScrapeRunOptions,
+} from "./scraper";
+import { hashContent } from "./versions";
+
+/**
+ * Options for a refresh pass
+ */
+export interface RefreshOptions
+  extends Omit<ScrapeRunOptions, "maxAttempts" | "conditional"> {
+  /**
+   * Maximum number of articles to re-fetch
+   */
+  limit?: number;
+
+  /**
+   * Re-fetch articles last fetched at least this many hours ago
+   * @default 24
+   */
+  minIntervalHours?: number;
+
+  /**
+   * Only re-fetch articles first queued within this many days; older posts
+   * rarely change
+   * @default 30
+   */
+  maxAgeDays?: number;
+}
+
+/**
+ * Statistics of a refresh pass
+ */
+export interface RefreshStats {
+  /**
+   * Articles whose extracted text changed; a new version was stored
+   */
+  changed: number;
+
+  /**
+   * Articles that answered 304 or whose text hashed the same
+   */
+  unchanged: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Re-fetch successfully scraped articles and store a new version of those
+ * whose text changed
+ *
+ * Articles that have gone longest without a fetch go first. A failed
+ * re-fetch keeps the stored content; only `fetchedAt` moves on so the article
+ * is not retried before the next interval. Rate-limited articles are left
+ * untouched for the next pass.
+ *
+ * @param options - Refresh, scraping and scheduling options
+ * @returns Statistics about the refresh pass
+ *
+ * @example
+ * const stats = await refreshArticles({ limit: 100, minIntervalHours: 12 });
+ * console.log(`${stats.changed} articles changed`);
+ */
+export async function refreshArticles(
+  options: RefreshOptions = {}
+): Promise<RefreshStats> {
+  const { limit, minIntervalHours = 24, maxAgeDays = 30 } = options;
+  const now = Date.now();
+
+  const articles = await prisma.scrapedArticle.findMany({
+    where: {
+      status: "success",
+      fetchedAt: { lte: new Date(now - minIntervalHours * 60 * 60 * 1000) },
+      createdAt: { gte: new Date(now - maxAgeDays * 24 * 60 * 60 * 1000) },
+    },
+    select: {
+      id: true,
+      url: true,
+      contentHash: true,
+      etag: true,
+      lastModified: true,
+    },
+    ...(limit !== undefined && { take: limit }),
+    orderBy: { fetchedAt: "asc" },
+  });
+
+  console.log(`Found ${articles.length} articles to refresh`);
+
+  const stats: RefreshStats = {
+    changed: 0,
+    unchanged: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  const scheduler = createScrapeScheduler(options);
+
+  const refreshArticle = async (
+    article: (typeof articles)[number]
+  ): Promise<void> => {
+    const scrapeOptions: ScrapeOptions = {
+      ...options,
+      conditional: { etag: article.etag, lastModified: article.lastModified },
+    };
+    const outcome = await scheduler.schedule(article.url, () => {
+      console.log(`Refreshing ${article.url}...`);
+      return scrapeUrl(article.url, scrapeOptions);
+    });
+
+    if (outcome.status === "skipped") {
+      console.log(`- Skipped ${article.url}: ${outcome.reason}`);
+      stats.skipped++;
+      return;
+    }
+
+    const result = outcome.value;
+    const fetchedAt = new Date();
+
+    if (result.retryAfterMs !== null) {
+      scheduler.backOff(article.url, result.retryAfterMs);
+      console.log(`- Rate limited on ${article.url}, leaving for next pass`);
+      stats.skipped++;
+      return;
+    }
+
+    if (!result.success || (!result.notModified && result.content === null)) {
+      await prisma.scrapedArticle.update({
+        where: { id: article.id },
+        data: { fetchedAt },
+      });
+
+      console.log(
+        `✗ Failed to refresh ${article.url}: ${result.error ?? "No content extracted"}`
+      );
+      stats.failed++;
+      return;
+    }
+
+    // Keep the old validators when a 304 omits them
+    const validators = {
+      etag: result.etag ?? article.etag,
+      lastModified: result.lastModified ?? article.lastModified,
+    };
+    const contentHash =
+      result.content !== null ? hashContent(result.content) : null;
+
+    if (
+      result.content === null ||
+      contentHash === null ||
+      contentHash === article.contentHash
+    ) {
+      await prisma.scrapedArticle.update({
+        where: { id: article.id },
+        data: {
+          ...validators,
+          // The latest raw response, for re-extraction
+          ...(result.archiveKey !== null && { archiveKey: result.archiveKey }),
+          fetchedAt,
+        },
+      });
+
+      console.log(
+        `= Unchanged ${article.url}${result.notModified ? " (304)" : ""}`
+      );
+      stats.unchanged++;
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.scrapedArticle.update({
+        where: { id: article.id },
+        data: {
+          title: result.title,
+          content: result.content,
+          contentMarkdown: result.markdown,
+          extractionConfidence: result.confidence,
+          contentType: result.contentType,
+          pageCount: result.pageCount,
+          ...result.metadata,
+          contentHash,
+          archiveKey: result.archiveKey,
+          ...validators,
+          fetchedAt,
+          versions: {
+            create: {
+              contentHash,
+              title: result.title,
+              content: result.content,
+              contentMarkdown: result.markdown,
+              fetchedAt,
+            },
+          },
+        },
+      }),
+      // Regenerated from the new text by the next embedding run
+      prisma.embedding.deleteMany({ where: { articleId: article.id } }),
+    ]);
+
+    console.log(`✓ Changed ${article.url}, stored a new version`);
+    stats.changed++;
+  };
+
+  await Promise.all(
+    articles.map(async (article) => {
+      try {
+        await refreshArticle(article);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        console.error(`✗ Error refreshing ${article.url}:`, errorMessage);
+        stats.failed++;
+      }
+    })
+  );
+
+  return stats;
+}
@@ -0,0 +1,91 @@
+/**
+ * Render content elements as plain text and markdown
+ */
+
+import type * as cheerio from "cheerio";
+import { contentToMarkdown } from "./markdown";
+
+/**
+ * A cheerio selection of parsed HTML nodes
+ */
+type NodeSelection = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["contents"]
+>;
+
+/**
+ * Block elements that end a line in the extracted text
+ */
+const BLOCK_ELEMENTS =
+  "p, div, section, article, li, h1, h2, h3, h4, h5, h6, pre, blockquote, tr, figcaption";
+
+/**
+ * Content rendered as plain text and markdown
+ */
+export interface RenderedContent {
+  /**
+   * Plain text, one line per block; null if the content has no text
+   */
+  content: string | null;
+
+  /**
+   * Markdown rendition; null if the content has no text
+   */
+  markdown: string | null;
+}
+
+/**
+ * Render content elements as plain text and markdown
+ *
+ * The document is modified: line breaks are appended to block elements so
+ * they survive `.text()`. Render each document once.
+ *
+ * @param $ - Loaded document
+ * @param content - Elements holding the content
+ * @param baseUrl - Page URL for resolving relative links
+ * @returns Plain text and markdown
+ *
+ * @example
+ * const { content, markdown } = renderContent($, $("article"), url);
+ */
+export function renderContent(
+  $: cheerio.CheerioAPI,
+  content: NodeSelection,
+  baseUrl: string
+): RenderedContent {
+  // Render markdown from the untouched markup, before line breaks are added
+  const markdown = contentToMarkdown($, content, baseUrl);
+
+  // Make block boundaries survive `.text()` as line breaks
+  $("br").replaceWith("\n");
+  $(BLOCK_ELEMENTS).append("\n");
+
+  // Clean up whitespace
+  const text = content
+    .text()
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+
+  return {
+    content: text.length > 0 ? text : null,
+    markdown: markdown.length > 0 ? markdown : null,
+  };
+}
+
+/**
+ * Join blocks of text with blank lines, skipping missing and empty ones
+ *
+ * @param blocks - Blocks in order
+ * @returns Joined text, or null if every block is empty
+ *
+ * @example
+ * joinBlocks([title, null, abstract]); // "Title\n\nAbstract..."
+ */
+export function joinBlocks(blocks: Array<string | null>): string | null {
+  const present = blocks.filter(
+    (block): block is string => block !== null && block.length > 0
+  );
+
+  return present.length > 0 ? present.join("\n\n") : null;
+}
@@ -0,0 +1,159 @@
+/**
+ * Failure classification and the retry queue for failed scrapes
+ *
+ * Every failed scrape is given a class. Transient classes (network errors
+ * and timeouts, 5xx responses, rate limiting, unexpected errors) get a `nextAttemptAt` that backs off
+ * exponentially with the attempt count; permanent classes, and articles that
+ * reach the attempt ceiling, are never retried.
+ */
+
+import { prisma } from "../database";
+
+/**
+ * Why a scrape failed
+ *
+ * - `network` - timeout (including HTTP 408), DNS or connection error
+ * - `server-error` - HTTP 5xx
+ * - `rate-limited` - HTTP 429
+ * - `robots-blocked` - disallowed by robots.txt
+ * - `unsupported-type` - not HTML or a readable PDF (or too large)
+ * - `gone` - HTTP 4xx other than 408 and 429 (not found, removed, forbidden)
+ * - `unknown` - unexpected error while scraping or saving the article
+ */
+export type ScrapeFailureClass =
+  | "network"
+  | "server-error"
+  | "rate-limited"
+  | "robots-blocked"
+  | "unsupported-type"
+  | "gone"
+  | "unknown";
+
+/**
+ * Failure classes worth trying again later
+ */
+const RETRYABLE_FAILURES: ReadonlySet<ScrapeFailureClass> = new Set([
+  "network",
+  "server-error",
+  "rate-limited",
+  "unknown",
+]);
+
+/**
+ * Default number of attempts before a retryable failure becomes permanent
+ */
+export const DEFAULT_MAX_SCRAPE_ATTEMPTS = 5;
+
+/**
+ * Delay before the first retry; doubled for every further attempt
+ */
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Longest delay between retries
+ */
+const RETRY_MAX_DELAY_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a failure class can be retried
+ *
+ * @param failureClass - Failure class
+ * @returns True for transient failures
+ */
+export function isRetryableFailure(failureClass: ScrapeFailureClass): boolean {
+  return RETRYABLE_FAILURES.has(failureClass);
+}
+
+/**
+ * Classify an HTTP error status
+ *
+ * @param status - HTTP status code (4xx or 5xx)
+ * @returns Failure class
+ */
+export function classifyHttpStatus(status: number): ScrapeFailureClass {
+  if (status === 429) {
+    return "rate-limited";
+  }
+
+  // The server gave up waiting for the request, like a client-side timeout
+  if (status === 408) {
+    return "network";
+  }
+
+  return status >= 500 ? "server-error" : "gone";
+}
+
+/**
+ * Decide when a failed article should be scraped again
+ *
+ * @param failureClass - Class of the latest failure, or null if unknown
+ * @param attemptCount - Attempts made so far, including the one that failed
+ * @param options - Retry options
+ * @param options.maxAttempts - Attempt ceiling (default: 5)
+ * @param options.retryAfterMs - Minimum wait requested by the server
+ * @param options.now - Current time
+ * @returns Time of the next attempt, or null if the failure is permanent
+ *
+ * @example
+ * nextAttemptAt("server-error", 1); // in 15 minutes
+ * nextAttemptAt("server-error", 3); // in 1 hour
+ * nextAttemptAt("gone", 1); // null
+ */
+export function nextAttemptAt(
+  failureClass: ScrapeFailureClass | null,
+  attemptCount: number,
+  options: {
+    maxAttempts?: number;
+    retryAfterMs?: number | null;
+    now?: Date;
+  } = {}
+): Date | null {
+  const { maxAttempts = DEFAULT_MAX_SCRAPE_ATTEMPTS, now = new Date() } =
+    options;
+
+  if (
+    failureClass === null ||
+    !isRetryableFailure(failureClass) ||
+    attemptCount >= maxAttempts
+  ) {
+    return null;
+  }
+
+  const backoff = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attemptCount - 1))
+  );
+  const delayMs = Math.max(backoff, options.retryAfterMs ?? 0);
+
+  return new Date(now.getTime() + delayMs);
+}
+
+/**
+ * Put failed articles that are due for a retry back in the pending queue
+ *
+ * Only articles with a `nextAttemptAt` (retryable failures below the attempt
+ * ceiling) that has passed are re-queued; the next scrape run picks them up.
+ *
+ * @param now - Current time
+ * @returns Number of articles re-queued
+ *
+ * @example
+ * const requeued = await requeueFailedArticles();
+ * await scrapeAndPersistArticles();
+ */
+export async function requeueFailedArticles(
+  now: Date = new Date()
+): Promise<number> {
+  const { count } = await prisma.scrapedArticle.updateMany({
+    where: {
+      status: "failed",
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      status: "pending",
+      nextAttemptAt: null,
+    },
+  });
+
+  return count;
+}
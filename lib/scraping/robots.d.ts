@@ -5,6 +5,7 @@
 declare module "robots-parser" {
   interface Robot {
     isAllowed(url: string, userAgent?: string): boolean | null;
+    getCrawlDelay(userAgent?: string): number | undefined;
   }
 
   function robotsParser(url: string, contents: string): Robot;
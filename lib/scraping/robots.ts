@@ -89,3 +89,30 @@ export async function isAllowed(
     return true;
   }
 }
+
+/**
+ * Get the `Crawl-delay` robots.txt sets for a user agent on a URL's host
+ *
+ * @param url - Any URL on the host
+ * @param userAgent - User agent string (default: "HNScraperBot")
+ * @returns Delay between requests in seconds, or null if none is set
+ *
+ * @example
+ * const seconds = await getCrawlDelay('https://example.com/article');
+ */
+export async function getCrawlDelay(
+  url: string,
+  userAgent = "HNScraperBot"
+): Promise<number | null> {
+  try {
+    const robot = await fetchRobotsTxt(url);
+    const delay = robot.getCrawlDelay(userAgent);
+
+    return delay !== undefined && Number.isFinite(delay) && delay > 0
+      ? delay
+      : null;
+  } catch (error) {
+    console.warn(`Error reading Crawl-delay for ${url}:`, error);
+    return null;
+  }
+}
@@ -3,8 +3,42 @@
  */
 
 import { prisma } from "../database";
+import { archiveResponse, DEFAULT_ARCHIVE_DIR } from "./archive";
+import { canonicalizeUrl } from "./canonical-url";
 import { extractContent } from "./extractor";
+import {
+  createHostScheduler,
+  type HostScheduler,
+  type HostSchedulerOptions,
+} from "./host-scheduler";
+import { type ArticleMetadata, countWords } from "./metadata";
+import {
+  DEFAULT_MAX_PDF_BYTES,
+  extractPdf,
+  isPdfResponse,
+  readBodyWithLimit,
+} from "./pdf";
+import {
+  classifyHttpStatus,
+  DEFAULT_MAX_SCRAPE_ATTEMPTS,
+  nextAttemptAt,
+  type ScrapeFailureClass,
+} from "./retry";
 import { isAllowed } from "./robots";
+import { moveToCanonicalUrl } from "./story-articles";
+import { hashContent } from "./versions";
+
+/**
+ * Default user agent for page and robots.txt requests
+ */
+const DEFAULT_USER_AGENT =
+  "HNScraperBot/1.0 (+https://github.com/yourusername/hn-scanner)";
+
+/**
+ * Times an article is re-queued after a `Retry-After` response before it is
+ * marked failed
+ */
+const MAX_RATE_LIMIT_RETRIES = 2;
 
 /**
  * Scraping options
@@ -33,6 +67,44 @@ export interface ScrapeOptions {
    * @default "HNScraperBot/1.0"
    */
   userAgent?: string;
+
+  /**
+   * Largest PDF to download, in bytes; bigger files fail without retrying
+   * @default 20971520 (20 MB)
+   */
+  maxPdfBytes?: number;
+
+  /**
+   * Validators from the previous fetch, sent as `If-None-Match` and
+   * `If-Modified-Since` so an unchanged page can answer 304 Not Modified
+   */
+  conditional?: {
+    etag: string | null;
+    lastModified: string | null;
+  };
+
+  /**
+   * Directory to archive raw responses in (see `archiveResponse`), or null
+   * to not archive them
+   * @default DEFAULT_ARCHIVE_DIR
+   */
+  archiveDir?: string | null;
+}
+
+/**
+ * Options for scraping a batch of pending articles
+ */
+export interface ScrapeRunOptions
+  extends ScrapeOptions,
+    Pick<
+      HostSchedulerOptions,
+      "concurrency" | "perHostConcurrency" | "minHostDelayMs" | "maxHostDelayMs"
+    > {
+  /**
+   * Attempts after which a retryable failure becomes permanent
+   * @default 5
+   */
+  maxAttempts?: number;
 }
 
 /**
@@ -40,9 +112,133 @@ export interface ScrapeOptions {
  */
 export interface ScrapeResult {
   success: boolean;
+
+  /**
+   * The server answered 304 to a conditional request: the page is unchanged
+   * and nothing was extracted
+   */
+  notModified: boolean;
   title: string | null;
   content: string | null;
+
+  /**
+   * Markdown rendition of `content`
+   */
+  markdown: string | null;
+
+  /**
+   * Extraction confidence from 0 to 1, or null if nothing was extracted
+   */
+  confidence: number | null;
+
+  /**
+   * MIME type of the response (without parameters), or null if nothing was
+   * fetched
+   */
+  contentType: string | null;
+
+  /**
+   * Number of pages, for PDFs
+   */
+  pageCount: number | null;
+
+  /**
+   * Author, dates, site, language, keywords and word count, or null if
+   * nothing was extracted
+   */
+  metadata: ArticleMetadata | null;
+
+  /**
+   * `ETag` and `Last-Modified` response headers, for the next conditional
+   * request
+   */
+  etag: string | null;
+  lastModified: string | null;
+
+  /**
+   * URL the response came from after following redirects, or null if
+   * nothing was fetched
+   */
+  finalUrl: string | null;
+
+  /**
+   * Canonical form (see `canonicalizeUrl`) of the page's `rel=canonical`
+   * link, or of `finalUrl` if it has none; null if nothing was extracted
+   */
+  canonicalUrl: string | null;
+
+  /**
+   * Archive key of the raw response, or null if it was not archived
+   */
+  archiveKey: string | null;
+
+  /**
+   * How long the server asked to wait (`Retry-After` on a 429 or 503), or
+   * null if it did not
+   */
+  retryAfterMs: number | null;
   error: string | null;
+
+  /**
+   * Why the scrape failed, or null on success
+   */
+  failureClass: ScrapeFailureClass | null;
+}
+
+/**
+ * A failed scrape
+ *
+ * @param error - Failure reason
+ * @param failureClass - Failure class
+ * @param contentType - MIME type of the response, if one was received
+ * @returns Scrape result with no content
+ */
+function scrapeFailure(
+  error: string,
+  failureClass: ScrapeFailureClass,
+  contentType: string | null = null
+): ScrapeResult {
+  return {
+    success: false,
+    notModified: false,
+    title: null,
+    content: null,
+    markdown: null,
+    confidence: null,
+    contentType,
+    pageCount: null,
+    metadata: null,
+    etag: null,
+    lastModified: null,
+    finalUrl: null,
+    canonicalUrl: null,
+    archiveKey: null,
+    retryAfterMs: null,
+    error,
+    failureClass,
+  };
+}
+
+/**
+ * Parse a `Retry-After` header
+ *
+ * @param value - Header value: seconds or an HTTP date
+ * @returns Milliseconds to wait, or null if absent or invalid
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
 }
 
 /**
@@ -55,9 +251,101 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Content extracted from a response body
+ */
+export type ExtractedBody = Pick<
+  ScrapeResult,
+  "title" | "content" | "markdown" | "confidence" | "pageCount" | "metadata"
+> & {
+  /**
+   * Canonical form of the page's `rel=canonical` link, or of the final URL
+   */
+  canonicalUrl: string;
+};
+
+/**
+ * Extract the content of an HTML or PDF response body
+ *
+ * Used by `scrapeUrl` and to re-extract archived responses.
+ *
+ * @param body - Raw response body
+ * @param contentType - MIME type of the response, without parameters
+ * @param finalUrl - URL the response came from
+ * @returns Extracted content, or the reason nothing could be extracted
+ *
+ * @example
+ * const extracted = await extractResponseBody(body, "text/html", url);
+ * if (!("error" in extracted)) {
+ *   console.log(extracted.title);
+ * }
+ */
+export async function extractResponseBody(
+  body: Uint8Array,
+  contentType: string,
+  finalUrl: string
+): Promise<ExtractedBody | { error: string }> {
+  if (isPdfResponse(contentType, finalUrl)) {
+    // A broken file stays broken, so parse errors are not retried
+    const pdf = await extractPdf(body).catch((error: unknown) => ({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    if ("error" in pdf) {
+      return { error: `Unreadable PDF: ${pdf.error}` };
+    }
+
+    if (pdf.content === null) {
+      return { error: "PDF has no extractable text" };
+    }
+
+    return {
+      title: pdf.title,
+      content: pdf.content,
+      markdown: null,
+      // The whole document is the content
+      confidence: 1,
+      pageCount: pdf.pageCount,
+      metadata: {
+        author: pdf.author,
+        publishedAt: pdf.publishedAt,
+        siteName: null,
+        description: pdf.description,
+        language: null,
+        imageUrl: null,
+        keywords: pdf.keywords,
+        wordCount: countWords(pdf.content),
+      },
+      canonicalUrl: canonicalizeUrl(finalUrl),
+    };
+  }
+
+  // Decoded as UTF-8, like `Response.text()`
+  const extracted = extractContent(new TextDecoder().decode(body), finalUrl);
+  const { canonicalUrl, ...metadata } = extracted.metadata;
+
+  return {
+    title: extracted.title,
+    content: extracted.content,
+    markdown: extracted.markdown,
+    confidence: extracted.confidence,
+    pageCount: null,
+    metadata: { ...metadata, wordCount: countWords(extracted.content) },
+    canonicalUrl: canonicalizeUrl(canonicalUrl ?? finalUrl),
+  };
+}
+
 /**
  * Scrape content from a URL
  *
+ * Redirects are followed; the result carries the final URL and the page's
+ * canonical URL so the caller can tell when two URLs lead to the same page.
+ * With `respectRobotsTxt`, robots.txt is checked for both the requested URL
+ * and the URL a redirect ends on.
+ * The raw body and headers of a successful scrape are stored in the archive
+ * (see `archiveResponse`), so the page can be re-extracted later without
+ * fetching it again.
+ *
  * @param url - URL to scrape
  * @param options - Scraping options
  * @returns Scrape result
@@ -76,7 +364,10 @@ export async function scrapeUrl(
     timeout = 30000,
     maxRetries = 3,
     respectRobotsTxt = true,
-    userAgent = "HNScraperBot/1.0 (+https://github.com/yourusername/hn-scanner)",
+    userAgent = DEFAULT_USER_AGENT,
+    maxPdfBytes = DEFAULT_MAX_PDF_BYTES,
+    conditional,
+    archiveDir = DEFAULT_ARCHIVE_DIR,
   } = options;
 
   // Check robots.txt
@@ -84,16 +375,12 @@ export async function scrapeUrl(
     const allowed = await isAllowed(url, userAgent);
 
     if (!allowed) {
-      return {
-        success: false,
-        title: null,
-        content: null,
-        error: "Blocked by robots.txt",
-      };
+      return scrapeFailure("Blocked by robots.txt", "robots-blocked");
     }
   }
 
   let lastError: string | null = null;
+  let lastFailureClass: ScrapeFailureClass = "network";
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
@@ -102,16 +389,84 @@ export async function scrapeUrl(
         headers: {
           "User-Agent": userAgent,
           Accept:
-            "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+            "text/html,application/xhtml+xml,application/pdf,application/xml;q=0.9,*/*;q=0.8",
           "Accept-Language": "en-US,en;q=0.5",
+          ...(typeof conditional?.etag === "string" && {
+            "If-None-Match": conditional.etag,
+          }),
+          ...(typeof conditional?.lastModified === "string" && {
+            "If-Modified-Since": conditional.lastModified,
+          }),
         },
       });
 
+      const validators = {
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+      };
+      // fetch follows redirects; `response.url` is where it ended up
+      const finalUrl = response.url !== "" ? response.url : url;
+
+      // A redirect may land on a page (often on another host) that robots.txt
+      // disallows, so the final URL is checked before anything is saved
+      if (
+        respectRobotsTxt &&
+        finalUrl !== url &&
+        !(await isAllowed(finalUrl, userAgent))
+      ) {
+        await response.body?.cancel();
+        return scrapeFailure(
+          `Redirect target blocked by robots.txt: ${finalUrl}`,
+          "robots-blocked"
+        );
+      }
+
+      if (response.status === 304) {
+        return {
+          success: true,
+          notModified: true,
+          title: null,
+          content: null,
+          markdown: null,
+          confidence: null,
+          contentType: null,
+          pageCount: null,
+          metadata: null,
+          ...validators,
+          finalUrl,
+          canonicalUrl: null,
+          archiveKey: null,
+          retryAfterMs: null,
+          error: null,
+          failureClass: null,
+        };
+      }
+
       if (!response.ok) {
         lastError = `HTTP ${response.status}: ${response.statusText}`;
+        lastFailureClass = classifyHttpStatus(response.status);
 
-        // Don't retry on 4xx errors (client errors)
-        if (response.status >= 400 && response.status < 500) {
+        // The server says when to come back; the caller schedules the retry
+        const retryAfterMs = parseRetryAfter(
+          response.headers.get("retry-after")
+        );
+
+        if (
+          (response.status === 429 || response.status === 503) &&
+          retryAfterMs !== null
+        ) {
+          return {
+            ...scrapeFailure(lastError, lastFailureClass),
+            retryAfterMs,
+          };
+        }
+
+        // Don't retry on 4xx errors (client errors) other than timeouts
+        if (
+          response.status >= 400 &&
+          response.status < 500 &&
+          response.status !== 408
+        ) {
           break;
         }
 
@@ -125,28 +480,74 @@ export async function scrapeUrl(
         break;
       }
 
-      const contentType = response.headers.get("content-type") ?? "";
+      const contentTypeHeader = response.headers.get("content-type") ?? "";
+      const contentType =
+        contentTypeHeader.split(";")[0]?.trim().toLowerCase() ?? "";
 
-      if (contentType.includes("text/html") === false) {
-        return {
-          success: false,
-          title: null,
-          content: null,
-          error: `Unsupported content type: ${contentType}`,
-        };
+      let body: Uint8Array;
+
+      if (isPdfResponse(contentType, finalUrl)) {
+        const pdfBody = await readBodyWithLimit(response, maxPdfBytes);
+
+        if (pdfBody === null) {
+          return scrapeFailure(
+            `PDF larger than ${maxPdfBytes} bytes`,
+            "unsupported-type",
+            contentType
+          );
+        }
+        body = pdfBody;
+      } else if (contentTypeHeader.includes("text/html")) {
+        body = new Uint8Array(await response.arrayBuffer());
+      } else {
+        return scrapeFailure(
+          `Unsupported content type: ${contentTypeHeader}`,
+          "unsupported-type",
+          contentType.length > 0 ? contentType : null
+        );
       }
 
-      const html = await response.text();
-      const extracted = extractContent(html, url);
+      const extracted = await extractResponseBody(body, contentType, finalUrl);
+
+      if ("error" in extracted) {
+        return scrapeFailure(extracted.error, "unsupported-type", contentType);
+      }
+
+      // The scrape succeeded without the archive, so a write error only
+      // leaves the page out of it
+      const archiveKey =
+        archiveDir !== null
+          ? await archiveResponse(
+              {
+                url,
+                finalUrl,
+                status: response.status,
+                headers: Object.fromEntries(response.headers),
+                fetchedAt: new Date(),
+                body,
+              },
+              archiveDir
+            ).catch((error: unknown) => {
+              console.warn(`Could not archive ${url}:`, error);
+              return null;
+            })
+          : null;
 
       return {
         success: true,
-        title: extracted.title,
-        content: extracted.content,
+        notModified: false,
+        ...extracted,
+        contentType,
+        ...validators,
+        finalUrl,
+        archiveKey,
+        retryAfterMs: null,
         error: null,
+        failureClass: null,
       };
     } catch (error) {
       lastError = error instanceof Error ? error.message : String(error);
+      lastFailureClass = "network";
 
       // Retry on network errors
       if (attempt < maxRetries - 1) {
@@ -160,28 +561,65 @@ export async function scrapeUrl(
     }
   }
 
-  return {
-    success: false,
-    title: null,
-    content: null,
-    error: lastError ?? "Unknown error",
-  };
+  return scrapeFailure(lastError ?? "Unknown error", lastFailureClass);
+}
+
+/**
+ * Create the host scheduler for a scraping run
+ *
+ * @param options - Scraping and scheduling options
+ * @returns Host scheduler that reads `Crawl-delay` for the run's user agent
+ */
+export function createScrapeScheduler(
+  options: ScrapeRunOptions = {}
+): HostScheduler {
+  return createHostScheduler({
+    ...(options.concurrency !== undefined && {
+      concurrency: options.concurrency,
+    }),
+    ...(options.perHostConcurrency !== undefined && {
+      perHostConcurrency: options.perHostConcurrency,
+    }),
+    ...(options.minHostDelayMs !== undefined && {
+      minHostDelayMs: options.minHostDelayMs,
+    }),
+    ...(options.maxHostDelayMs !== undefined && {
+      maxHostDelayMs: options.maxHostDelayMs,
+    }),
+    respectCrawlDelay: options.respectRobotsTxt ?? true,
+    userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+  });
 }
 
 /**
  * Scrape and persist articles from pending ScrapedArticle records
  *
+ * Articles are scraped through a per-host scheduler: different hosts are
+ * scraped in parallel, each host at most `perHostConcurrency` at a time and
+ * no faster than its robots.txt `Crawl-delay` (or `minHostDelayMs`). A
+ * `Retry-After` response pauses the host and re-queues the article. Hosts
+ * that ask for a longer wait than `maxHostDelayMs` are skipped, leaving their
+ * articles pending for the next run.
+ *
+ * Every attempt increments `attemptCount`. Failures record their class and,
+ * for transient ones below `maxAttempts`, a `nextAttemptAt` with exponential
+ * backoff; `requeueFailedArticles` puts due articles back in the queue.
+ *
+ * A scraped article takes the canonical URL of its redirect target or
+ * `rel=canonical` link. If another article already has it, the two are
+ * merged (see `moveToCanonicalUrl`), so all their stories share one article.
+ *
  * @param limit - Maximum number of articles to scrape (default: no limit)
- * @param options - Scraping options
+ * @param options - Scraping and scheduling options
  * @returns Statistics about the scraping operation
  *
  * @example
- * const stats = await scrapeAndPersistArticles(10);
+ * const stats = await scrapeAndPersistArticles(10, { concurrency: 16 });
  * console.log(`Scraped ${stats.success} articles, ${stats.failed} failed`);
  */
 export async function scrapeAndPersistArticles(
   limit?: number,
-  options: ScrapeOptions = {}
+  options: ScrapeRunOptions = {}
 ): Promise<{ success: number; failed: number; skipped: number }> {
   // Fetch pending articles
   const pendingArticles = await prisma.scrapedArticle.findMany({
@@ -202,59 +640,156 @@ export async function scrapeAndPersistArticles(
     skipped: 0,
   };
 
-  for (const article of pendingArticles) {
-    console.log(`Scraping ${article.url}...`);
+  const scheduler = createScrapeScheduler(options);
+
+  const scrapeArticle = async (
+    article: (typeof pendingArticles)[number],
+    rateLimitRetries = 0
+  ): Promise<void> => {
+    const outcome = await scheduler.schedule(article.url, () => {
+      console.log(`Scraping ${article.url}...`);
+      return scrapeUrl(article.url, options);
+    });
+
+    if (outcome.status === "skipped") {
+      console.log(`- Skipped ${article.url}: ${outcome.reason}`);
+      stats.skipped++;
+      return;
+    }
 
-    try {
-      const result = await scrapeUrl(article.url, options);
+    const result = outcome.value;
+
+    if (
+      result.retryAfterMs !== null &&
+      rateLimitRetries < MAX_RATE_LIMIT_RETRIES
+    ) {
+      console.log(
+        `Rate limited by ${new URL(article.url).host}, retrying ${article.url} in ${Math.ceil(result.retryAfterMs / 1000)}s`
+      );
+      scheduler.backOff(article.url, result.retryAfterMs);
+      return scrapeArticle(article, rateLimitRetries + 1);
+    }
 
-      if (result.success) {
-        await prisma.scrapedArticle.update({
-          where: { id: article.id },
-          data: {
-            title: result.title,
-            content: result.content,
-            status: "success",
-            fetchedAt: new Date(),
-            error: null,
-          },
-        });
+    if (result.success) {
+      // URL variants and redirects can lead to a page we already have
+      const { articleId } =
+        result.canonicalUrl !== null
+          ? await moveToCanonicalUrl(article, result.canonicalUrl)
+          : { articleId: article.id };
 
-        console.log(`✓ Successfully scraped ${article.url}`);
+      if (articleId !== article.id) {
+        console.log(
+          `= ${article.url} is the same page as article ${articleId}, merged`
+        );
         stats.success++;
-      } else {
-        await prisma.scrapedArticle.update({
-          where: { id: article.id },
-          data: {
-            status: "failed",
-            error: result.error,
-            fetchedAt: new Date(),
-          },
-        });
-
-        console.log(`✗ Failed to scrape ${article.url}: ${result.error}`);
-        stats.failed++;
+        return;
       }
 
-      // Rate limiting: wait 1 second between requests
-      await delay(1000);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      const fetchedAt = new Date();
+      const contentHash =
+        result.content !== null ? hashContent(result.content) : null;
+
+      await prisma.scrapedArticle.update({
+        where: { id: article.id },
+        data: {
+          title: result.title,
+          content: result.content,
+          contentMarkdown: result.markdown,
+          extractionConfidence: result.confidence,
+          contentType: result.contentType,
+          pageCount: result.pageCount,
+          ...result.metadata,
+          contentHash,
+          archiveKey: result.archiveKey,
+          etag: result.etag,
+          lastModified: result.lastModified,
+          status: "success",
+          fetchedAt,
+          error: null,
+          failureClass: null,
+          attemptCount: { increment: 1 },
+          nextAttemptAt: null,
+          // The first scrape is the first version
+          ...(result.content !== null &&
+            contentHash !== null && {
+              versions: {
+                create: {
+                  contentHash,
+                  title: result.title,
+                  content: result.content,
+                  contentMarkdown: result.markdown,
+                  fetchedAt,
+                },
+              },
+            }),
+        },
+      });
+
+      console.log(`✓ Successfully scraped ${article.url}`);
+      stats.success++;
+    } else {
+      const retryAt = nextAttemptAt(
+        result.failureClass,
+        article.attemptCount + 1,
+        {
+          maxAttempts: options.maxAttempts ?? DEFAULT_MAX_SCRAPE_ATTEMPTS,
+          retryAfterMs: result.retryAfterMs,
+        }
+      );
 
       await prisma.scrapedArticle.update({
         where: { id: article.id },
         data: {
           status: "failed",
-          error: errorMessage,
+          error: result.error,
+          contentType: result.contentType,
           fetchedAt: new Date(),
+          failureClass: result.failureClass,
+          attemptCount: { increment: 1 },
+          nextAttemptAt: retryAt,
         },
       });
 
-      console.error(`✗ Error scraping ${article.url}:`, errorMessage);
+      console.log(
+        `✗ Failed to scrape ${article.url}: ${result.error} (${result.failureClass ?? "unknown"}${retryAt !== null ? `, retry after ${retryAt.toISOString()}` : ""})`
+      );
       stats.failed++;
     }
-  }
+  };
+
+  await Promise.all(
+    pendingArticles.map(async (article) => {
+      try {
+        await scrapeArticle(article);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        const failureClass: ScrapeFailureClass = "unknown";
+
+        // The article may have been merged into another meanwhile
+        await prisma.scrapedArticle.updateMany({
+          where: { id: article.id },
+          data: {
+            status: "failed",
+            error: errorMessage,
+            fetchedAt: new Date(),
+            failureClass,
+            attemptCount: { increment: 1 },
+            nextAttemptAt: nextAttemptAt(
+              failureClass,
+              article.attemptCount + 1,
+              {
+                maxAttempts: options.maxAttempts ?? DEFAULT_MAX_SCRAPE_ATTEMPTS,
+              }
+            ),
+          },
+        });
+
+        console.error(`✗ Error scraping ${article.url}:`, errorMessage);
+        stats.failed++;
+      }
+    })
+  );
 
   return stats;
 }
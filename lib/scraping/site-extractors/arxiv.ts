@@ -0,0 +1,61 @@
+/**
+ * arXiv abstract pages: title, authors and abstract
+ */
+
+import { joinBlocks } from "../render";
+import type { SiteExtractor } from "./registry";
+
+/**
+ * Extract a paper's title, authors and abstract from its `/abs/` page
+ *
+ * The citation meta tags are preferred; the page body is used when they are
+ * missing. PDF links (`/pdf/`) are scraped as PDFs instead.
+ */
+export const arxivExtractor: SiteExtractor = {
+  name: "arxiv",
+  patterns: [/^https?:\/\/(www\.|export\.)?arxiv\.org\/abs\//],
+
+  extract($) {
+    const normalize = (text: string | undefined): string =>
+      (text ?? "").replace(/\s+/g, " ").trim();
+
+    // The body versions start with a "Title:" / "Abstract:" descriptor
+    $(".descriptor").remove();
+
+    const title =
+      [
+        normalize($("meta[name='citation_title']").attr("content")),
+        normalize($("h1.title").text()),
+      ].find((text) => text.length > 0) ?? "";
+    const abstract =
+      [
+        normalize($("meta[name='citation_abstract']").attr("content")),
+        normalize($("blockquote.abstract").text()),
+      ].find((text) => text.length > 0) ?? "";
+
+    if (abstract.length === 0) {
+      return null;
+    }
+
+    const metaAuthors = $("meta[name='citation_author']")
+      .toArray()
+      .map((meta) => normalize($(meta).attr("content")))
+      .filter((author) => author.length > 0);
+    const authors =
+      metaAuthors.length > 0
+        ? metaAuthors.join("; ")
+        : normalize($("div.authors").text());
+    const subjects = normalize($("td.subjects").text());
+
+    return {
+      title: title.length > 0 ? title : null,
+      content: joinBlocks([title, authors, abstract, subjects]),
+      markdown: joinBlocks([
+        title.length > 0 ? `# ${title}` : null,
+        authors.length > 0 ? `*${authors}*` : null,
+        abstract,
+        subjects.length > 0 ? `Subjects: ${subjects}` : null,
+      ]),
+    };
+  },
+};
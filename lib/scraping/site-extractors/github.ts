@@ -0,0 +1,75 @@
+/**
+ * GitHub repository pages: the README is the content
+ */
+
+import { joinBlocks, renderContent } from "../render";
+import type { SiteExtractor } from "./registry";
+
+/**
+ * Top-level paths on github.com that are not repository owners
+ */
+const RESERVED_OWNERS = new Set([
+  "about",
+  "collections",
+  "enterprise",
+  "features",
+  "marketplace",
+  "orgs",
+  "pricing",
+  "settings",
+  "sponsors",
+  "topics",
+  "trending",
+]);
+
+/**
+ * Extract a repository's description and README
+ *
+ * Handles repository roots (`github.com/owner/repo`) and branch roots
+ * (`github.com/owner/repo/tree/branch`); other GitHub pages (issues, pull
+ * requests, files) use generic extraction.
+ */
+export const githubExtractor: SiteExtractor = {
+  name: "github",
+  patterns: [
+    /^https?:\/\/(www\.)?github\.com\/[^/?#]+\/[^/?#]+\/?(\/tree\/[^?#]+)?([?#]|$)/,
+  ],
+
+  extract($, url) {
+    const [owner, repo] = url.pathname.split("/").filter(Boolean);
+
+    if (
+      owner === undefined ||
+      repo === undefined ||
+      RESERVED_OWNERS.has(owner.toLowerCase())
+    ) {
+      return null;
+    }
+
+    const readme = $(
+      "#readme article.markdown-body, article.markdown-body"
+    ).first();
+
+    if (readme.length === 0) {
+      return null;
+    }
+
+    // Heading permalink icons
+    readme.find(".anchor, .octicon").remove();
+
+    // GitHub appends a sign-up line to the repository description
+    const about = ($("meta[name='description']").attr("content") ?? "")
+      .replace(
+        /\s*Contribute to \S+ development by creating an account on GitHub\.$/,
+        ""
+      )
+      .trim();
+    const { content, markdown } = renderContent($, readme, url.toString());
+
+    return {
+      title: `${owner}/${repo.replace(/\.git$/, "")}`,
+      content: joinBlocks([about, content]),
+      markdown: joinBlocks([about, markdown]),
+    };
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Site-specific extractors, with the built-in handlers registered
+ */
+
+import { arxivExtractor } from "./arxiv";
+import { githubExtractor } from "./github";
+import { registerSiteExtractor } from "./registry";
+import { substackExtractor } from "./substack";
+import { wikipediaExtractor } from "./wikipedia";
+import { youtubeExtractor } from "./youtube";
+
+export * from "./registry";
+export { arxivExtractor } from "./arxiv";
+export { githubExtractor } from "./github";
+export { substackExtractor } from "./substack";
+export { wikipediaExtractor } from "./wikipedia";
+export { youtubeExtractor } from "./youtube";
+
+for (const extractor of [
+  githubExtractor,
+  arxivExtractor,
+  youtubeExtractor,
+  wikipediaExtractor,
+  substackExtractor,
+]) {
+  registerSiteExtractor(extractor);
+}
@@ -0,0 +1,103 @@
+/**
+ * Registry of site-specific extractors
+ *
+ * Generic main-content detection does badly on some hosts HN links to all
+ * the time (a GitHub repo page is mostly chrome around the README). Site
+ * extractors claim URLs by pattern and pull the content out directly;
+ * `extractContent` tries them before falling back to generic extraction.
+ */
+
+import type * as cheerio from "cheerio";
+
+/**
+ * Content pulled out of a page by a site extractor
+ */
+export interface SiteExtraction {
+  title: string | null;
+  content: string | null;
+  markdown: string | null;
+}
+
+/**
+ * Extractor for pages of a particular site
+ */
+export interface SiteExtractor {
+  /**
+   * Short name, e.g. "github"
+   */
+  readonly name: string;
+
+  /**
+   * URLs this extractor handles, matched against the full URL
+   */
+  readonly patterns: readonly RegExp[];
+
+  /**
+   * Pull the content out of a page
+   *
+   * The document is freshly loaded and may be modified.
+   *
+   * @param $ - Loaded document, scripts included
+   * @param url - Page URL
+   * @returns Extracted content, or null to fall back to generic extraction
+   */
+  extract($: cheerio.CheerioAPI, url: URL): SiteExtraction | null;
+}
+
+/**
+ * Registered extractors, most recently registered first
+ */
+const extractors: SiteExtractor[] = [];
+
+/**
+ * Register a site extractor
+ *
+ * Extractors registered later take precedence, so a built-in handler can be
+ * overridden by registering a replacement for the same URLs. Registering an
+ * extractor with the name of an existing one replaces it.
+ *
+ * @param extractor - Extractor to register
+ *
+ * @example
+ * registerSiteExtractor({
+ *   name: "example",
+ *   patterns: [/^https:\/\/docs\.example\.com\//],
+ *   extract: ($) => ({
+ *     title: $("h1").text(),
+ *     content: $("main").text(),
+ *     markdown: null,
+ *   }),
+ * });
+ */
+export function registerSiteExtractor(extractor: SiteExtractor): void {
+  const existing = extractors.findIndex(({ name }) => name === extractor.name);
+
+  if (existing !== -1) {
+    extractors.splice(existing, 1);
+  }
+
+  extractors.unshift(extractor);
+}
+
+/**
+ * Find the extractor that handles a URL
+ *
+ * @param url - Page URL
+ * @returns Matching extractor, or null if generic extraction should be used
+ */
+export function findSiteExtractor(url: string): SiteExtractor | null {
+  return (
+    extractors.find(({ patterns }) =>
+      patterns.some((pattern) => pattern.test(url))
+    ) ?? null
+  );
+}
+
+/**
+ * List the registered extractors, in the order they are tried
+ *
+ * @returns Registered extractors
+ */
+export function listSiteExtractors(): readonly SiteExtractor[] {
+  return [...extractors];
+}
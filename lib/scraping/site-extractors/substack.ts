@@ -0,0 +1,53 @@
+/**
+ * Substack posts: title, subtitle and post body without subscribe prompts
+ */
+
+import { joinBlocks, renderContent } from "../render";
+import type { SiteExtractor } from "./registry";
+
+/**
+ * Subscribe, share and comment prompts inside the post body
+ */
+const CLUTTER_SELECTOR = [
+  ".subscription-widget-wrap",
+  ".subscription-widget-wrap-editor",
+  ".button-wrapper",
+  ".share-dialog",
+  ".footnote-anchor",
+  ".image-link-expand",
+  "form",
+].join(", ");
+
+/**
+ * Extract a Substack post
+ *
+ * Only `*.substack.com` URLs are recognised; posts on custom domains use
+ * generic extraction. Paywalled posts yield the free preview.
+ */
+export const substackExtractor: SiteExtractor = {
+  name: "substack",
+  patterns: [/^https?:\/\/[^/]+\.substack\.com\/p\//],
+
+  extract($, url) {
+    const body = $(".available-content .body.markup, .body.markup").first();
+
+    if (body.length === 0) {
+      return null;
+    }
+
+    body.find(CLUTTER_SELECTOR).remove();
+
+    const title = $("h1.post-title").first().text().trim();
+    const subtitle = $("h3.subtitle").first().text().trim();
+    const { content, markdown } = renderContent($, body, url.toString());
+
+    return {
+      title: title.length > 0 ? title : null,
+      content: joinBlocks([subtitle, content]),
+      markdown: joinBlocks([
+        subtitle.length > 0 ? `*${subtitle}*` : null,
+        markdown,
+      ]),
+    };
+  },
+};
@@ -0,0 +1,82 @@
+/**
+ * Wikipedia articles: the article body without infoboxes, navigation boxes,
+ * citations and reference sections
+ */
+
+import { renderContent } from "../render";
+import type { SiteExtractor } from "./registry";
+
+/**
+ * Page furniture inside the article body
+ */
+const CLUTTER_SELECTOR = [
+  ".infobox",
+  ".navbox",
+  ".vertical-navbox",
+  ".sidebar",
+  ".hatnote",
+  ".metadata",
+  ".ambox",
+  ".mw-editsection",
+  ".mw-empty-elt",
+  ".reference",
+  ".noprint",
+  ".thumb",
+  "figure",
+  "#toc",
+  ".toc",
+  "style",
+].join(", ");
+
+/**
+ * Heading IDs of the trailing sections that list sources and links rather
+ * than content; everything from the first of them on is dropped
+ */
+const END_SECTIONS = new Set([
+  "See_also",
+  "Notes",
+  "References",
+  "Citations",
+  "Sources",
+  "Bibliography",
+  "Further_reading",
+  "External_links",
+]);
+
+/**
+ * Extract the body of a Wikipedia article
+ */
+export const wikipediaExtractor: SiteExtractor = {
+  name: "wikipedia",
+  patterns: [/^https?:\/\/[a-z-]+\.(m\.)?wikipedia\.org\/wiki\//],
+
+  extract($, url) {
+    const body = $("#mw-content-text .mw-parser-output").first();
+
+    if (body.length === 0) {
+      return null;
+    }
+
+    body.find(CLUTTER_SELECTOR).remove();
+
+    // Headings are either direct children or wrapped in `div.mw-heading`
+    const blocks = body.children().toArray();
+    const end = blocks.findIndex((block) => {
+      const heading = $(block).is("h2") ? $(block) : $(block).children("h2");
+      return END_SECTIONS.has(heading.attr("id") ?? "");
+    });
+
+    if (end !== -1) {
+      $(blocks.slice(end)).remove();
+    }
+
+    const { content, markdown } = renderContent($, body, url.toString());
+    const title = $("#firstHeading").text().trim();
+
+    return {
+      title: title.length > 0 ? title : null,
+      content,
+      markdown,
+    };
+  },
+};
@@ -0,0 +1,101 @@
+/**
+ * YouTube videos: title, channel and description
+ */
+
+import { joinBlocks } from "../render";
+import type { SiteExtractor } from "./registry";
+
+/**
+ * Read a string field of `videoDetails` from the player response JSON
+ * embedded in the page
+ *
+ * The meta description is cut at ~160 characters; the full description is
+ * only in the `ytInitialPlayerResponse` script.
+ *
+ * @param videoDetails - Script text from the start of `videoDetails`
+ * @param field - Field name, e.g. "shortDescription"
+ * @returns Decoded field value, or null if absent
+ */
+function playerField(videoDetails: string, field: string): string | null {
+  const match = new RegExp(`"${field}":"((?:[^"\\\\]|\\\\.)*)"`).exec(
+    videoDetails
+  )?.[1];
+
+  if (match === undefined) {
+    return null;
+  }
+
+  try {
+    const value: unknown = JSON.parse(`"${match}"`);
+    return typeof value === "string" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escape text so it renders literally as markdown, keeping its line breaks
+ *
+ * @param text - Plain text
+ * @returns Markdown with hard line breaks between lines
+ */
+function textToMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]#<>])/g, "\\$1")
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.split("\n").join("  \n"))
+    .join("\n\n");
+}
+
+/**
+ * Extract a video's title, channel and full description
+ */
+export const youtubeExtractor: SiteExtractor = {
+  name: "youtube",
+  patterns: [
+    /^https?:\/\/(www\.|m\.)?youtube\.com\/(watch\?|shorts\/|live\/)/,
+    /^https?:\/\/youtu\.be\/[^/?#]+/,
+  ],
+
+  extract($) {
+    const scripts = $("script")
+      .toArray()
+      .map((script) => $(script).text())
+      .filter((text) => text.includes("ytInitialPlayerResponse"))
+      .join("\n");
+    // Fields such as "title" also occur elsewhere in the player response
+    const detailsStart = scripts.indexOf('"videoDetails":');
+    const details = detailsStart !== -1 ? scripts.slice(detailsStart) : "";
+
+    const title =
+      playerField(details, "title") ??
+      $("meta[name='title']").attr("content") ??
+      $("meta[property='og:title']").attr("content") ??
+      null;
+    const channel =
+      playerField(details, "author") ??
+      $("[itemprop='author'] [itemprop='name']").attr("content") ??
+      null;
+    const description =
+      playerField(details, "shortDescription") ??
+      $("meta[name='description']").attr("content") ??
+      $("meta[property='og:description']").attr("content") ??
+      null;
+
+    if (title === null && description === null) {
+      return null;
+    }
+
+    const byline = channel !== null ? `Video by ${channel}` : null;
+
+    return {
+      title,
+      content: joinBlocks([title, byline, description]),
+      markdown: joinBlocks([
+        title !== null ? `# ${textToMarkdown(title)}` : null,
+        byline !== null ? `*${textToMarkdown(byline)}*` : null,
+        description !== null ? textToMarkdown(description) : null,
+      ]),
+    };
+  },
+};
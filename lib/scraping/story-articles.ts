@@ -0,0 +1,298 @@
+/**
+ * Linking stories to articles, and merging articles that turn out to be the
+ * same page
+ *
+ * Articles are keyed by canonical URL (see `canonicalizeUrl`), so reposts and
+ * trivial URL variants share one article through `StoryArticle` links. Once
+ * scraped, an article's key is updated to its redirect target or
+ * `rel=canonical`; if another article already has that key, the two are
+ * merged.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+import { canonicalizeUrl } from "./canonical-url";
+
+/**
+ * A story's link to queue
+ */
+export interface StoryUrl {
+  storyId: number;
+  url: string;
+}
+
+/**
+ * Result of `canonicalizeArticles`
+ */
+export interface CanonicalizeStats {
+  /**
+   * Articles whose canonical URL changed
+   */
+  updated: number;
+
+  /**
+   * Articles merged into another with the same canonical URL
+   */
+  merged: number;
+}
+
+/**
+ * Queue articles for stories' URLs and link the stories to them
+ *
+ * A URL whose canonical form (or exact URL) already has an article is linked
+ * to that article instead of queueing a new one.
+ *
+ * @param client - Prisma client or transaction
+ * @param storyUrls - Stories and their URLs
+ * @returns Number of newly queued articles
+ *
+ * @example
+ * await prisma.$transaction((tx) =>
+ *   queueStoryArticles(tx, [{ storyId: 1, url: "https://example.com/" }])
+ * );
+ */
+export async function queueStoryArticles(
+  client: Prisma.TransactionClient,
+  storyUrls: StoryUrl[]
+): Promise<number> {
+  if (storyUrls.length === 0) {
+    return 0;
+  }
+
+  const entries = storyUrls.map((entry) => ({
+    ...entry,
+    canonicalUrl: canonicalizeUrl(entry.url),
+  }));
+
+  const { count } = await client.scrapedArticle.createMany({
+    data: entries.map(({ url, canonicalUrl }) => ({
+      url,
+      canonicalUrl,
+      status: "pending",
+    })),
+    skipDuplicates: true,
+  });
+
+  const articles = await client.scrapedArticle.findMany({
+    where: {
+      OR: [
+        { url: { in: entries.map((entry) => entry.url) } },
+        { canonicalUrl: { in: entries.map((entry) => entry.canonicalUrl) } },
+      ],
+    },
+    select: { id: true, url: true, canonicalUrl: true },
+  });
+
+  const byUrl = new Map(articles.map((article) => [article.url, article.id]));
+  const byCanonicalUrl = new Map(
+    articles.map((article) => [article.canonicalUrl, article.id])
+  );
+
+  const links = entries.flatMap((entry) => {
+    const articleId =
+      byUrl.get(entry.url) ?? byCanonicalUrl.get(entry.canonicalUrl);
+    return articleId !== undefined
+      ? [{ storyId: entry.storyId, articleId }]
+      : [];
+  });
+
+  await client.storyArticle.createMany({
+    data: links,
+    skipDuplicates: true,
+  });
+
+  return count;
+}
+
+/**
+ * Attempts at moving an article to its canonical URL; a concurrent scrape of
+ * a URL variant can take the canonical URL between lookup and update
+ */
+const MAX_MOVE_ATTEMPTS = 3;
+
+/**
+ * Check whether a query failed on a unique constraint
+ *
+ * @param error - Error thrown by Prisma
+ * @returns True for unique constraint violations (P2002)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+/**
+ * Link the stories of one article to another and delete the first
+ *
+ * @param tx - Transaction client
+ * @param fromId - Article to remove
+ * @param intoId - Article to keep
+ */
+async function mergeArticlesIn(
+  tx: Prisma.TransactionClient,
+  fromId: number,
+  intoId: number
+): Promise<void> {
+  const links = await tx.storyArticle.findMany({
+    where: { articleId: fromId },
+    select: { storyId: true },
+  });
+
+  await tx.storyArticle.createMany({
+    data: links.map(({ storyId }) => ({ storyId, articleId: intoId })),
+    skipDuplicates: true,
+  });
+  await tx.scrapedArticle.delete({ where: { id: fromId } });
+}
+
+/**
+ * Merge one article into another: the stories of `fromId` are linked to
+ * `intoId`, then `fromId` is deleted with its embeddings and versions
+ *
+ * @param fromId - Article to remove
+ * @param intoId - Article to keep
+ */
+export async function mergeArticles(
+  fromId: number,
+  intoId: number
+): Promise<void> {
+  await prisma.$transaction((tx) => mergeArticlesIn(tx, fromId, intoId));
+}
+
+/**
+ * Move an article to a new canonical URL, merging it with the article that
+ * already has that URL, if any
+ *
+ * Of the two, a successfully scraped article is kept; otherwise the moved
+ * one is. Lookup, merge and update run in one transaction. If a concurrent
+ * scrape takes the URL first, the update fails on the unique constraint and
+ * the move is retried, merging the article into the one that took it.
+ *
+ * @param article - Article whose canonical URL was resolved
+ * @param article.id - Article ID
+ * @param article.canonicalUrl - Current canonical URL
+ * @param canonicalUrl - Resolved canonical URL
+ * @returns ID of the surviving article, and of the article merged into it
+ * (null if there was none)
+ */
+export async function moveToCanonicalUrl(
+  article: { id: number; canonicalUrl: string },
+  canonicalUrl: string
+): Promise<{ articleId: number; removedId: number | null }> {
+  if (canonicalUrl === article.canonicalUrl) {
+    return { articleId: article.id, removedId: null };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    // The article that won the race is being scraped, so it is kept even
+    // though it is not marked as scraped yet
+    const keepExisting = attempt > 1;
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.scrapedArticle.findUnique({
+          where: { canonicalUrl },
+          select: { id: true, status: true },
+        });
+
+        if (existing !== null && existing.id !== article.id) {
+          if (keepExisting || existing.status === "success") {
+            await mergeArticlesIn(tx, article.id, existing.id);
+            return { articleId: existing.id, removedId: article.id };
+          }
+
+          await mergeArticlesIn(tx, existing.id, article.id);
+        }
+
+        await tx.scrapedArticle.update({
+          where: { id: article.id },
+          data: { canonicalUrl },
+        });
+
+        return { articleId: article.id, removedId: existing?.id ?? null };
+      });
+    } catch (error) {
+      if (attempt >= MAX_MOVE_ATTEMPTS || !isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Recompute the canonical URL of every article from its URL, merging
+ * articles that collide
+ *
+ * Used after the canonicalization rules change. Canonical URLs resolved from
+ * redirects or `rel=canonical` are kept unless the URL's own canonical form
+ * belongs to a different article, in which case the two are merged.
+ *
+ * @param batchSize - Articles read per query
+ * @returns Number of updated and merged articles
+ */
+export async function canonicalizeArticles(
+  batchSize = 1000
+): Promise<CanonicalizeStats> {
+  const stats: CanonicalizeStats = { updated: 0, merged: 0 };
+  // Merged away after their batch was read
+  const removed = new Set<number>();
+  let cursor = 0;
+
+  for (;;) {
+    const articles = await prisma.scrapedArticle.findMany({
+      where: { id: { gt: cursor } },
+      select: { id: true, url: true, canonicalUrl: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (articles.length === 0) {
+      break;
+    }
+
+    for (const article of articles) {
+      const canonicalUrl = canonicalizeUrl(article.url);
+
+      if (removed.has(article.id) || canonicalUrl === article.canonicalUrl) {
+        continue;
+      }
+
+      // Resolved from a redirect or rel=canonical: keep it, but absorb an
+      // article still keyed by this URL's own canonical form
+      if (article.canonicalUrl !== article.url) {
+        const other = await prisma.scrapedArticle.findUnique({
+          where: { canonicalUrl },
+          select: { id: true },
+        });
+
+        if (other !== null && other.id !== article.id) {
+          await mergeArticles(other.id, article.id);
+          removed.add(other.id);
+          stats.merged++;
+        }
+        continue;
+      }
+
+      const { articleId, removedId } = await moveToCanonicalUrl(
+        article,
+        canonicalUrl
+      );
+
+      if (removedId !== null) {
+        removed.add(removedId);
+        stats.merged++;
+      }
+
+      if (articleId === article.id) {
+        stats.updated++;
+      }
+    }
+
+    cursor = articles[articles.length - 1]?.id ?? cursor;
+    console.log(`Canonicalized articles up to ID ${cursor}...`);
+  }
+
+  return stats;
+}
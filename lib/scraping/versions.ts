@@ -0,0 +1,54 @@
+/**
+ * Content hashing and version history of scraped articles
+ */
+
+import { createHash } from "node:crypto";
+import { prisma } from "../database";
+
+/**
+ * One stored version of an article's extracted content
+ */
+export interface ArticleVersionDetail {
+  id: number;
+  contentHash: string;
+  title: string | null;
+  content: string;
+  contentMarkdown: string | null;
+  fetchedAt: Date;
+}
+
+/**
+ * Hash extracted text to detect changes between fetches
+ *
+ * @param content - Extracted plain text
+ * @returns Hex-encoded SHA-256 of the UTF-8 text
+ *
+ * @example
+ * hashContent("Hello") === hashContent("Hello"); // true
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Get the version history of an article
+ *
+ * @param articleId - ScrapedArticle ID
+ * @returns Versions, newest first; empty if the article has none
+ */
+export async function getArticleVersions(
+  articleId: number
+): Promise<ArticleVersionDetail[]> {
+  return prisma.articleVersion.findMany({
+    where: { articleId },
+    select: {
+      id: true,
+      contentHash: true,
+      title: true,
+      content: true,
+      contentMarkdown: true,
+      fetchedAt: true,
+    },
+    orderBy: { fetchedAt: "desc" },
+  });
+}
@@ -0,0 +1,105 @@
+import { prisma } from "@/lib/database";
+import { performClustering } from "./clustering";
+import { fetchEmbeddings } from "./data-fetcher";
+
+/**
+ * DBSCAN parameters a set of stored article clusters was computed with
+ */
+export interface ArticleClusterParams {
+  /**
+   * @default 0.3
+   */
+  epsilon?: number;
+
+  /**
+   * @default 5
+   */
+  minPoints?: number;
+}
+
+/**
+ * Clusters full-article embeddings and stores each article's label, replacing
+ * labels stored earlier for the same parameters
+ * Same clustering as the cluster map's default view, run once instead of on
+ * every request that needs an article's cluster
+ *
+ * @param params - DBSCAN parameters
+ * @returns Number of labeled articles and clusters found
+ * @example
+ * const { clusterCount } = await computeArticleClusters({ epsilon: 0.3 });
+ */
+export async function computeArticleClusters(
+  params: ArticleClusterParams = {}
+): Promise<{ articles: number; clusterCount: number }> {
+  const { epsilon = 0.3, minPoints = 5 } = params;
+  // Taken before reading, so embeddings added meanwhile make the result stale
+  const computedAt = new Date();
+
+  const embeddings = (await fetchEmbeddings({ chunkTypes: ["full"] })).filter(
+    (emb) => emb.articleId !== null
+  );
+  const { labels, clusterCount } = performClustering(
+    embeddings.map((emb) => emb.embedding),
+    { epsilon, minPoints }
+  );
+
+  await prisma.$transaction([
+    prisma.articleCluster.deleteMany({ where: { epsilon, minPoints } }),
+    prisma.articleCluster.createMany({
+      data: embeddings.flatMap((emb, index) =>
+        emb.articleId !== null
+          ? [
+              {
+                epsilon,
+                minPoints,
+                articleId: emb.articleId,
+                label: labels[index] ?? -1,
+                computedAt,
+              },
+            ]
+          : []
+      ),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return { articles: embeddings.length, clusterCount };
+}
+
+/**
+ * Makes sure stored article clusters exist for the parameters and cover
+ * every full-article embedding, recomputing them otherwise
+ *
+ * @param params - DBSCAN parameters
+ * @returns True if the clusters were recomputed
+ * @example
+ * await ensureArticleClusters({ epsilon: 0.3, minPoints: 5 });
+ */
+export async function ensureArticleClusters(
+  params: ArticleClusterParams = {}
+): Promise<boolean> {
+  const { epsilon = 0.3, minPoints = 5 } = params;
+
+  const [stored, newest] = await Promise.all([
+    prisma.articleCluster.findFirst({
+      where: { epsilon, minPoints },
+      select: { computedAt: true },
+    }),
+    prisma.embedding.aggregate({
+      where: { chunkType: "full" },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const newestEmbedding = newest._max.createdAt;
+
+  if (
+    newestEmbedding === null ||
+    (stored !== null && stored.computedAt >= newestEmbedding)
+  ) {
+    return false;
+  }
+
+  await computeArticleClusters({ epsilon, minPoints });
+  return true;
+}
@@ -3,15 +3,27 @@ import { Prisma } from "@prisma/client";
 
 /**
  * Embedding data point with associated metadata
+ *
+ * Story text and comment embeddings are linked to their story's article (if
+ * any), so they can be compared with the article they discuss. Article
+ * embeddings are linked to the first story that posted the article.
  */
 export interface EmbeddingDataPoint {
   id: number;
   embedding: number[];
   content: string;
   chunkType: string;
-  articleId: number;
+  sourceType: string;
+  articleId: number | null;
   articleTitle: string | null;
   articleUrl: string;
+
+  /**
+   * Site name and language declared by the linked article's page
+   */
+  siteName: string | null;
+  language: string | null;
+  storyId: number | null;
   metadata: unknown;
 }
 
@@ -22,6 +34,24 @@ export interface FetchEmbeddingsOptions {
   chunkTypes?: string[];
   limit?: number;
   articleIds?: number[];
+
+  /**
+   * Only embeddings linked to an article from one of these sites
+   */
+  siteNames?: string[];
+
+  /**
+   * Only embeddings linked to an article in one of these languages
+   */
+  languages?: string[];
+}
+
+/**
+ * A metadata value with the number of scraped articles that have it
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
 }
 
 /**
@@ -36,7 +66,13 @@ export interface FetchEmbeddingsOptions {
 export async function fetchEmbeddings(
   options: FetchEmbeddingsOptions = {}
 ): Promise<EmbeddingDataPoint[]> {
-  const { chunkTypes, limit = 50000, articleIds } = options;
+  const {
+    chunkTypes,
+    limit = 50000,
+    articleIds,
+    siteNames,
+    languages,
+  } = options;
 
   // Build WHERE clause conditions
   const chunkTypeCondition =
@@ -46,7 +82,17 @@ export async function fetchEmbeddings(
 
   const articleIdCondition =
     articleIds !== undefined && articleIds.length > 0
-      ? Prisma.sql`e."articleId" IN (${Prisma.join(articleIds)})`
+      ? Prisma.sql`a.id IN (${Prisma.join(articleIds)})`
+      : Prisma.sql`TRUE`;
+
+  const siteNameCondition =
+    siteNames !== undefined && siteNames.length > 0
+      ? Prisma.sql`a."siteName" IN (${Prisma.join(siteNames)})`
+      : Prisma.sql`TRUE`;
+
+  const languageCondition =
+    languages !== undefined && languages.length > 0
+      ? Prisma.sql`a.language IN (${Prisma.join(languages)})`
       : Prisma.sql`TRUE`;
 
   // Fetch embeddings using raw SQL to access vector data
@@ -57,10 +103,14 @@ export async function fetchEmbeddings(
       embedding: string; // pgvector returns as string representation
       content: string;
       chunkType: string;
+      sourceType: string;
       metadata: unknown;
-      articleId: number;
+      articleId: number | null;
       articleTitle: string | null;
       articleUrl: string;
+      siteName: string | null;
+      language: string | null;
+      storyId: number | null;
     }>
   >`
     SELECT
@@ -68,15 +118,31 @@ export async function fetchEmbeddings(
       e.embedding::text as embedding,
       e.content,
       e."chunkType",
+      e."sourceType",
       e.metadata,
-      e."articleId",
-      a.title as "articleTitle",
-      a.url as "articleUrl"
+      a.id as "articleId",
+      COALESCE(a.title, s.title) as "articleTitle",
+      COALESCE(
+        a.url,
+        'https://news.ycombinator.com/item?id=' || COALESCE(e."commentId", s.id)
+      ) as "articleUrl",
+      a."siteName",
+      a.language,
+      s.id as "storyId"
     FROM "Embedding" e
-    INNER JOIN "ScrapedArticle" a ON e."articleId" = a.id
+    LEFT JOIN "ScrapedArticle" ea ON e."articleId" = ea.id
+    LEFT JOIN "HnComment" c ON e."commentId" = c.id
+    LEFT JOIN "HnStory" s ON s.id = COALESCE(e."storyId", c."storyId", (
+      SELECT MIN(sa."storyId") FROM "StoryArticle" sa WHERE sa."articleId" = ea.id
+    ))
+    LEFT JOIN "ScrapedArticle" a ON a.id = COALESCE(ea.id, (
+      SELECT MIN(sa."articleId") FROM "StoryArticle" sa WHERE sa."storyId" = s.id
+    ))
     WHERE
       ${chunkTypeCondition}
       AND ${articleIdCondition}
+      AND ${siteNameCondition}
+      AND ${languageCondition}
     ORDER BY e.id
     LIMIT ${limit}
   `;
@@ -92,9 +158,13 @@ export async function fetchEmbeddings(
       embedding,
       content: emb.content,
       chunkType: emb.chunkType,
+      sourceType: emb.sourceType,
       articleId: emb.articleId,
       articleTitle: emb.articleTitle,
       articleUrl: emb.articleUrl,
+      siteName: emb.siteName,
+      language: emb.language,
+      storyId: emb.storyId,
       metadata: emb.metadata,
     };
   });
@@ -109,12 +179,14 @@ export async function fetchEmbeddings(
  * @returns Object with counts by chunk type
  * @example
  * const stats = await getEmbeddingStats();
- * // { full: 500, paragraph: 15000, sentence: 21500, total: 37000 }
+ * // { full: 500, paragraph: 15000, sentence: 21500, story: 40, comment: 9000, total: 46040 }
  */
 export async function getEmbeddingStats(): Promise<{
   full: number;
   paragraph: number;
   sentence: number;
+  story: number;
+  comment: number;
   total: number;
 }> {
   const stats = await prisma.$queryRaw<
@@ -129,6 +201,8 @@ export async function getEmbeddingStats(): Promise<{
     full: 0,
     paragraph: 0,
     sentence: 0,
+    story: 0,
+    comment: 0,
     total: 0,
   };
 
@@ -142,8 +216,53 @@ export async function getEmbeddingStats(): Promise<{
       result.paragraph = count;
     } else if (stat.chunkType === "sentence") {
       result.sentence = count;
+    } else if (stat.chunkType === "story") {
+      result.story = count;
+    } else if (stat.chunkType === "comment") {
+      result.comment = count;
     }
   }
 
   return result;
 }
+
+/**
+ * Gets the most common site names and languages among scraped articles,
+ * for filter options
+ *
+ * @param limit - Maximum number of values per facet
+ * @returns Values with article counts, most common first
+ * @example
+ * const { siteNames, languages } = await getArticleFacets();
+ * // siteNames: [{ value: "GitHub", count: 120 }, ...]
+ */
+export async function getArticleFacets(limit = 30): Promise<{
+  siteNames: FacetCount[];
+  languages: FacetCount[];
+}> {
+  const [siteNames, languages] = await Promise.all([
+    prisma.scrapedArticle.groupBy({
+      by: ["siteName"],
+      where: { status: "success", siteName: { not: null } },
+      _count: { _all: true },
+      orderBy: { _count: { siteName: "desc" } },
+      take: limit,
+    }),
+    prisma.scrapedArticle.groupBy({
+      by: ["language"],
+      where: { status: "success", language: { not: null } },
+      _count: { _all: true },
+      orderBy: { _count: { language: "desc" } },
+      take: limit,
+    }),
+  ]);
+
+  return {
+    siteNames: siteNames.flatMap(({ siteName, _count }) =>
+      siteName !== null ? [{ value: siteName, count: _count._all }] : []
+    ),
+    languages: languages.flatMap(({ language, _count }) =>
+      language !== null ? [{ value: language, count: _count._all }] : []
+    ),
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * A growth bucket used to color points by how fast their story rose
+ */
+export interface GrowthBucket {
+  /**
+   * Inclusive lower bound in points per hour
+   */
+  min: number;
+  label: string;
+  color: string;
+}
+
+/**
+ * Growth buckets ordered from slow burners to fast risers
+ * Based on early points per hour (see `StoryGrowth.earlyScorePerHour`)
+ */
+export const GROWTH_BUCKETS: GrowthBucket[] = [
+  { min: 0, label: "< 2 pts/h", color: "#4575b4" },
+  { min: 2, label: "2-10 pts/h", color: "#91bfdb" },
+  { min: 10, label: "10-30 pts/h", color: "#fee090" },
+  { min: 30, label: "30-100 pts/h", color: "#fc8d59" },
+  { min: 100, label: "≥ 100 pts/h", color: "#d73027" },
+];
+
+/**
+ * Label used for points whose story has no growth data
+ */
+export const NO_GROWTH_LABEL = -1;
+
+/**
+ * Gets the growth bucket index for a growth rate
+ *
+ * @param scorePerHour - Early points per hour, or undefined if unknown
+ * @returns Bucket index, or NO_GROWTH_LABEL if the rate is unknown
+ * @example
+ * getGrowthBucket(12); // 2
+ */
+export function getGrowthBucket(scorePerHour: number | undefined): number {
+  if (scorePerHour === undefined) {
+    return NO_GROWTH_LABEL;
+  }
+
+  let bucket = 0;
+
+  GROWTH_BUCKETS.forEach((candidate, index) => {
+    if (scorePerHour >= candidate.min) {
+      bucket = index;
+    }
+  });
+
+  return bucket;
+}
+
+/**
+ * Generates the color and label maps for growth buckets
+ *
+ * @returns Colors and display names keyed by bucket label
+ */
+export function generateGrowthLegend(): {
+  colorMap: Map<number, string>;
+  labelNames: Map<number, string>;
+} {
+  const colorMap = new Map<number, string>([[NO_GROWTH_LABEL, "#808080"]]);
+  const labelNames = new Map<number, string>([
+    [NO_GROWTH_LABEL, "No snapshots"],
+  ]);
+
+  GROWTH_BUCKETS.forEach((bucket, index) => {
+    colorMap.set(index, bucket.color);
+    labelNames.set(index, bucket.label);
+  });
+
+  return { colorMap, labelNames };
+}
@@ -4,6 +4,8 @@ import {
 } from "./dimensionality-reduction";
 import { performClustering, type ClusterResult } from "./clustering";
 import { generateClusterColorMap } from "./colors";
+import { generateGrowthLegend, getGrowthBucket } from "./growth";
+import { generateSiteLegend, getSiteName } from "./sites";
 import type { EmbeddingDataPoint } from "./data-fetcher";
 
 /**
@@ -14,11 +16,16 @@ export interface ProcessedPoint {
   position: [number, number, number];
   color: string;
   label: number;
-  articleId: number;
+  articleId: number | null;
   articleTitle: string | null;
   content: string;
   articleUrl: string;
   chunkType: string;
+
+  /**
+   * Site of the linked article (declared name or host name)
+   */
+  siteName: string | null;
 }
 
 /**
@@ -28,6 +35,10 @@ export interface ProcessingResult {
   points: ProcessedPoint[];
   clusterResult: ClusterResult;
   colorMap: Map<number, string>;
+  /**
+   * Display names for labels that are not plain cluster numbers
+   */
+  labelNames: Map<number, string>;
 }
 
 /**
@@ -38,8 +49,12 @@ export interface ProcessingConfig {
   minPoints?: number;
   nNeighbors?: number;
   minDist?: number;
-  colorBy?: "cluster" | "article";
+  colorBy?: "cluster" | "article" | "growth" | "site";
   clusteringMethod?: "high-dim" | "3d";
+  /**
+   * Early points per hour keyed by story ID, used when coloring by growth
+   */
+  growthRates?: Map<number, number>;
 }
 
 /**
@@ -63,6 +78,7 @@ export function processEmbeddings(
     minDist = 0.1,
     colorBy = "cluster",
     clusteringMethod = "high-dim",
+    growthRates = new Map<number, number>(),
   } = config;
 
   console.log(
@@ -85,6 +101,7 @@ export function processEmbeddings(
         clusterSizes: new Map(),
       },
       colorMap: new Map(),
+      labelNames: new Map(),
     };
   }
 
@@ -105,11 +122,54 @@ export function processEmbeddings(
 
   let clusterResult: ClusterResult;
   let colorMap: Map<number, string>;
+  let labelNames = new Map<number, string>();
+
+  if (colorBy === "growth") {
+    console.log("[Server] Coloring by story growth, skipping clustering.");
+    const labels = embeddings.map((emb) =>
+      getGrowthBucket(
+        emb.storyId !== null ? growthRates.get(emb.storyId) : undefined
+      )
+    );
+
+    const clusterSizes = new Map<number, number>();
+    for (const label of labels) {
+      clusterSizes.set(label, (clusterSizes.get(label) ?? 0) + 1);
+    }
+
+    clusterResult = {
+      labels,
+      clusterCount: [...clusterSizes.keys()].filter((label) => label !== -1)
+        .length,
+      noiseCount: clusterSizes.get(-1) ?? 0,
+      clusterSizes,
+    };
+    ({ colorMap, labelNames } = generateGrowthLegend());
+  } else if (colorBy === "site") {
+    console.log("[Server] Coloring by site, skipping clustering.");
+    let labels: number[];
+    ({ labels, colorMap, labelNames } = generateSiteLegend(
+      embeddings.map(getSiteName)
+    ));
+
+    const clusterSizes = new Map<number, number>();
+    for (const label of labels) {
+      clusterSizes.set(label, (clusterSizes.get(label) ?? 0) + 1);
+    }
 
-  if (colorBy === "article") {
+    clusterResult = {
+      labels,
+      clusterCount: [...clusterSizes.keys()].filter((label) => label !== -1)
+        .length,
+      noiseCount: clusterSizes.get(-1) ?? 0,
+      clusterSizes,
+    };
+  } else if (colorBy === "article") {
     console.log("[Server] Coloring by article, skipping clustering.");
-    const articleIds = embeddings.map((emb) => emb.articleId);
-    const uniqueArticleIds = [...new Set(articleIds)];
+    // Story text and comments take their story's article; those without one
+    // are treated as noise
+    const articleIds = embeddings.map((emb) => emb.articleId ?? -1);
+    const uniqueArticleIds = [...new Set(articleIds)].filter((id) => id !== -1);
 
     const clusterSizes = new Map<number, number>();
     for (const id of articleIds) {
@@ -119,7 +179,7 @@ export function processEmbeddings(
     clusterResult = {
       labels: articleIds,
       clusterCount: uniqueArticleIds.length,
-      noiseCount: 0,
+      noiseCount: clusterSizes.get(-1) ?? 0,
       clusterSizes,
     };
     colorMap = generateClusterColorMap(articleIds);
@@ -195,6 +255,7 @@ export function processEmbeddings(
         content: emb.content,
         articleUrl: emb.articleUrl,
         chunkType: emb.chunkType,
+        siteName: getSiteName(emb),
       };
     })
     .filter((point): point is ProcessedPoint => point !== null);
@@ -209,5 +270,6 @@ export function processEmbeddings(
     points,
     clusterResult,
     colorMap,
+    labelNames,
   };
 }
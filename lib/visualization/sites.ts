@@ -0,0 +1,95 @@
+import { generateClusterColorMap } from "./colors";
+
+/**
+ * Number of most common sites that get their own color; the rest share one
+ */
+export const MAX_SITE_LABELS = 9;
+
+/**
+ * Label used for points without a linked article
+ */
+export const NO_SITE_LABEL = -1;
+
+/**
+ * Gets the site a point's article belongs to
+ * Uses the site name the page declared, falling back to its host name
+ *
+ * @param point - Embedding's article ID, site name and URL
+ * @param point.articleId - Linked article ID
+ * @param point.siteName - Site name declared by the article's page
+ * @param point.articleUrl - Article URL
+ * @returns Site name, or null if the point has no article
+ * @example
+ * getSiteName({ articleId: 1, siteName: null, articleUrl: "https://www.example.com/a" });
+ * // "example.com"
+ */
+export function getSiteName(point: {
+  articleId: number | null;
+  siteName: string | null;
+  articleUrl: string;
+}): string | null {
+  if (point.articleId === null) {
+    return null;
+  }
+
+  if (point.siteName !== null) {
+    return point.siteName;
+  }
+
+  try {
+    return new URL(point.articleUrl).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Assigns site labels and generates the color and label maps for them
+ * The most common sites are labeled 0..MAX_SITE_LABELS-1 in order of
+ * frequency; less common sites share the next label
+ *
+ * @param siteNames - Site name of each point, or null if it has none
+ * @returns Label per point, with colors and display names keyed by label
+ */
+export function generateSiteLegend(siteNames: Array<string | null>): {
+  labels: number[];
+  colorMap: Map<number, string>;
+  labelNames: Map<number, string>;
+} {
+  const counts = new Map<string, number>();
+  for (const siteName of siteNames) {
+    if (siteName !== null) {
+      counts.set(siteName, (counts.get(siteName) ?? 0) + 1);
+    }
+  }
+
+  const topSites = [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_SITE_LABELS)
+    .map(([siteName]) => siteName);
+  const otherLabel = topSites.length;
+
+  const labels = siteNames.map((siteName) => {
+    if (siteName === null) {
+      return NO_SITE_LABEL;
+    }
+    const index = topSites.indexOf(siteName);
+    return index === -1 ? otherLabel : index;
+  });
+
+  const colorMap = generateClusterColorMap([
+    ...topSites.map((_, index) => index),
+    otherLabel,
+    NO_SITE_LABEL,
+  ]);
+  const labelNames = new Map<number, string>([[NO_SITE_LABEL, "No article"]]);
+
+  topSites.forEach((siteName, index) => {
+    labelNames.set(index, siteName);
+  });
+  if (counts.size > topSites.length) {
+    labelNames.set(otherLabel, "Other sites");
+  }
+
+  return { labels, colorMap, labelNames };
+}
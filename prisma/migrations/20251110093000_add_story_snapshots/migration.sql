@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "StorySnapshot" (
+    "id" SERIAL NOT NULL,
+    "observedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "score" INTEGER,
+    "descendants" INTEGER,
+    "rank" INTEGER,
+    "storyId" INTEGER NOT NULL,
+
+    CONSTRAINT "StorySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StorySnapshot_storyId_observedAt_idx" ON "StorySnapshot"("storyId", "observedAt");
+
+-- CreateIndex
+CREATE INDEX "StorySnapshot_observedAt_idx" ON "StorySnapshot"("observedAt");
+
+-- AddForeignKey
+ALTER TABLE "StorySnapshot" ADD CONSTRAINT "StorySnapshot_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "HnStory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
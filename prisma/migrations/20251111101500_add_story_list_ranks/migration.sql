@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "StoryListRank" (
+    "id" SERIAL NOT NULL,
+    "list" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "observedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "storyId" INTEGER NOT NULL,
+
+    CONSTRAINT "StoryListRank_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StoryListRank_list_observedAt_rank_idx" ON "StoryListRank"("list", "observedAt", "rank");
+
+-- CreateIndex
+CREATE INDEX "StoryListRank_storyId_idx" ON "StoryListRank"("storyId");
+
+-- AddForeignKey
+ALTER TABLE "StoryListRank" ADD CONSTRAINT "StoryListRank_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "HnStory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "HnStory" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'story';
+
+-- CreateTable
+CREATE TABLE "HnPollOption" (
+    "id" INTEGER NOT NULL,
+    "text" TEXT,
+    "score" INTEGER,
+    "by" TEXT,
+    "time" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "dead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "pollId" INTEGER NOT NULL,
+
+    CONSTRAINT "HnPollOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HnPollOption_pollId_idx" ON "HnPollOption"("pollId");
+
+-- CreateIndex
+CREATE INDEX "HnStory_type_idx" ON "HnStory"("type");
+
+-- AddForeignKey
+ALTER TABLE "HnPollOption" ADD CONSTRAINT "HnPollOption_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "HnStory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "HnUser" (
+    "id" TEXT NOT NULL,
+    "karma" INTEGER NOT NULL,
+    "created" INTEGER NOT NULL,
+    "about" TEXT,
+    "submitted" INTEGER NOT NULL DEFAULT 0,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HnUser_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HnUser_fetchedAt_idx" ON "HnUser"("fetchedAt");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "HnComment" ADD COLUMN     "depth" INTEGER,
+ADD COLUMN     "parentCommentId" INTEGER,
+ADD COLUMN     "rank" INTEGER;
+
+-- Link existing replies to their parent comments
+UPDATE "HnComment" c
+SET "parentCommentId" = c."parent"
+FROM "HnComment" p
+WHERE p."id" = c."parent";
+
+-- Derive depth from the reply chain (sibling rank is unknown until the
+-- thread is refreshed)
+WITH RECURSIVE tree AS (
+    SELECT "id", 0 AS "depth"
+    FROM "HnComment"
+    WHERE "parentCommentId" IS NULL
+  UNION ALL
+    SELECT c."id", tree."depth" + 1
+    FROM "HnComment" c
+    JOIN tree ON c."parentCommentId" = tree."id"
+)
+UPDATE "HnComment" c
+SET "depth" = tree."depth"
+FROM tree
+WHERE tree."id" = c."id";
+
+-- CreateIndex
+CREATE INDEX "HnComment_parentCommentId_idx" ON "HnComment"("parentCommentId");
+
+-- AddForeignKey
+ALTER TABLE "HnComment" ADD CONSTRAINT "HnComment_parentCommentId_fkey" FOREIGN KEY ("parentCommentId") REFERENCES "HnComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
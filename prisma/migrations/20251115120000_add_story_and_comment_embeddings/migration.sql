@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Embedding" ADD COLUMN     "commentId" INTEGER,
+ADD COLUMN     "sourceType" TEXT NOT NULL DEFAULT 'article',
+ADD COLUMN     "storyId" INTEGER,
+ALTER COLUMN "articleId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Embedding_storyId_idx" ON "Embedding"("storyId");
+
+-- CreateIndex
+CREATE INDEX "Embedding_commentId_idx" ON "Embedding"("commentId");
+
+-- AddForeignKey
+ALTER TABLE "Embedding" ADD CONSTRAINT "Embedding_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "HnStory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Embedding" ADD CONSTRAINT "Embedding_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "HnComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
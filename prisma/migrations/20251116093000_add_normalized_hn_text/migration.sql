@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "HnStory" ADD COLUMN     "textMarkdown" TEXT,
+ADD COLUMN     "textPlain" TEXT;
+
+-- AlterTable
+ALTER TABLE "HnComment" ADD COLUMN     "textMarkdown" TEXT,
+ADD COLUMN     "textPlain" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "extractionConfidence" DOUBLE PRECISION;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "contentMarkdown" TEXT;
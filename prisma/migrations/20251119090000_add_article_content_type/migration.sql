@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "contentType" TEXT,
+ADD COLUMN     "pageCount" INTEGER;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failureClass" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ScrapedArticle_status_nextAttemptAt_idx" ON "ScrapedArticle"("status", "nextAttemptAt");
+
+-- Backfill: every scraped article has been attempted once
+UPDATE "ScrapedArticle" SET "attemptCount" = 1 WHERE "status" IN ('success', 'failed');
+
+-- Backfill: classify existing failures from their error message
+UPDATE "ScrapedArticle"
+SET "failureClass" = CASE
+    WHEN "error" = 'Blocked by robots.txt' THEN 'robots-blocked'
+    WHEN "error" LIKE 'Unsupported content type%'
+      OR "error" LIKE 'PDF %'
+      OR "error" LIKE 'Unreadable PDF%' THEN 'unsupported-type'
+    WHEN "error" LIKE 'HTTP 429%' THEN 'rate-limited'
+    WHEN "error" LIKE 'HTTP 5%' THEN 'server-error'
+    WHEN "error" LIKE 'HTTP 4%' THEN 'gone'
+    ELSE 'network'
+  END
+WHERE "status" = 'failed';
+
+-- Backfill: transient failures are due for a retry straight away
+UPDATE "ScrapedArticle"
+SET "nextAttemptAt" = CURRENT_TIMESTAMP
+WHERE "status" = 'failed'
+  AND "failureClass" IN ('network', 'server-error', 'rate-limited');
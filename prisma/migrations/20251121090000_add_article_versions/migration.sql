@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "etag" TEXT,
+ADD COLUMN     "lastModified" TEXT;
+
+-- CreateTable
+CREATE TABLE "ArticleVersion" (
+    "id" SERIAL NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "title" TEXT,
+    "content" TEXT NOT NULL,
+    "contentMarkdown" TEXT,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "articleId" INTEGER NOT NULL,
+
+    CONSTRAINT "ArticleVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleVersion_articleId_fetchedAt_idx" ON "ArticleVersion"("articleId", "fetchedAt");
+
+-- AddForeignKey
+ALTER TABLE "ArticleVersion" ADD CONSTRAINT "ArticleVersion_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "ScrapedArticle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: hash existing content (same digest as hashContent in lib/scraping/versions.ts)
+UPDATE "ScrapedArticle"
+SET "contentHash" = encode(sha256(convert_to("content", 'UTF8')), 'hex')
+WHERE "content" IS NOT NULL;
+
+-- Backfill: existing content becomes each article's first version
+INSERT INTO "ArticleVersion" ("contentHash", "title", "content", "contentMarkdown", "fetchedAt", "articleId")
+SELECT "contentHash", "title", "content", "contentMarkdown", COALESCE("fetchedAt", "createdAt"), "id"
+FROM "ScrapedArticle"
+WHERE "status" = 'success' AND "content" IS NOT NULL;
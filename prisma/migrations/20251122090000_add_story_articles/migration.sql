@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "StoryArticle" (
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "storyId" INTEGER NOT NULL,
+    "articleId" INTEGER NOT NULL,
+
+    CONSTRAINT "StoryArticle_pkey" PRIMARY KEY ("storyId","articleId")
+);
+
+-- CreateIndex
+CREATE INDEX "StoryArticle_articleId_idx" ON "StoryArticle"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "StoryArticle" ADD CONSTRAINT "StoryArticle_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "HnStory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoryArticle" ADD CONSTRAINT "StoryArticle_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "ScrapedArticle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each article's story into the join table
+INSERT INTO "StoryArticle" ("createdAt", "storyId", "articleId")
+SELECT "createdAt", "storyId", "id"
+FROM "ScrapedArticle";
+
+-- Link reposts, which got no article while "url" and "storyId" were both unique
+INSERT INTO "StoryArticle" ("createdAt", "storyId", "articleId")
+SELECT s."createdAt", s.id, a.id
+FROM "HnStory" s
+JOIN "ScrapedArticle" a ON a.url = s.url
+ON CONFLICT DO NOTHING;
+
+-- DropForeignKey
+ALTER TABLE "ScrapedArticle" DROP CONSTRAINT "ScrapedArticle_storyId_fkey";
+
+-- DropIndex
+DROP INDEX "ScrapedArticle_storyId_key";
+
+-- AlterTable
+ALTER TABLE "ScrapedArticle" DROP COLUMN "storyId",
+ADD COLUMN     "canonicalUrl" TEXT;
+
+-- Existing URLs are unique; `pnpm run canonicalize-articles` normalizes them
+-- and merges the duplicates
+UPDATE "ScrapedArticle" SET "canonicalUrl" = "url";
+
+ALTER TABLE "ScrapedArticle" ALTER COLUMN "canonicalUrl" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScrapedArticle_canonicalUrl_key" ON "ScrapedArticle"("canonicalUrl");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "ScrapedArticle" ADD COLUMN     "author" TEXT,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "imageUrl" TEXT,
+ADD COLUMN     "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "siteName" TEXT,
+ADD COLUMN     "wordCount" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ScrapedArticle_siteName_idx" ON "ScrapedArticle"("siteName");
+
+-- CreateIndex
+CREATE INDEX "ScrapedArticle_language_idx" ON "ScrapedArticle"("language");
+
+-- CreateIndex
+CREATE INDEX "ScrapedArticle_publishedAt_idx" ON "ScrapedArticle"("publishedAt");
+
+-- Backfill: word count of already extracted text
+UPDATE "ScrapedArticle"
+SET "wordCount" = CASE
+  WHEN btrim("content") = '' THEN 0
+  ELSE array_length(regexp_split_to_array(btrim("content"), '\s+'), 1)
+END
+WHERE "content" IS NOT NULL;
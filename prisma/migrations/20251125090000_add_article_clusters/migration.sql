@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ArticleCluster" (
+    "id" SERIAL NOT NULL,
+    "epsilon" DOUBLE PRECISION NOT NULL,
+    "minPoints" INTEGER NOT NULL,
+    "label" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "articleId" INTEGER NOT NULL,
+
+    CONSTRAINT "ArticleCluster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleCluster_epsilon_minPoints_label_idx" ON "ArticleCluster"("epsilon", "minPoints", "label");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticleCluster_epsilon_minPoints_articleId_key" ON "ArticleCluster"("epsilon", "minPoints", "articleId");
+
+-- AddForeignKey
+ALTER TABLE "ArticleCluster" ADD CONSTRAINT "ArticleCluster_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "ScrapedArticle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to normalize the canonical URLs of stored articles and merge
+ * articles that turn out to be the same page
+ *
+ * Run once after migrating to canonical URLs, and again whenever the
+ * canonicalization rules change.
+ *
+ * Usage:
+ *   pnpm tsx scripts/canonicalize-articles.ts
+ *   pnpm tsx scripts/canonicalize-articles.ts --batch-size=500
+ */
+
+import { canonicalizeArticles } from "../lib/scraping";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): { batchSize?: number } {
+  const args = process.argv.slice(2);
+  const options: { batchSize?: number } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--batch-size=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.batchSize = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/canonicalize-articles.ts [options]
+
+Options:
+  --batch-size=N   Articles read per query (default: 1000)
+  --help, -h       Show this help message
+
+Examples:
+  pnpm tsx scripts/canonicalize-articles.ts
+  pnpm tsx scripts/canonicalize-articles.ts --batch-size=500
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== Article URL Canonicalization ===\n");
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "canonicalize-articles",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const result = await canonicalizeArticles(options.batchSize);
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: { ...options, result: { ...result } },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Canonical URLs updated: ${result.updated}`);
+    console.log(`Duplicate articles merged: ${result.merged}`);
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
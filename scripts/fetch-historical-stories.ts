@@ -0,0 +1,316 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to backfill historical HN stories and comments
+ *
+ * Walks item IDs downwards from the current max item until it reaches the
+ * target date. Progress is checkpointed in the Task table after every batch,
+ * so an interrupted run resumes where it stopped.
+ *
+ * Usage:
+ *   pnpm tsx scripts/fetch-historical-stories.ts --days=90
+ *   pnpm tsx scripts/fetch-historical-stories.ts --days=7 --limit=1000
+ */
+
+import { appendFileSync } from "fs";
+import {
+  backfillStories,
+  configureHnClient,
+  createBackfillCheckpoint,
+  isBackfillCheckpoint,
+  type BackfillCheckpoint,
+} from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+const TASK_TYPE = "fetch-historical-stories";
+const LOG_FILE = "fetch-historical-stories.log";
+
+/**
+ * Command line options
+ */
+interface HistoricalOptions {
+  days: number;
+  limit?: number;
+  batchSize?: number;
+  concurrency?: number;
+  requestsPerSecond?: number;
+  delay?: number;
+  fresh: boolean;
+}
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): HistoricalOptions {
+  const args = process.argv.slice(2);
+  const options: HistoricalOptions = { days: 30, fresh: false };
+
+  for (const arg of args) {
+    const value = arg.split("=")[1];
+
+    if (arg.startsWith("--days=") && value !== undefined) {
+      options.days = parseInt(value, 10);
+    } else if (arg.startsWith("--limit=") && value !== undefined) {
+      options.limit = parseInt(value, 10);
+    } else if (arg.startsWith("--batch-size=") && value !== undefined) {
+      options.batchSize = parseInt(value, 10);
+    } else if (arg.startsWith("--concurrency=") && value !== undefined) {
+      options.concurrency = parseInt(value, 10);
+    } else if (
+      arg.startsWith("--requests-per-second=") &&
+      value !== undefined
+    ) {
+      options.requestsPerSecond = parseInt(value, 10);
+    } else if (arg.startsWith("--delay=") && value !== undefined) {
+      options.delay = parseInt(value, 10);
+    } else if (arg === "--fresh") {
+      options.fresh = true;
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/fetch-historical-stories.ts [options]
+
+Options:
+  --days=N          Number of days to go back (default: 30)
+  --limit=N         Maximum number of stories to fetch in this run
+  --batch-size=N    Number of IDs to check per batch (default: 100)
+  --concurrency=N   Number of parallel API requests (default: 10)
+  --requests-per-second=N
+                    Maximum HN API request rate (default: 20)
+  --delay=N         Delay in ms between batches (default: 1000)
+  --fresh           Ignore any interrupted run and start from the max item
+  --help, -h        Show this help message
+
+Interrupted runs are resumed automatically from their last checkpoint.
+
+Examples:
+  pnpm tsx scripts/fetch-historical-stories.ts --days=90
+  pnpm tsx scripts/fetch-historical-stories.ts --days=30 --batch-size=50 --concurrency=5
+  pnpm tsx scripts/fetch-historical-stories.ts --days=7 --limit=1000
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Find the most recent backfill task that did not complete
+ *
+ * @returns Task ID and checkpoint, or null if there is nothing to resume
+ */
+async function findResumableTask(): Promise<{
+  taskId: number;
+  checkpoint: BackfillCheckpoint;
+} | null> {
+  const task = await prisma.task.findFirst({
+    where: {
+      type: TASK_TYPE,
+      status: { in: ["running", "failed"] },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const metadata = task?.metadata;
+
+  if (
+    task === null ||
+    typeof metadata !== "object" ||
+    metadata === null ||
+    Array.isArray(metadata)
+  ) {
+    return null;
+  }
+
+  const checkpoint = metadata["checkpoint"];
+
+  if (!isBackfillCheckpoint(checkpoint)) {
+    return null;
+  }
+
+  return { taskId: task.id, checkpoint };
+}
+
+/**
+ * Format a Unix timestamp as an ISO date string
+ *
+ * @param time - Unix timestamp in seconds
+ * @returns ISO date string
+ */
+function formatTime(time: number): string {
+  return new Date(time * 1000).toISOString();
+}
+
+/**
+ * Print a one-line progress summary with an ETA
+ *
+ * @param checkpoint - Current checkpoint
+ * @param runStartedAt - When this run started (ms since epoch)
+ * @param initialOldest - Oldest item time when this run started
+ */
+function printProgress(
+  checkpoint: BackfillCheckpoint,
+  runStartedAt: number,
+  initialOldest: number
+): void {
+  const oldest = checkpoint.oldestTime ?? checkpoint.startTime;
+  const span = checkpoint.startTime - checkpoint.cutoffTime;
+  const percent = Math.min(100, ((checkpoint.startTime - oldest) / span) * 100);
+
+  // Extrapolate from how far back this run has walked so far
+  const covered = initialOldest - oldest;
+  const elapsed = (Date.now() - runStartedAt) / 1000;
+  const remaining = oldest - checkpoint.cutoffTime;
+  const eta =
+    covered > 0 ? `${Math.ceil((remaining / covered) * elapsed)}s` : "?";
+
+  console.log(
+    `[${percent.toFixed(1)}%] id ${checkpoint.nextId} @ ${formatTime(oldest)} | ` +
+      `stories ${checkpoint.storiesFetched}, comments ${checkpoint.commentsFetched}, ` +
+      `skipped ${checkpoint.skipped}, errors ${checkpoint.errors} | ETA ${eta}`
+  );
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== Historical Story Fetcher ===\n");
+
+  appendFileSync(
+    LOG_FILE,
+    `=== Historical Story Fetcher Log ===\nStarted at: ${new Date().toISOString()}\n\n`
+  );
+
+  configureHnClient({
+    ...(options.concurrency !== undefined && {
+      concurrency: options.concurrency,
+    }),
+    ...(options.requestsPerSecond !== undefined && {
+      requestsPerSecond: options.requestsPerSecond,
+    }),
+  });
+
+  const resumable = options.fresh ? null : await findResumableTask();
+  let taskId: number;
+  let checkpoint: BackfillCheckpoint;
+
+  if (resumable !== null) {
+    taskId = resumable.taskId;
+    checkpoint = resumable.checkpoint;
+
+    console.log(
+      `Resuming task ${taskId} at item ${checkpoint.nextId} ` +
+        `(walking back to ${formatTime(checkpoint.cutoffTime)})...\n`
+    );
+
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { status: "running", error: null },
+    });
+  } else {
+    checkpoint = await createBackfillCheckpoint(options.days);
+
+    console.log(
+      `Fetching stories from the last ${options.days} days, ` +
+        `starting at item ${checkpoint.startId}...\n`
+    );
+
+    const task = await prisma.task.create({
+      data: {
+        type: TASK_TYPE,
+        status: "running",
+        startedAt: new Date(),
+        metadata: { ...options, checkpoint: { ...checkpoint } },
+      },
+    });
+    taskId = task.id;
+  }
+
+  // Leave the task resumable when the process is interrupted
+  process.on("SIGINT", () => {
+    void prisma.task
+      .update({
+        where: { id: taskId },
+        data: { status: "failed", error: "Interrupted" },
+      })
+      .finally(() => {
+        console.log("\nInterrupted. Run again to resume from the checkpoint.");
+        process.exit(130);
+      });
+  });
+
+  const runStartedAt = Date.now();
+  const initialOldest = checkpoint.oldestTime ?? checkpoint.startTime;
+
+  try {
+    const result = await backfillStories(checkpoint, {
+      ...(options.limit !== undefined && { limit: options.limit }),
+      ...(options.batchSize !== undefined && { batchSize: options.batchSize }),
+      ...(options.delay !== undefined && { delayMs: options.delay }),
+      onBatchComplete: async (current) => {
+        await prisma.task.update({
+          where: { id: taskId },
+          data: { metadata: { ...options, checkpoint: { ...current } } },
+        });
+        printProgress(current, runStartedAt, initialOldest);
+      },
+      onError: (id, error) => {
+        appendFileSync(LOG_FILE, `Error processing item ${id}: ${error}\n`);
+      },
+    });
+
+    // A run stopped by --limit stays resumable
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: result.completed ? "completed" : "running",
+        ...(result.completed && { completedAt: new Date() }),
+        metadata: { ...options, checkpoint: { ...result.checkpoint } },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Items scanned: ${result.checkpoint.itemsScanned}`);
+    console.log(`Stories fetched: ${result.checkpoint.storiesFetched}`);
+    console.log(`Comments fetched: ${result.checkpoint.commentsFetched}`);
+    console.log(
+      `Stories skipped (already exist): ${result.checkpoint.skipped}`
+    );
+    console.log(`Errors: ${result.checkpoint.errors} (see ${LOG_FILE})`);
+
+    if (result.checkpoint.failedIds.length > 0) {
+      console.log(
+        `Items still failing: ${result.checkpoint.failedIds.join(", ")}`
+      );
+    }
+
+    if (!result.completed) {
+      console.log(
+        `\nStopped at item ${result.checkpoint.nextId}. Run again to continue.`
+      );
+    }
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status; the last checkpoint is kept for resuming
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -6,9 +6,17 @@
  * Usage:
  *   pnpm tsx scripts/fetch-stories.ts --hours=24
  *   pnpm tsx scripts/fetch-stories.ts --count=100
+ *   pnpm tsx scripts/fetch-stories.ts --fixtures=fixtures/hn
  */
 
-import { fetchAndPersistStories } from "../lib/hacker-news";
+import {
+  configureHnClient,
+  fetchAndPersistStories,
+  isStoryListSource,
+  loadFixtureSource,
+  setHnSource,
+  type StoryListSource,
+} from "../lib/hacker-news";
 import { prisma } from "../lib/database";
 
 /**
@@ -16,12 +24,42 @@ import { prisma } from "../lib/database";
  *
  * @returns Parsed options
  */
-function parseArgs(): { hours?: number; count?: number } {
+function parseArgs(): {
+  source?: StoryListSource;
+  hours?: number;
+  count?: number;
+  concurrency?: number;
+  requestsPerSecond?: number;
+  minScore?: number;
+  minComments?: number;
+  urlOnly?: boolean;
+  fixtures?: string;
+  batchSize?: number;
+} {
   const args = process.argv.slice(2);
-  const options: { hours?: number; count?: number } = {};
+  const options: {
+    source?: StoryListSource;
+    hours?: number;
+    count?: number;
+    concurrency?: number;
+    requestsPerSecond?: number;
+    minScore?: number;
+    minComments?: number;
+    urlOnly?: boolean;
+    fixtures?: string;
+    batchSize?: number;
+  } = {};
 
   for (const arg of args) {
-    if (arg.startsWith("--hours=")) {
+    if (arg.startsWith("--source=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined && isStoryListSource(value)) {
+        options.source = value;
+      } else {
+        console.error(`Unknown story list: ${value ?? ""}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith("--hours=")) {
       const value = arg.split("=")[1];
       if (value !== undefined) {
         options.hours = parseInt(value, 10);
@@ -31,18 +69,70 @@ function parseArgs(): { hours?: number; count?: number } {
       if (value !== undefined) {
         options.count = parseInt(value, 10);
       }
+    } else if (arg.startsWith("--concurrency=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.concurrency = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--requests-per-second=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.requestsPerSecond = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--min-score=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.minScore = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--min-comments=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.minComments = parseInt(value, 10);
+      }
+    } else if (arg === "--url-only") {
+      options.urlOnly = true;
+    } else if (arg.startsWith("--batch-size=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.batchSize = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--fixtures=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.fixtures = value;
+      }
     } else if (arg === "--help" || arg === "-h") {
       console.log(`
 Usage: pnpm tsx scripts/fetch-stories.ts [options]
 
 Options:
+  --source=L  Story list to read: new, top, best, ask, show or job
+              (default: new)
   --hours=N   Fetch stories from the last N hours (default: 24)
   --count=N   Fetch the latest N stories
+  --min-score=N
+              Only fetch stories with at least N points
+  --min-comments=N
+              Only fetch stories with at least N comments
+  --url-only  Only fetch stories that link to a URL
+  --concurrency=N
+              Number of parallel HN API requests (default: 10)
+  --requests-per-second=N
+              Maximum HN API request rate (default: 20)
+  --batch-size=N
+              Maximum rows per bulk insert when storing a story
+              (default: 1000)
+  --fixtures=DIR
+              Read from a recorded fixture directory instead of the live
+              API (see scripts/record-fixtures.ts)
   --help, -h  Show this help message
 
 Examples:
   pnpm tsx scripts/fetch-stories.ts --hours=12
   pnpm tsx scripts/fetch-stories.ts --count=50
+  pnpm tsx scripts/fetch-stories.ts --source=top --count=30
+  pnpm tsx scripts/fetch-stories.ts --hours=48 --min-comments=20 --url-only
+  pnpm tsx scripts/fetch-stories.ts --fixtures=fixtures/hn --hours=24
       `);
       process.exit(0);
     }
@@ -59,6 +149,25 @@ async function main(): Promise<void> {
 
   console.log("=== HN Story Fetcher ===\n");
 
+  configureHnClient({
+    ...(options.concurrency !== undefined && {
+      concurrency: options.concurrency,
+    }),
+    ...(options.requestsPerSecond !== undefined && {
+      requestsPerSecond: options.requestsPerSecond,
+    }),
+  });
+
+  if (options.fixtures !== undefined) {
+    // Replay as if recorded just now, so --hours selects the same stories
+    setHnSource(
+      await loadFixtureSource(options.fixtures, {
+        replayAt: Math.floor(Date.now() / 1000),
+      })
+    );
+    console.log(`Reading from fixtures in ${options.fixtures}\n`);
+  }
+
   if (options.hours !== undefined) {
     console.log(`Fetching stories from the last ${options.hours} hours...\n`);
   } else if (options.count !== undefined) {
@@ -79,6 +188,14 @@ async function main(): Promise<void> {
 
   try {
     const result = await fetchAndPersistStories(options);
+    const totalBatchMs = result.batches.reduce(
+      (sum, batch) => sum + batch.durationMs,
+      0
+    );
+    const batchRows = result.batches.reduce(
+      (sum, batch) => sum + batch.rows,
+      0
+    );
 
     // Update task status
     await prisma.task.update({
@@ -92,7 +209,10 @@ async function main(): Promise<void> {
             stories: result.stories.length,
             comments: result.comments.length,
             skipped: result.skipped,
+            rejected: result.rejected,
             errors: result.errors.length,
+            batches: result.batches.length,
+            batchMs: totalBatchMs,
           },
         },
       },
@@ -102,7 +222,21 @@ async function main(): Promise<void> {
     console.log(`Stories fetched: ${result.stories.length}`);
     console.log(`Comments fetched: ${result.comments.length}`);
     console.log(`Stories skipped (already exist): ${result.skipped}`);
+    console.log(`Candidates rejected (not matching): ${result.rejected}`);
     console.log(`Errors: ${result.errors.length}`);
+    console.log(
+      `Bulk writes: ${result.batches.length} batches, ${batchRows} rows in ${totalBatchMs}ms`
+    );
+
+    if (result.batches.length > 0) {
+      const slowest = Math.max(
+        ...result.batches.map((batch) => batch.durationMs)
+      );
+      console.log(
+        `  Average ${Math.round(totalBatchMs / result.batches.length)}ms per batch, ` +
+          `slowest ${slowest}ms`
+      );
+    }
 
     if (result.errors.length > 0) {
       console.log("\nErrors:");
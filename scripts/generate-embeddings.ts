@@ -1,24 +1,36 @@
 #!/usr/bin/env tsx
 
 /**
- * CLI script to generate embeddings for scraped articles
+ * CLI script to generate embeddings for scraped articles, story text and
+ * comments
+ *
+ * Article clusters (used by user summaries) are recomputed afterwards if new
+ * full-article embeddings were created.
  *
  * Usage:
  *   pnpm tsx scripts/generate-embeddings.ts
  *   pnpm tsx scripts/generate-embeddings.ts --limit=5
+ *   pnpm tsx scripts/generate-embeddings.ts --sources=story,comment
  */
 
-import { processAllArticles } from "../lib/embeddings";
+import {
+  isEmbeddingSourceType,
+  processEmbeddingSources,
+  type EmbeddingSourceType,
+} from "../lib/embeddings";
 import { prisma } from "../lib/database";
+import { ensureArticleClusters } from "../lib/visualization/article-clusters";
 
 /**
  * Parse command line arguments
  *
  * @returns Parsed options
  */
-function parseArgs(): { limit?: number } {
+function parseArgs(): { limit?: number; sources: EmbeddingSourceType[] } {
   const args = process.argv.slice(2);
-  const options: { limit?: number } = {};
+  const options: { limit?: number; sources: EmbeddingSourceType[] } = {
+    sources: ["article", "story", "comment"],
+  };
 
   for (const arg of args) {
     if (arg.startsWith("--limit=")) {
@@ -26,17 +38,30 @@ function parseArgs(): { limit?: number } {
       if (value !== undefined) {
         options.limit = parseInt(value, 10);
       }
+    } else if (arg.startsWith("--sources=")) {
+      const values = (arg.split("=")[1] ?? "").split(",");
+      const sources = values.filter(isEmbeddingSourceType);
+
+      if (sources.length !== values.length) {
+        console.error(`Unknown embedding source in: ${values.join(",")}`);
+        process.exit(1);
+      }
+
+      options.sources = sources;
     } else if (arg === "--help" || arg === "-h") {
       console.log(`
 Usage: pnpm tsx scripts/generate-embeddings.ts [options]
 
 Options:
-  --limit=N   Maximum number of articles to process
-  --help, -h  Show this help message
+  --limit=N      Maximum number of items to process per source
+  --sources=S    Comma-separated sources to embed: article, story, comment
+                 (default: all)
+  --help, -h     Show this help message
 
 Examples:
   pnpm tsx scripts/generate-embeddings.ts
   pnpm tsx scripts/generate-embeddings.ts --limit=10
+  pnpm tsx scripts/generate-embeddings.ts --sources=story,comment
       `);
       process.exit(0);
     }
@@ -53,10 +78,14 @@ async function main(): Promise<void> {
 
   console.log("=== Embedding Generator ===\n");
 
+  const sources = options.sources.join(", ");
+
   if (options.limit !== undefined) {
-    console.log(`Processing up to ${options.limit} articles...\n`);
+    console.log(
+      `Processing up to ${options.limit} items per source (${sources})...\n`
+    );
   } else {
-    console.log("Processing all articles without embeddings...\n");
+    console.log(`Processing everything without embeddings (${sources})...\n`);
   }
 
   // Create a task record
@@ -70,7 +99,11 @@ async function main(): Promise<void> {
   });
 
   try {
-    const stats = await processAllArticles(options.limit);
+    const stats = await processEmbeddingSources(options.sources, options.limit);
+
+    // User summaries read stored cluster labels; refresh them here
+    console.log("\nClustering articles...");
+    const reclustered = await ensureArticleClusters();
 
     // Update task status
     await prisma.task.update({
@@ -80,15 +113,24 @@ async function main(): Promise<void> {
         completedAt: new Date(),
         metadata: {
           ...options,
-          result: stats,
+          result: stats.map((sourceStats) => ({ ...sourceStats })),
         },
       },
     });
 
     console.log("\n=== Summary ===");
-    console.log(`Articles processed: ${stats.processed}`);
-    console.log(`Embeddings created: ${stats.embeddings}`);
-    console.log(`Errors: ${stats.errors}`);
+    for (const sourceStats of stats) {
+      console.log(
+        `${sourceStats.source}: ${sourceStats.processed} processed, ` +
+          `${sourceStats.embeddings} embeddings created, ` +
+          `${sourceStats.errors} errors`
+      );
+    }
+    console.log(
+      reclustered
+        ? "Article clusters: recomputed"
+        : "Article clusters: already up to date"
+    );
     console.log("\n✓ Done!");
   } catch (error) {
     // Update task status
@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to bulk import HN items from a dump file
+ *
+ * Usage:
+ *   pnpm tsx scripts/import-dump.ts --file=data/items.jsonl
+ *   pnpm tsx scripts/import-dump.ts --file=data/hn.csv --batch-size=10000
+ */
+
+import { importDump, type DumpFormat } from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): {
+  file?: string;
+  format?: DumpFormat;
+  batchSize?: number;
+} {
+  const args = process.argv.slice(2);
+  const options: { file?: string; format?: DumpFormat; batchSize?: number } =
+    {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--file=")) {
+      const value = arg.slice("--file=".length);
+      if (value !== "") {
+        options.file = value;
+      }
+    } else if (arg.startsWith("--format=")) {
+      const value = arg.split("=")[1];
+      if (value === "jsonl" || value === "csv") {
+        options.format = value;
+      } else {
+        console.error(`Unknown dump format: ${value ?? ""}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith("--batch-size=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.batchSize = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/import-dump.ts --file=PATH [options]
+
+Options:
+  --file=PATH      Dump file to import (required)
+  --format=F       Dump format: jsonl or csv (default: from the file extension)
+  --batch-size=N   Rows written per batch (default: 5000)
+  --help, -h       Show this help message
+
+Formats:
+  jsonl   One HN API item per line
+  csv     BigQuery export (bigquery-public-data.hacker_news.full) with a
+          header row
+
+Examples:
+  pnpm tsx scripts/import-dump.ts --file=data/items.jsonl
+  pnpm tsx scripts/import-dump.ts --file=data/hn.csv --batch-size=10000
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const { file, ...options } = parseArgs();
+
+  if (file === undefined) {
+    console.error("Missing --file (see --help)");
+    process.exit(1);
+  }
+
+  console.log("=== HN Dump Import ===\n");
+  console.log(`Importing ${file}...\n`);
+
+  const startTime = Date.now();
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "import-dump",
+      status: "running",
+      startedAt: new Date(),
+      metadata: { file, ...options },
+    },
+  });
+
+  try {
+    const stats = await importDump(file, {
+      ...options,
+      onProgress: (progress) => {
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
+        console.log(
+          `[${elapsed}s] ${progress.recordsRead} records read, ` +
+            `${progress.storiesInserted} stories, ` +
+            `${progress.commentsInserted} comments inserted`
+        );
+      },
+    });
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: { file, ...options, result: { ...stats } },
+      },
+    });
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    console.log("\n=== Summary ===");
+    console.log(`Duration: ${duration}s`);
+    console.log(`Records read: ${stats.recordsRead}`);
+    console.log(`Invalid records: ${stats.invalid}`);
+    console.log(`Stories inserted: ${stats.storiesInserted}`);
+    console.log(`Comments inserted: ${stats.commentsInserted}`);
+    console.log(`Orphan comments: ${stats.orphanComments}`);
+    console.log(`Poll options inserted: ${stats.pollOptionsInserted}`);
+    console.log(`Articles queued for scraping: ${stats.articlesQueued}`);
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to fill in plain-text and markdown renditions of stored HN text
+ *
+ * Stories and comments ingested before text normalisation only have the raw
+ * HTML; this decodes it once. New rows are normalised on ingest.
+ *
+ * Usage:
+ *   pnpm tsx scripts/normalize-text.ts
+ *   pnpm tsx scripts/normalize-text.ts --batch-size=1000
+ */
+
+import { normalizeStoredText } from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): { batchSize?: number } {
+  const args = process.argv.slice(2);
+  const options: { batchSize?: number } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--batch-size=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.batchSize = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/normalize-text.ts [options]
+
+Options:
+  --batch-size=N  Rows updated per transaction (default: 500)
+  --help, -h      Show this help message
+
+Examples:
+  pnpm tsx scripts/normalize-text.ts
+  pnpm tsx scripts/normalize-text.ts --batch-size=1000
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== HN Text Normalization ===\n");
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "normalize-text",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const result = await normalizeStoredText(options);
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: { ...options, result: { ...result } },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Stories normalized: ${result.stories}`);
+    console.log(`Comments normalized: ${result.comments}`);
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to re-run the current extractor over archived responses and
+ * update the extracted content of scraped articles, without fetching them
+ *
+ * Articles whose text changed lose their embeddings; run generate-embeddings
+ * afterwards to regenerate them.
+ *
+ * Usage:
+ *   pnpm tsx scripts/re-extract.ts
+ *   pnpm tsx scripts/re-extract.ts --limit=100
+ *   pnpm tsx scripts/re-extract.ts --archive-dir=/mnt/archive
+ */
+
+import { reExtractArticles } from "../lib/scraping";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): {
+  limit?: number;
+  batchSize?: number;
+  archiveDir?: string;
+} {
+  const args = process.argv.slice(2);
+  const options: {
+    limit?: number;
+    batchSize?: number;
+    archiveDir?: string;
+  } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--limit=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.limit = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--batch-size=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.batchSize = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--archive-dir=")) {
+      const value = arg.slice("--archive-dir=".length);
+      if (value !== "") {
+        options.archiveDir = value;
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/re-extract.ts [options]
+
+Options:
+  --limit=N          Maximum number of articles to re-extract
+  --batch-size=N     Articles read per query (default: 200)
+  --archive-dir=DIR  Response archive (default: $ARCHIVE_DIR or data/archive)
+  --help, -h         Show this help message
+
+Examples:
+  pnpm tsx scripts/re-extract.ts
+  pnpm tsx scripts/re-extract.ts --limit=100
+  pnpm tsx scripts/re-extract.ts --archive-dir=/mnt/archive
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== Article Re-extraction ===\n");
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "re-extract",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const stats = await reExtractArticles(options);
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: {
+          ...options,
+          result: { ...stats },
+        },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Articles changed: ${stats.changed}`);
+    console.log(`Articles unchanged: ${stats.unchanged}`);
+    console.log(`Articles missing from the archive: ${stats.missing}`);
+    console.log(`Articles failed: ${stats.failed}`);
+
+    if (stats.changed > 0) {
+      console.log(
+        "\nRun generate-embeddings to re-embed the changed articles."
+      );
+    }
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
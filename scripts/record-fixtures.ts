@@ -0,0 +1,161 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to record HN item trees into a fixture directory
+ *
+ * Reads a story list from the live API and saves each story with its full
+ * comment tree (and poll options), so the fetcher can be run offline with
+ * `--fixtures=DIR`. Nothing is written to the database.
+ *
+ * Usage:
+ *   pnpm tsx scripts/record-fixtures.ts --out=fixtures/hn
+ *   pnpm tsx scripts/record-fixtures.ts --out=fixtures/hn --source=top --count=10
+ */
+
+import {
+  createHttpSource,
+  createRecordingSource,
+  fetchComments,
+  fetchItem,
+  fetchMaxItem,
+  fetchStoryList,
+  isStoryListSource,
+  saveFixtures,
+  setHnSource,
+  type StoryListSource,
+} from "../lib/hacker-news";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): {
+  out: string;
+  source: StoryListSource;
+  count: number;
+  maxCommentDepth?: number;
+} {
+  const args = process.argv.slice(2);
+  const options: {
+    out?: string;
+    source: StoryListSource;
+    count: number;
+    maxCommentDepth?: number;
+  } = { source: "new", count: 20 };
+
+  for (const arg of args) {
+    if (arg.startsWith("--out=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.out = value;
+      }
+    } else if (arg.startsWith("--source=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined && isStoryListSource(value)) {
+        options.source = value;
+      } else {
+        console.error(`Unknown story list: ${value ?? ""}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith("--count=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.count = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--max-depth=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxCommentDepth = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/record-fixtures.ts --out=DIR [options]
+
+Options:
+  --out=DIR       Fixture directory to write (required)
+  --source=L      Story list to record: new, top, best, ask, show or job
+                  (default: new)
+  --count=N       Number of stories to record (default: 20)
+  --max-depth=N   Maximum comment depth to record (default: unlimited)
+  --help, -h      Show this help message
+
+Examples:
+  pnpm tsx scripts/record-fixtures.ts --out=fixtures/hn
+  pnpm tsx scripts/record-fixtures.ts --out=fixtures/top --source=top --count=5
+      `);
+      process.exit(0);
+    }
+  }
+
+  if (options.out === undefined) {
+    console.error("Missing required option: --out=DIR");
+    process.exit(1);
+  }
+
+  return { ...options, out: options.out };
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== HN Fixture Recorder ===\n");
+
+  const recorder = createRecordingSource(createHttpSource());
+  setHnSource(recorder.source);
+
+  try {
+    await fetchMaxItem();
+
+    // Only the recorded stories are kept in the list, so replaying it
+    // fetches exactly what was recorded
+    const storyIds = (await fetchStoryList(options.source)).slice(
+      0,
+      options.count
+    );
+    recorder.fixtures.lists = { [options.source]: storyIds };
+
+    let comments = 0;
+
+    for (const storyId of storyIds) {
+      const story = await fetchItem(storyId);
+
+      if (story === null) {
+        continue;
+      }
+
+      if (story.type === "poll") {
+        await Promise.all((story.parts ?? []).map((id) => fetchItem(id)));
+      }
+
+      const thread = await fetchComments(
+        story.kids ?? [],
+        0,
+        options.maxCommentDepth
+      );
+      comments += thread.length;
+
+      console.log(
+        `Recorded story ${storyId} with ${thread.length} comments: ${story.title ?? ""}`
+      );
+    }
+
+    await saveFixtures(options.out, recorder.fixtures);
+
+    console.log("\n=== Summary ===");
+    console.log(`Stories recorded: ${storyIds.length}`);
+    console.log(`Comments recorded: ${comments}`);
+    console.log(`Items written: ${recorder.fixtures.items.length}`);
+    console.log(`Fixture directory: ${options.out}`);
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  }
+}
+
+void main();
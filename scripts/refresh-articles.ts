@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to re-fetch scraped articles and store new versions of those
+ * that changed
+ *
+ * Changed articles lose their embeddings; run generate-embeddings afterwards
+ * to regenerate them.
+ *
+ * Usage:
+ *   pnpm tsx scripts/refresh-articles.ts
+ *   pnpm tsx scripts/refresh-articles.ts --limit=100
+ *   pnpm tsx scripts/refresh-articles.ts --interval-hours=6 --max-age-days=7
+ */
+
+import { refreshArticles } from "../lib/scraping";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): {
+  limit?: number;
+  intervalHours?: number;
+  maxAgeDays?: number;
+  concurrency?: number;
+  perHost?: number;
+} {
+  const args = process.argv.slice(2);
+  const options: {
+    limit?: number;
+    intervalHours?: number;
+    maxAgeDays?: number;
+    concurrency?: number;
+    perHost?: number;
+  } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--limit=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.limit = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--interval-hours=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.intervalHours = parseFloat(value);
+      }
+    } else if (arg.startsWith("--max-age-days=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxAgeDays = parseFloat(value);
+      }
+    } else if (arg.startsWith("--concurrency=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.concurrency = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--per-host=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.perHost = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/refresh-articles.ts [options]
+
+Options:
+  --limit=N            Maximum number of articles to re-fetch
+  --interval-hours=N   Re-fetch articles last fetched N+ hours ago (default: 24)
+  --max-age-days=N     Only re-fetch articles queued in the last N days (default: 30)
+  --concurrency=N      Requests in flight across all hosts (default: 8)
+  --per-host=N         Requests in flight per host (default: 1)
+  --help, -h           Show this help message
+
+Examples:
+  pnpm tsx scripts/refresh-articles.ts
+  pnpm tsx scripts/refresh-articles.ts --limit=100
+  pnpm tsx scripts/refresh-articles.ts --interval-hours=6 --max-age-days=7
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== Article Refresh ===\n");
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "refresh-articles",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const stats = await refreshArticles({
+      ...(options.limit !== undefined && { limit: options.limit }),
+      ...(options.intervalHours !== undefined && {
+        minIntervalHours: options.intervalHours,
+      }),
+      ...(options.maxAgeDays !== undefined && {
+        maxAgeDays: options.maxAgeDays,
+      }),
+      ...(options.concurrency !== undefined && {
+        concurrency: options.concurrency,
+      }),
+      ...(options.perHost !== undefined && {
+        perHostConcurrency: options.perHost,
+      }),
+    });
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: {
+          ...options,
+          result: { ...stats },
+        },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Articles changed: ${stats.changed}`);
+    console.log(`Articles unchanged: ${stats.unchanged}`);
+    console.log(`Articles failed: ${stats.failed}`);
+    console.log(`Articles skipped: ${stats.skipped}`);
+
+    if (stats.changed > 0) {
+      console.log(
+        "\nRun generate-embeddings to re-embed the changed articles."
+      );
+    }
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -0,0 +1,183 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to keep stored stories and comments up to date
+ *
+ * Polls the HN updates feed and re-fetches every changed item that belongs to
+ * a story we already track, until interrupted.
+ *
+ * Usage:
+ *   pnpm tsx scripts/refresh-stories.ts
+ *   pnpm tsx scripts/refresh-stories.ts --interval=30
+ *   pnpm tsx scripts/refresh-stories.ts --once
+ */
+
+import { refreshUpdatedItems } from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): { interval: number; once: boolean } {
+  const args = process.argv.slice(2);
+  const options = { interval: 60, once: false };
+
+  for (const arg of args) {
+    if (arg.startsWith("--interval=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.interval = parseInt(value, 10);
+      }
+    } else if (arg === "--once") {
+      options.once = true;
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/refresh-stories.ts [options]
+
+Options:
+  --interval=N   Seconds between polls of the updates feed (default: 60)
+  --once         Run a single refresh pass and exit
+  --help, -h     Show this help message
+
+Examples:
+  pnpm tsx scripts/refresh-stories.ts
+  pnpm tsx scripts/refresh-stories.ts --interval=30
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Delay execution for a specified number of milliseconds
+ *
+ * @param ms - Milliseconds to delay
+ * @returns Promise that resolves after the delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== HN Story Refresher ===\n");
+
+  const totals = {
+    passes: 0,
+    storiesUpdated: 0,
+    commentsUpdated: 0,
+    commentsAdded: 0,
+    pollOptionsUpdated: 0,
+    errors: 0,
+  };
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "refresh-stories",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  // Checked between passes; set by the SIGINT handler
+  const state = { stopping: false };
+
+  process.on("SIGINT", () => {
+    console.log("\nStopping after the current pass...");
+    state.stopping = true;
+  });
+
+  try {
+    while (!state.stopping) {
+      try {
+        const result = await refreshUpdatedItems();
+
+        totals.storiesUpdated += result.storiesUpdated;
+        totals.commentsUpdated += result.commentsUpdated;
+        totals.commentsAdded += result.commentsAdded;
+        totals.pollOptionsUpdated += result.pollOptionsUpdated;
+        totals.errors += result.errors.length;
+
+        console.log(
+          `[${new Date().toISOString()}] ${result.updatedItems} changed items: ` +
+            `${result.storiesUpdated} stories updated, ` +
+            `${result.commentsUpdated} comments updated, ` +
+            `${result.commentsAdded} comments added, ` +
+            `${result.pollOptionsUpdated} poll options updated, ` +
+            `${result.ignored} untracked, ${result.errors.length} errors`
+        );
+
+        for (const error of result.errors) {
+          console.error(`  - Item ${error.id}: ${error.error}`);
+        }
+      } catch (error) {
+        // A failed poll (e.g. the updates feed timing out) is retried on the
+        // next pass rather than stopping the refresher
+        totals.errors++;
+        console.error(
+          `[${new Date().toISOString()}] ✗ Refresh pass failed:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      totals.passes++;
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { metadata: { ...options, result: totals } },
+      });
+
+      if (options.once) {
+        break;
+      }
+
+      await delay(options.interval * 1000);
+    }
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: { ...options, result: totals },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Passes: ${totals.passes}`);
+    console.log(`Stories updated: ${totals.storiesUpdated}`);
+    console.log(`Comments updated: ${totals.commentsUpdated}`);
+    console.log(`Comments added: ${totals.commentsAdded}`);
+    console.log(`Poll options updated: ${totals.pollOptionsUpdated}`);
+    console.log(`Errors: ${totals.errors}`);
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -3,19 +3,28 @@
 /**
  * CLI script to run the full pipeline
  *
- * This script runs all three steps in sequence:
+ * This script runs all four steps in sequence:
  * 1. Fetch HN stories and comments
  * 2. Scrape article content
  * 3. Generate embeddings
+ * 4. Cluster full-article embeddings for user summaries
  *
  * Usage:
  *   pnpm tsx scripts/run-full-pipeline.ts
  *   pnpm tsx scripts/run-full-pipeline.ts --hours=12 --limit=20
  */
 
-import { fetchAndPersistStories } from "../lib/hacker-news";
-import { scrapeAndPersistArticles } from "../lib/scraping";
-import { processAllArticles } from "../lib/embeddings";
+import {
+  fetchAndPersistStories,
+  isStoryListSource,
+  type StoryListSource,
+} from "../lib/hacker-news";
+import {
+  requeueFailedArticles,
+  scrapeAndPersistArticles,
+} from "../lib/scraping";
+import { processEmbeddingSources } from "../lib/embeddings";
+import { ensureArticleClusters } from "../lib/visualization/article-clusters";
 import { prisma } from "../lib/database";
 
 /**
@@ -24,6 +33,7 @@ import { prisma } from "../lib/database";
  * @returns Parsed options
  */
 function parseArgs(): {
+  source?: StoryListSource;
   hours?: number;
   count?: number;
   scrapeLimit?: number;
@@ -31,6 +41,7 @@ function parseArgs(): {
 } {
   const args = process.argv.slice(2);
   const options: {
+    source?: StoryListSource;
     hours?: number;
     count?: number;
     scrapeLimit?: number;
@@ -38,7 +49,15 @@ function parseArgs(): {
   } = {};
 
   for (const arg of args) {
-    if (arg.startsWith("--hours=")) {
+    if (arg.startsWith("--source=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined && isStoryListSource(value)) {
+        options.source = value;
+      } else {
+        console.error(`Unknown story list: ${value ?? ""}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith("--hours=")) {
       const value = arg.split("=")[1];
       if (value !== undefined) {
         options.hours = parseInt(value, 10);
@@ -63,10 +82,13 @@ function parseArgs(): {
 Usage: pnpm tsx scripts/run-full-pipeline.ts [options]
 
 Options:
+  --source=L            Story list to read: new, top, best, ask, show or job
+                        (default: new)
   --hours=N             Fetch stories from the last N hours (default: 24)
   --count=N             Fetch the latest N stories
   --scrape-limit=N      Maximum number of articles to scrape
-  --embedding-limit=N   Maximum number of articles to generate embeddings for
+  --embedding-limit=N   Maximum number of items to embed per source (articles,
+                        story text, comments)
   --help, -h            Show this help message
 
 Examples:
@@ -95,9 +117,10 @@ async function main(): Promise<void> {
 
   try {
     // Step 1: Fetch stories
-    console.log("━━━ Step 1/3: Fetching HN Stories ━━━\n");
+    console.log("━━━ Step 1/4: Fetching HN Stories ━━━\n");
 
     const fetchResult = await fetchAndPersistStories({
+      ...(options.source !== undefined && { source: options.source }),
       ...(options.hours !== undefined && { hours: options.hours }),
       ...(options.count !== undefined && { count: options.count }),
     });
@@ -107,21 +130,46 @@ async function main(): Promise<void> {
     console.log(`✓ Skipped ${fetchResult.skipped} existing stories\n`);
 
     // Step 2: Scrape articles
-    console.log("━━━ Step 2/3: Scraping Articles ━━━\n");
+    console.log("━━━ Step 2/4: Scraping Articles ━━━\n");
 
+    // Failed scrapes that are due for a retry go back in the queue
+    const requeued = await requeueFailedArticles();
     const scrapeStats = await scrapeAndPersistArticles(options.scrapeLimit);
 
     console.log(`✓ Scraped ${scrapeStats.success} articles successfully`);
-    console.log(`✗ Failed ${scrapeStats.failed} articles\n`);
+    console.log(`✗ Failed ${scrapeStats.failed} articles`);
+    console.log(`↻ Re-queued ${requeued} failed articles for a retry\n`);
 
     // Step 3: Generate embeddings
-    console.log("━━━ Step 3/3: Generating Embeddings ━━━\n");
+    console.log("━━━ Step 3/4: Generating Embeddings ━━━\n");
+
+    const embeddingStats = await processEmbeddingSources(
+      ["article", "story", "comment"],
+      options.embeddingLimit
+    );
+
+    let embeddingsCreated = 0;
+    let itemsEmbedded = 0;
 
-    const embeddingStats = await processAllArticles(options.embeddingLimit);
+    for (const stats of embeddingStats) {
+      embeddingsCreated += stats.embeddings;
+      itemsEmbedded += stats.processed;
+      console.log(
+        `✓ ${stats.source}: ${stats.processed} processed, ${stats.embeddings} embeddings, ${stats.errors} errors`
+      );
+    }
+    console.log("");
+
+    // Step 4: Cluster articles, so user summaries read stored labels
+    console.log("━━━ Step 4/4: Clustering Articles ━━━\n");
+
+    const reclustered = await ensureArticleClusters();
 
-    console.log(`✓ Processed ${embeddingStats.processed} articles`);
-    console.log(`✓ Created ${embeddingStats.embeddings} embeddings`);
-    console.log(`✗ Errors: ${embeddingStats.errors}\n`);
+    console.log(
+      reclustered
+        ? "✓ Clustered full-article embeddings\n"
+        : "✓ Article clusters already up to date\n"
+    );
 
     // Summary
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
@@ -140,7 +188,7 @@ async function main(): Promise<void> {
       `  Articles: ${scrapeStats.success} scraped, ${scrapeStats.failed} failed`
     );
     console.log(
-      `  Embeddings: ${embeddingStats.embeddings} created for ${embeddingStats.processed} articles`
+      `  Embeddings: ${embeddingsCreated} created for ${itemsEmbedded} articles, stories and comments`
     );
     console.log("\n✓ Done!");
   } catch (error) {
@@ -6,9 +6,15 @@
  * Usage:
  *   pnpm tsx scripts/scrape-articles.ts
  *   pnpm tsx scripts/scrape-articles.ts --limit=10
+ *   pnpm tsx scripts/scrape-articles.ts --max-pdf-mb=50
+ *   pnpm tsx scripts/scrape-articles.ts --concurrency=16 --per-host=2
+ *   pnpm tsx scripts/scrape-articles.ts --retry --max-attempts=8
  */
 
-import { scrapeAndPersistArticles } from "../lib/scraping";
+import {
+  requeueFailedArticles,
+  scrapeAndPersistArticles,
+} from "../lib/scraping";
 import { prisma } from "../lib/database";
 
 /**
@@ -16,9 +22,23 @@ import { prisma } from "../lib/database";
  *
  * @returns Parsed options
  */
-function parseArgs(): { limit?: number } {
+function parseArgs(): {
+  limit?: number;
+  maxPdfMb?: number;
+  concurrency?: number;
+  perHost?: number;
+  retry?: boolean;
+  maxAttempts?: number;
+} {
   const args = process.argv.slice(2);
-  const options: { limit?: number } = {};
+  const options: {
+    limit?: number;
+    maxPdfMb?: number;
+    concurrency?: number;
+    perHost?: number;
+    retry?: boolean;
+    maxAttempts?: number;
+  } = {};
 
   for (const arg of args) {
     if (arg.startsWith("--limit=")) {
@@ -26,17 +46,47 @@ function parseArgs(): { limit?: number } {
       if (value !== undefined) {
         options.limit = parseInt(value, 10);
       }
+    } else if (arg.startsWith("--max-pdf-mb=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxPdfMb = parseFloat(value);
+      }
+    } else if (arg.startsWith("--concurrency=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.concurrency = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--per-host=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.perHost = parseInt(value, 10);
+      }
+    } else if (arg === "--retry") {
+      options.retry = true;
+    } else if (arg.startsWith("--max-attempts=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxAttempts = parseInt(value, 10);
+      }
     } else if (arg === "--help" || arg === "-h") {
       console.log(`
 Usage: pnpm tsx scripts/scrape-articles.ts [options]
 
 Options:
-  --limit=N   Maximum number of articles to scrape
-  --help, -h  Show this help message
+  --limit=N         Maximum number of articles to scrape
+  --max-pdf-mb=N    Largest PDF to download, in MB (default: 20)
+  --concurrency=N   Requests in flight across all hosts (default: 8)
+  --per-host=N      Requests in flight per host (default: 1)
+  --retry           Re-queue failed articles that are due for a retry first
+  --max-attempts=N  Attempts before a retryable failure is permanent (default: 5)
+  --help, -h        Show this help message
 
 Examples:
   pnpm tsx scripts/scrape-articles.ts
   pnpm tsx scripts/scrape-articles.ts --limit=20
+  pnpm tsx scripts/scrape-articles.ts --max-pdf-mb=50
+  pnpm tsx scripts/scrape-articles.ts --concurrency=16 --per-host=2
+  pnpm tsx scripts/scrape-articles.ts --retry
       `);
       process.exit(0);
     }
@@ -70,7 +120,27 @@ async function main(): Promise<void> {
   });
 
   try {
-    const stats = await scrapeAndPersistArticles(options.limit);
+    let requeued = 0;
+
+    if (options.retry === true) {
+      requeued = await requeueFailedArticles();
+      console.log(`Re-queued ${requeued} failed articles due for a retry\n`);
+    }
+
+    const stats = await scrapeAndPersistArticles(options.limit, {
+      ...(options.maxPdfMb !== undefined && {
+        maxPdfBytes: Math.round(options.maxPdfMb * 1024 * 1024),
+      }),
+      ...(options.concurrency !== undefined && {
+        concurrency: options.concurrency,
+      }),
+      ...(options.perHost !== undefined && {
+        perHostConcurrency: options.perHost,
+      }),
+      ...(options.maxAttempts !== undefined && {
+        maxAttempts: options.maxAttempts,
+      }),
+    });
 
     // Update task status
     await prisma.task.update({
@@ -80,7 +150,7 @@ async function main(): Promise<void> {
         completedAt: new Date(),
         metadata: {
           ...options,
-          result: stats,
+          result: { ...stats, requeued },
         },
       },
     });
@@ -89,6 +159,10 @@ async function main(): Promise<void> {
     console.log(`Articles scraped successfully: ${stats.success}`);
     console.log(`Articles failed: ${stats.failed}`);
     console.log(`Articles skipped: ${stats.skipped}`);
+
+    if (options.retry === true) {
+      console.log(`Failed articles re-queued: ${requeued}`);
+    }
     console.log("\n✓ Done!");
   } catch (error) {
     // Update task status
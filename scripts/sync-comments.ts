@@ -0,0 +1,180 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to sync comments for stored stories that are still active
+ *
+ * Diffs the comment tree of every stored story posted within the window
+ * against the stored comments, fetches only what is new and writes only new
+ * or changed comments.
+ *
+ * Usage:
+ *   pnpm tsx scripts/sync-comments.ts
+ *   pnpm tsx scripts/sync-comments.ts --window=24 --max-depth=5
+ *   pnpm tsx scripts/sync-comments.ts --fixtures=fixtures/hn
+ */
+
+import {
+  loadFixtureSource,
+  setHnSource,
+  syncRecentStories,
+} from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): {
+  windowHours?: number;
+  maxCommentDepth?: number;
+  recheckHours?: number;
+  fixtures?: string;
+} {
+  const args = process.argv.slice(2);
+  const options: {
+    windowHours?: number;
+    maxCommentDepth?: number;
+    recheckHours?: number;
+    fixtures?: string;
+  } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--window=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.windowHours = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--max-depth=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxCommentDepth = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--recheck-hours=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.recheckHours = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--fixtures=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.fixtures = value;
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/sync-comments.ts [options]
+
+Options:
+  --window=N      Sync stories posted within the last N hours (default: 48)
+  --max-depth=N   Maximum comment depth to fetch (default: unlimited)
+  --recheck-hours=N
+                  Re-fetch stored comments posted within the last N hours
+                  (default: 2)
+  --fixtures=DIR  Read from a recorded fixture directory instead of the
+                  live API
+  --help, -h      Show this help message
+
+Examples:
+  pnpm tsx scripts/sync-comments.ts
+  pnpm tsx scripts/sync-comments.ts --window=24
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== HN Comment Sync ===\n");
+
+  if (options.fixtures !== undefined) {
+    setHnSource(
+      await loadFixtureSource(options.fixtures, {
+        replayAt: Math.floor(Date.now() / 1000),
+      })
+    );
+    console.log(`Reading from fixtures in ${options.fixtures}\n`);
+  }
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "sync-comments",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const result = await syncRecentStories({
+      ...options,
+      onStorySynced: (storyId, progress) => {
+        console.log(
+          `Synced story ${storyId} (${progress.storiesSynced} done, ` +
+            `${progress.commentsAdded} added, ${progress.commentsUpdated} updated)`
+        );
+      },
+    });
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: {
+          ...options,
+          result: {
+            storiesSynced: result.storiesSynced,
+            storiesUnchanged: result.storiesUnchanged,
+            commentsAdded: result.commentsAdded,
+            commentsUpdated: result.commentsUpdated,
+            commentsUnchanged: result.commentsUnchanged,
+            errors: result.errors.length,
+          },
+        },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Stories synced: ${result.storiesSynced}`);
+    console.log(`Stories unchanged: ${result.storiesUnchanged}`);
+    console.log(`Comments added: ${result.commentsAdded}`);
+    console.log(`Comments updated: ${result.commentsUpdated}`);
+    console.log(`Comments unchanged: ${result.commentsUnchanged}`);
+    console.log(`Errors: ${result.errors.length}`);
+
+    if (result.errors.length > 0) {
+      console.log("\nErrors:");
+      for (const error of result.errors) {
+        console.log(`  - Story ${error.id}: ${error.error}`);
+      }
+    }
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to fetch HN user profiles for authors of stored items
+ *
+ * Usage:
+ *   pnpm tsx scripts/sync-users.ts
+ *   pnpm tsx scripts/sync-users.ts --limit=500 --max-age=1
+ */
+
+import { syncUsers } from "../lib/hacker-news";
+import { prisma } from "../lib/database";
+
+/**
+ * Parse command line arguments
+ *
+ * @returns Parsed options
+ */
+function parseArgs(): { limit?: number; maxAgeDays?: number } {
+  const args = process.argv.slice(2);
+  const options: { limit?: number; maxAgeDays?: number } = {};
+
+  for (const arg of args) {
+    if (arg.startsWith("--limit=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.limit = parseInt(value, 10);
+      }
+    } else if (arg.startsWith("--max-age=")) {
+      const value = arg.split("=")[1];
+      if (value !== undefined) {
+        options.maxAgeDays = parseInt(value, 10);
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(`
+Usage: pnpm tsx scripts/sync-users.ts [options]
+
+Options:
+  --limit=N     Maximum number of profiles to fetch (default: 100)
+  --max-age=N   Re-fetch profiles older than N days (default: 7)
+  --help, -h    Show this help message
+
+Examples:
+  pnpm tsx scripts/sync-users.ts
+  pnpm tsx scripts/sync-users.ts --limit=500 --max-age=1
+      `);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log("=== HN User Sync ===\n");
+
+  // Create a task record
+  const task = await prisma.task.create({
+    data: {
+      type: "sync-users",
+      status: "running",
+      startedAt: new Date(),
+      metadata: options,
+    },
+  });
+
+  try {
+    const result = await syncUsers(options);
+
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        metadata: {
+          ...options,
+          result: {
+            synced: result.synced,
+            missing: result.missing,
+            errors: result.errors.length,
+          },
+        },
+      },
+    });
+
+    console.log("\n=== Summary ===");
+    console.log(`Users synced: ${result.synced}`);
+    console.log(`Users missing on HN: ${result.missing}`);
+    console.log(`Errors: ${result.errors.length}`);
+
+    if (result.errors.length > 0) {
+      console.log("\nErrors:");
+      for (const error of result.errors) {
+        console.log(`  - User ${error.id}: ${error.error}`);
+      }
+    }
+
+    console.log("\n✓ Done!");
+  } catch (error) {
+    // Update task status
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    console.error("\n✗ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+void main();
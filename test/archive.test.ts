@@ -0,0 +1,85 @@
+/**
+ * Response archive checks in a temporary directory
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  archiveResponse,
+  readArchivedResponse,
+  type ArchivedResponse,
+} from "../lib/scraping/archive";
+
+const BODY = new TextEncoder().encode(
+  '<html><body><a href="/about">About</a></body></html>'
+);
+
+/**
+ * Build a response for the archive
+ *
+ * @param finalUrl - URL the response came from
+ * @param contentType - Content-Type header
+ * @returns Response with the shared body
+ */
+function response(finalUrl: string, contentType: string): ArchivedResponse {
+  return {
+    url: finalUrl,
+    finalUrl,
+    status: 200,
+    headers: { "content-type": contentType },
+    fetchedAt: new Date("2025-01-01T00:00:00Z"),
+    body: BODY,
+  };
+}
+
+void describe("response archive", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "archive-test-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  void it("reads back what was stored", async () => {
+    const stored = response("https://a.example.com/", "text/html");
+    const key = await archiveResponse(stored, dir);
+
+    assert.deepEqual(await readArchivedResponse(key, dir), stored);
+  });
+
+  void it("stores the same body from two URLs separately", async () => {
+    const first = response("https://a.example.com/", "text/html");
+    const second = response("https://b.example.com/", "text/plain");
+
+    const firstKey = await archiveResponse(first, dir);
+    const secondKey = await archiveResponse(second, dir);
+
+    assert.notEqual(firstKey, secondKey);
+    assert.deepEqual(await readArchivedResponse(secondKey, dir), second);
+  });
+
+  void it("shares a file between refetches of an unchanged page", async () => {
+    const first = response("https://a.example.com/", "text/html");
+    const refetch = {
+      ...response("https://a.example.com/", "text/html; charset=utf-8"),
+      fetchedAt: new Date("2025-02-01T00:00:00Z"),
+    };
+
+    const key = await archiveResponse(first, dir);
+
+    assert.equal(await archiveResponse(refetch, dir), key);
+    assert.deepEqual(await readArchivedResponse(key, dir), first);
+  });
+
+  void it("reads a missing key as null", async () => {
+    assert.equal(await readArchivedResponse("0".repeat(64), dir), null);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * URL canonicalization checks
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  canonicalizeUrl,
+  resolveCanonicalLink,
+} from "../lib/scraping/canonical-url";
+
+void describe("canonicalizeUrl", () => {
+  const cases: Array<[name: string, url: string, expected: string]> = [
+    [
+      "upgrades http and drops www.",
+      "http://www.Example.COM/post",
+      "https://example.com/post",
+    ],
+    [
+      "strips utm_* and other tracking parameters",
+      "https://example.com/post?utm_source=hn&UTM_Medium=x&fbclid=1&gclid=2&ref_src=twsrc",
+      "https://example.com/post",
+    ],
+    [
+      "keeps ref, which is not always tracking",
+      "https://github.com/owner/repo/blob/main/README.md?ref=v2",
+      "https://github.com/owner/repo/blob/main/README.md?ref=v2",
+    ],
+    [
+      "sorts the remaining parameters",
+      "https://example.com/search?q=test&a=1&utm_campaign=z",
+      "https://example.com/search?a=1&q=test",
+    ],
+    [
+      "drops the default http port",
+      "http://example.com:80/post",
+      "https://example.com/post",
+    ],
+    [
+      "drops the default https port",
+      "https://example.com:443/post",
+      "https://example.com/post",
+    ],
+    [
+      "keeps other ports",
+      "https://example.com:8080/post",
+      "https://example.com:8080/post",
+    ],
+    [
+      "removes trailing slashes",
+      "https://example.com/post//",
+      "https://example.com/post",
+    ],
+    ["keeps the root path", "https://example.com", "https://example.com/"],
+    [
+      "removes fragments",
+      "https://example.com/post#comments",
+      "https://example.com/post",
+    ],
+    [
+      "keeps hashbang routes",
+      "https://example.com/#!/post/1",
+      "https://example.com/#!/post/1",
+    ],
+    [
+      "keeps hash routes",
+      "https://example.com/app#/post/1",
+      "https://example.com/app#/post/1",
+    ],
+    [
+      "leaves non-http URLs alone",
+      " mailto:a@example.com ",
+      "mailto:a@example.com",
+    ],
+    ["leaves unparsable input alone", "not a url", "not a url"],
+  ];
+
+  for (const [name, url, expected] of cases) {
+    void it(name, () => {
+      assert.equal(canonicalizeUrl(url), expected);
+    });
+  }
+});
+
+void describe("resolveCanonicalLink", () => {
+  const PAGE_URL = "https://example.com/posts/1?utm_source=hn";
+
+  const cases: Array<
+    [
+      name: string,
+      href: string | undefined,
+      pageUrl: string,
+      expected: string | null,
+    ]
+  > = [
+    [
+      "keeps an absolute link",
+      "https://example.org/articles/1",
+      PAGE_URL,
+      "https://example.org/articles/1",
+    ],
+    [
+      "resolves a root-relative link",
+      "/posts/1",
+      PAGE_URL,
+      "https://example.com/posts/1",
+    ],
+    [
+      "resolves a path-relative link",
+      "2",
+      PAGE_URL,
+      "https://example.com/posts/2",
+    ],
+    [
+      "resolves a protocol-relative link",
+      "//cdn.example.com/posts/1",
+      PAGE_URL,
+      "https://cdn.example.com/posts/1",
+    ],
+    ["ignores a missing link", undefined, PAGE_URL, null],
+    ["ignores an empty link", "  ", PAGE_URL, null],
+    ["ignores a root link from an inner page", "/", PAGE_URL, null],
+    [
+      "accepts a root link from the root page",
+      "https://example.com/",
+      "https://example.com/?utm_source=hn",
+      "https://example.com/",
+    ],
+    ["ignores non-http links", "javascript:void(0)", PAGE_URL, null],
+  ];
+
+  for (const [name, href, pageUrl, expected] of cases) {
+    void it(name, () => {
+      assert.equal(resolveCanonicalLink(href, pageUrl), expected);
+    });
+  }
+});
@@ -0,0 +1,80 @@
+/**
+ * CSV parser checks for dump imports
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsvRecords } from "../lib/hacker-news/csv";
+
+/**
+ * Parse CSV text delivered in the given chunks
+ *
+ * @param chunks - Text chunks, split wherever the check needs
+ * @returns Parsed records
+ */
+async function parse(...chunks: string[]): Promise<string[][]> {
+  const records: string[][] = [];
+
+  for await (const record of parseCsvRecords(
+    (async function* () {
+      yield* chunks;
+    })()
+  )) {
+    records.push(record);
+  }
+
+  return records;
+}
+
+void describe("parseCsvRecords", () => {
+  void it("splits unquoted fields and records", async () => {
+    assert.deepEqual(await parse("id,type\n1,story\n2,comment\n"), [
+      ["id", "type"],
+      ["1", "story"],
+      ["2", "comment"],
+    ]);
+  });
+
+  void it("keeps commas inside quoted fields", async () => {
+    assert.deepEqual(await parse('1,"Hello, world",story\n'), [
+      ["1", "Hello, world", "story"],
+    ]);
+  });
+
+  void it("unescapes doubled quotes", async () => {
+    assert.deepEqual(await parse('1,"She said ""hi""",""\n'), [
+      ["1", 'She said "hi"', ""],
+    ]);
+  });
+
+  void it("keeps newlines inside quoted fields", async () => {
+    assert.deepEqual(await parse('1,"first line\nsecond line"\n2,x\n'), [
+      ["1", "first line\nsecond line"],
+      ["2", "x"],
+    ]);
+  });
+
+  void it("treats CRLF as a record separator", async () => {
+    assert.deepEqual(await parse('id,text\r\n1,"a\r\nb"\r\n2,c\r\n'), [
+      ["id", "text"],
+      ["1", "a\r\nb"],
+      ["2", "c"],
+    ]);
+  });
+
+  void it("yields a final record without a trailing newline", async () => {
+    assert.deepEqual(await parse("1,story\n2,comment"), [
+      ["1", "story"],
+      ["2", "comment"],
+    ]);
+  });
+
+  void it("handles quotes and line ends split across chunks", async () => {
+    assert.deepEqual(await parse('1,"say "', '"hi""', '"', "\r", "\n2,x"), [
+      ["1", 'say "hi"'],
+      ["2", "x"],
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Fetcher checks against the recorded item tree in test/fixtures/hn
+ *
+ * The recording holds three stories on the "new" list, posted 1, 3 and 30
+ * hours before it was recorded, and replays them as if recorded now. The
+ * first story has a thread three levels deep.
+ *
+ * Persistence checks write to the database in TEST_DATABASE_URL and are
+ * skipped without one; DATABASE_URL is never used, so they cannot touch a
+ * working database. Fixture IDs are far above real HN IDs; their rows are
+ * deleted before each check and after the run.
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { PrismaClient } from "@prisma/client";
+import { setHnSource } from "../lib/hacker-news/api";
+import type { fetchAndPersistStories } from "../lib/hacker-news/fetcher";
+import { loadFixtureSource } from "../lib/hacker-news/fixtures";
+import { selectStories } from "../lib/hacker-news/selection";
+
+const FIXTURE_DIR = "test/fixtures/hn";
+const NEW_STORIES = [900000010, 900000005, 900000001];
+const FIXTURE_URLS = [
+  "https://example.com/hn-mirror",
+  "https://example.com/yesterday",
+];
+const TEST_DATABASE_URL = process.env["TEST_DATABASE_URL"];
+
+beforeEach(async () => {
+  setHnSource(
+    await loadFixtureSource(FIXTURE_DIR, {
+      replayAt: Math.floor(Date.now() / 1000),
+    })
+  );
+});
+
+void describe("selectStories", () => {
+  void it("selects stories inside the default 24 hour window", async () => {
+    const selection = await selectStories(NEW_STORIES, {});
+
+    assert.deepEqual(
+      selection.stories.map((story) => story.id),
+      [900000010, 900000005]
+    );
+  });
+
+  void it("stops at the first story older than the cutoff", async () => {
+    const selection = await selectStories(NEW_STORIES, { hours: 2 });
+
+    assert.deepEqual(
+      selection.stories.map((story) => story.id),
+      [900000010]
+    );
+    assert.equal(selection.scanned, 2);
+  });
+});
+
+void describe(
+  "fetchAndPersistStories",
+  {
+    skip:
+      TEST_DATABASE_URL === undefined ? "TEST_DATABASE_URL is not set" : false,
+  },
+  () => {
+    // Loaded here so the selection checks run without a database client
+    let prisma: PrismaClient;
+    let fetchStories: typeof fetchAndPersistStories;
+
+    const removeFixtureRows = async (): Promise<void> => {
+      await prisma.hnStory.deleteMany({ where: { id: { in: NEW_STORIES } } });
+      await prisma.scrapedArticle.deleteMany({
+        where: { url: { in: FIXTURE_URLS } },
+      });
+    };
+
+    before(async () => {
+      // The client reads its connection string when the module loads
+      process.env["DATABASE_URL"] = TEST_DATABASE_URL;
+      ({ prisma } = await import("../lib/database"));
+      ({ fetchAndPersistStories: fetchStories } = await import(
+        "../lib/hacker-news/fetcher"
+      ));
+    });
+
+    beforeEach(async () => {
+      await removeFixtureRows();
+    });
+
+    after(async () => {
+      await removeFixtureRows();
+      await prisma.$disconnect();
+    });
+
+    void it("stores only stories inside the hours cutoff", async () => {
+      const result = await fetchStories({ hours: 2 });
+
+      assert.deepEqual(
+        result.stories.map((story) => story.id),
+        [900000010]
+      );
+      assert.deepEqual(result.errors, []);
+
+      const stored = await prisma.hnStory.findMany({
+        where: { id: { in: NEW_STORIES } },
+        select: { id: true },
+      });
+      assert.deepEqual(
+        stored.map((story) => story.id),
+        [900000010]
+      );
+    });
+
+    void it("stores nested comments with their thread position", async () => {
+      await fetchStories({ hours: 2 });
+
+      const comments = await prisma.hnComment.findMany({
+        where: { storyId: 900000010 },
+        select: { id: true, depth: true, rank: true, parentCommentId: true },
+        orderBy: { id: "asc" },
+      });
+
+      assert.deepEqual(comments, [
+        { id: 900000011, depth: 0, rank: 0, parentCommentId: null },
+        { id: 900000012, depth: 0, rank: 1, parentCommentId: null },
+        { id: 900000013, depth: 1, rank: 0, parentCommentId: 900000011 },
+        { id: 900000014, depth: 2, rank: 0, parentCommentId: 900000013 },
+      ]);
+    });
+
+    void it("skips stored stories when the window widens", async () => {
+      await fetchStories({ hours: 2 });
+      const result = await fetchStories({ hours: 24 });
+
+      assert.deepEqual(
+        result.stories.map((story) => story.id),
+        [900000005]
+      );
+      assert.equal(result.skipped, 1);
+      assert.deepEqual(
+        result.comments.map((comment) => comment.id),
+        [900000006]
+      );
+
+      const article = await prisma.storyArticle.findFirst({
+        where: { storyId: 900000005 },
+        select: { article: { select: { url: true } } },
+      });
+      assert.equal(article?.article.url, "https://example.com/hn-mirror");
+    });
+  }
+);
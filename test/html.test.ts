@@ -0,0 +1,63 @@
+/**
+ * HN text conversion checks
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { htmlToMarkdown, htmlToText } from "../lib/hacker-news/html";
+
+void describe("htmlToMarkdown", () => {
+  void it("escapes markdown syntax in literal text", () => {
+    assert.equal(
+      htmlToMarkdown("2 * 3 * 4 = snake_case_name [sic] `x` C:\\temp"),
+      "2 \\* 3 \\* 4 = snake\\_case\\_name \\[sic\\] \\`x\\` C:\\\\temp"
+    );
+  });
+
+  void it("keeps its own emphasis unescaped around escaped text", () => {
+    assert.equal(htmlToMarkdown("<i>*really*</i>"), "*\\*really\\**");
+  });
+
+  void it("leaves code spans and code blocks literal", () => {
+    assert.equal(
+      htmlToMarkdown(
+        "Use <code>a_b*c</code>:<pre><code>  x = y_z * 2\n</code></pre>"
+      ),
+      "Use `a_b*c`:\n\n```\n  x = y_z * 2\n```"
+    );
+  });
+
+  void it("autolinks shortened URLs that contain syntax characters", () => {
+    assert.equal(
+      htmlToMarkdown(
+        '<a href="https://example.com/some_long_path/with_parts">https://example.com/some_long...</a>'
+      ),
+      "<https://example.com/some_long_path/with_parts>"
+    );
+  });
+
+  void it("escapes the text of named links", () => {
+    assert.equal(
+      htmlToMarkdown('<a href="https://example.com/">the_docs</a>'),
+      "[the\\_docs](https://example.com/)"
+    );
+  });
+
+  void it("separates paragraphs and decodes entities", () => {
+    assert.equal(
+      htmlToMarkdown("It&#x27;s here<p>Second &amp; last"),
+      "It's here\n\nSecond & last"
+    );
+  });
+});
+
+void describe("htmlToText", () => {
+  void it("does not escape markdown syntax", () => {
+    assert.equal(
+      htmlToText('snake_case <a href="https://example.com/a_b">x*y</a>'),
+      "snake_case x*y"
+    );
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Metadata extraction checks on inline pages
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as cheerio from "cheerio";
+import { extractMetadata } from "../lib/scraping/metadata";
+
+const PAGE_URL = "https://blog.example.com/posts/polite-crawling?utm_source=hn";
+
+void describe("extractMetadata canonicalUrl", () => {
+  void it("follows rel=canonical", () => {
+    const $ = cheerio.load(
+      '<head><link rel="canonical" href="/posts/polite-crawling"></head>'
+    );
+
+    assert.equal(
+      extractMetadata($, PAGE_URL).canonicalUrl,
+      "https://blog.example.com/posts/polite-crawling"
+    );
+  });
+
+  void it("ignores og:url and JSON-LD url", () => {
+    const $ = cheerio.load(`
+      <head>
+        <meta property="og:url" content="https://blog.example.com/">
+        <script type="application/ld+json">
+          {"@type": "BlogPosting", "url": "https://blog.example.com/posts/"}
+        </script>
+      </head>
+    `);
+
+    assert.equal(extractMetadata($, PAGE_URL).canonicalUrl, null);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Site extractor checks against saved pages in test/fixtures/sites
+ *
+ * Each fixture is a trimmed copy of a real page of the site, keeping the
+ * markup its extractor reads and the clutter it removes. Every pattern also
+ * has a URL of the same site it must not claim.
+ *
+ * Run with `pnpm test`.
+ */
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { describe, it } from "node:test";
+import { extractContent } from "../lib/scraping/extractor";
+import { findSiteExtractor } from "../lib/scraping/site-extractors";
+
+const FIXTURE_DIR = "test/fixtures/sites";
+
+/**
+ * A saved page and what its site extractor should pull out of it
+ */
+interface SiteCase {
+  extractor: string;
+  url: string;
+  title: string;
+  content: string;
+  markdown: string;
+
+  /**
+   * URLs of the same site that are left to generic extraction, one per
+   * pattern
+   */
+  otherUrls: string[];
+}
+
+const CASES: SiteCase[] = [
+  {
+    extractor: "github",
+    url: "https://github.com/example/tiny-crawler",
+    title: "example/tiny-crawler",
+    content: [
+      "A polite crawler in 500 lines.",
+      "",
+      "tiny-crawler",
+      "Fetches pages, honours robots.txt and backs off per host.",
+      "Install",
+      "npm install tiny-crawler",
+      "See the usage guide.",
+    ].join("\n"),
+    markdown: [
+      "A polite crawler in 500 lines.",
+      "",
+      "# tiny-crawler",
+      "",
+      "Fetches pages, honours `robots.txt` and backs off per host.",
+      "",
+      "## Install",
+      "",
+      "```",
+      "npm install tiny-crawler",
+      "```",
+      "",
+      "See [the usage guide](https://github.com/example/tiny-crawler/blob/main/docs/usage.md).",
+    ].join("\n"),
+    otherUrls: ["https://github.com/example/tiny-crawler/issues/12"],
+  },
+  {
+    extractor: "arxiv",
+    url: "https://arxiv.org/abs/2401.01234",
+    title: "Polite Crawling at Scale",
+    content: [
+      "Polite Crawling at Scale",
+      "",
+      "Lovelace, Ada; Hopper, Grace",
+      "",
+      "We study crawlers that respect robots.txt and per-host rate limits. Politeness costs less throughput than commonly assumed.",
+      "",
+      "Networking and Internet Architecture (cs.NI); Information Retrieval (cs.IR)",
+    ].join("\n"),
+    markdown: [
+      "# Polite Crawling at Scale",
+      "",
+      "*Lovelace, Ada; Hopper, Grace*",
+      "",
+      "We study crawlers that respect robots.txt and per-host rate limits. Politeness costs less throughput than commonly assumed.",
+      "",
+      "Subjects: Networking and Internet Architecture (cs.NI); Information Retrieval (cs.IR)",
+    ].join("\n"),
+    otherUrls: ["https://arxiv.org/pdf/2401.01234"],
+  },
+  {
+    extractor: "youtube",
+    url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    title: "How crawlers stay polite",
+    content: [
+      "How crawlers stay polite",
+      "",
+      "Video by Example Channel",
+      "",
+      "A walk through robots.txt, crawl delays and per-host queues.",
+      "",
+      "Chapters:",
+      "0:00 Intro",
+      "1:30 robots.txt",
+      "6:10 Crawl-delay & backoff",
+      "",
+      "Code: https://github.com/example/tiny-crawler",
+    ].join("\n"),
+    markdown: [
+      "# How crawlers stay polite",
+      "",
+      "*Video by Example Channel*",
+      "",
+      "A walk through robots.txt, crawl delays and per-host queues.",
+      "",
+      "Chapters:  ",
+      "0:00 Intro  ",
+      "1:30 robots.txt  ",
+      "6:10 Crawl-delay & backoff",
+      "",
+      "Code: https://github.com/example/tiny-crawler",
+    ].join("\n"),
+    otherUrls: ["https://www.youtube.com/@example/videos", "https://youtu.be/"],
+  },
+  {
+    extractor: "wikipedia",
+    url: "https://en.wikipedia.org/wiki/Web_crawler",
+    title: "Web crawler",
+    content: [
+      "A web crawler is an Internet bot that systematically browses the World Wide Web.",
+      "Politeness policy",
+      "Crawlers honour robots.txt and limit requests per host.",
+    ].join("\n"),
+    markdown: [
+      "A **web crawler** is an Internet bot that systematically browses the [World Wide Web](https://en.wikipedia.org/wiki/World_Wide_Web).",
+      "",
+      "## Politeness policy",
+      "",
+      "Crawlers honour `robots.txt` and limit requests per host.",
+    ].join("\n"),
+    otherUrls: [
+      "https://en.wikipedia.org/w/index.php?title=Web_crawler&action=history",
+    ],
+  },
+  {
+    extractor: "substack",
+    url: "https://example.substack.com/p/why-my-crawler-sleeps",
+    title: "Why my crawler sleeps",
+    content: [
+      "Rate limits are a feature",
+      "",
+      "Every host gets its own queue.",
+      "Backoff",
+      "Double the delay after a 429.",
+      "Reset it after a success.",
+    ].join("\n"),
+    markdown: [
+      "*Rate limits are a feature*",
+      "",
+      "Every host gets its own queue.",
+      "",
+      "## Backoff",
+      "",
+      "- Double the delay after a 429.",
+      "- Reset it after a success.",
+    ].join("\n"),
+    otherUrls: ["https://example.substack.com/archive"],
+  },
+];
+
+for (const siteCase of CASES) {
+  void describe(`${siteCase.extractor} extractor`, () => {
+    void it("claims its URLs", () => {
+      assert.equal(findSiteExtractor(siteCase.url)?.name, siteCase.extractor);
+    });
+
+    void it("leaves other URLs of the site to generic extraction", () => {
+      for (const url of siteCase.otherUrls) {
+        assert.equal(findSiteExtractor(url), null, url);
+      }
+    });
+
+    void it("extracts the title, content and markdown", async () => {
+      const html = await readFile(
+        `${FIXTURE_DIR}/${siteCase.extractor}.html`,
+        "utf8"
+      );
+      const extracted = extractContent(html, siteCase.url);
+
+      assert.equal(extracted.extractor, siteCase.extractor);
+      assert.equal(extracted.title, siteCase.title);
+      assert.equal(extracted.content, siteCase.content);
+      assert.equal(extracted.markdown, siteCase.markdown);
+    });
+  });
+}